@@ -5,6 +5,10 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import CommandPalette from "@/components/CommandPalette";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import { AuthProvider } from "@/hooks/use-auth";
+import { CommandPaletteProvider } from "@/hooks/use-command-palette";
 
 import Dashboard from "./pages/Dashboard";
 import Contacts from "./pages/Contacts";
@@ -12,6 +16,8 @@ import Conversations from "./pages/Conversations";
 import Analytics from "./pages/Analytics";
 import Settings from "./pages/Settings";
 import Templates from "./pages/Templates";
+import Users from "./pages/Users";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,15 +30,26 @@ const App = () => {
         <Sonner />
 
         <BrowserRouter basename="/WhatsConnect">
+          <AuthProvider>
+          <CommandPaletteProvider>
+          <CommandPalette />
           <Routes>
-            <Route path="/" element={<Dashboard />} />
-            <Route path="/contacts" element={<Contacts />} />
-            <Route path="/conversations" element={<Conversations />} />
-            <Route path="/analytics" element={<Analytics />} />
-            <Route path="/templates" element={<Templates />} />
-            <Route path="/settings" element={<Settings />} />
+            <Route path="/login" element={<Login />} />
+            <Route element={<ProtectedRoute />}>
+              <Route path="/" element={<Dashboard />} />
+              <Route path="/contacts" element={<Contacts />} />
+              <Route path="/conversations" element={<Conversations />} />
+              <Route path="/analytics" element={<Analytics />} />
+              <Route path="/templates" element={<Templates />} />
+              <Route path="/settings" element={<Settings />} />
+            </Route>
+            <Route element={<ProtectedRoute role="admin" />}>
+              <Route path="/users" element={<Users />} />
+            </Route>
             <Route path="*" element={<NotFound />} />
           </Routes>
+          </CommandPaletteProvider>
+          </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
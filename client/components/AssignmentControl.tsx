@@ -0,0 +1,210 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown, History, UserMinus, UserPlus } from "lucide-react";
+import { AvailabilityStatus, useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import AvailabilityDot from "@/components/AvailabilityDot";
+import { apiFetch } from "@/lib/api";
+
+export interface Actor {
+  userId: string;
+  name: string;
+}
+
+export interface AssignmentChange {
+  from?: Actor;
+  to?: Actor;
+  /** Empty for automatic assignment */
+  by?: Actor;
+  reason?: string;
+  at: string;
+}
+
+interface AssignableContact {
+  _id: string;
+  assignedTo?: Actor | null;
+}
+
+interface DirectoryUser {
+  _id: string;
+  name: string;
+  role: string;
+  availability?: { status: AvailabilityStatus };
+}
+
+const AVATAR_COLORS = ["bg-emerald-500", "bg-sky-500", "bg-violet-500", "bg-amber-500", "bg-rose-500", "bg-teal-500"];
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map((part) => part[0].toUpperCase()).join("") || "?";
+
+/** Round badge with the initials of the assignee, colored per user */
+export function AssigneeAvatar({ actor, size = "sm" }: { actor: Actor; size?: "sm" | "md" }) {
+  const hash = Array.from(actor.userId || actor.name).reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  return (
+    <span
+      className={`inline-flex items-center justify-center rounded-full text-white font-semibold shrink-0 ${
+        AVATAR_COLORS[hash % AVATAR_COLORS.length]
+      } ${size === "sm" ? "w-6 h-6 text-[10px]" : "w-8 h-8 text-xs"}`}
+      title={`Assigned to ${actor.name}`}
+    >
+      {initials(actor.name)}
+    </span>
+  );
+}
+
+const describeChange = (change: AssignmentChange) => {
+  const action = change.to
+    ? change.from
+      ? `Reassigned from ${change.from.name} to ${change.to.name}`
+      : `Assigned to ${change.to.name}`
+    : `Unassigned from ${change.from?.name || "nobody"}`;
+  return `${action} ${change.by ? `by ${change.by.name}` : "automatically"}${change.reason ? ` (${change.reason})` : ""}`;
+};
+
+interface AssignmentControlProps<C extends AssignableContact> {
+  contact: C;
+  /** Called with the updated contact, as the server returns it */
+  onChange: (contact: C) => void;
+}
+
+/**
+ * Who owns the open conversation, with take / give up / reassign actions and
+ * the assignment history. What is offered follows the server's rules: agents
+ * take unassigned conversations, supervisors assign anyone.
+ */
+export default function AssignmentControl<C extends AssignableContact>({ contact, onChange }: AssignmentControlProps<C>) {
+  const [open, setOpen] = useState(false);
+  const [users, setUsers] = useState<DirectoryUser[]>([]);
+  const [history, setHistory] = useState<AssignmentChange[]>([]);
+  const [busy, setBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { user, hasRole } = useAuth();
+  const { toast } = useToast();
+
+  const assignee = contact.assignedTo?.userId ? contact.assignedTo : null;
+  const mine = assignee?.userId === user?._id;
+  const supervisor = hasRole("supervisor");
+
+  // Load the team and the history when the menu opens
+  useEffect(() => {
+    if (!open) return;
+    apiFetch(`/api/contacts/${contact._id}`)
+      .then((response) => response.json())
+      .then((data) => setHistory(Array.isArray(data.assignmentHistory) ? data.assignmentHistory.slice().reverse() : []))
+      .catch((error) => console.error("Failed to load assignment history:", error));
+    if (supervisor && users.length === 0) {
+      apiFetch("/api/users/directory")
+        .then((response) => response.json())
+        .then((data) => setUsers(Array.isArray(data) ? data : []))
+        .catch((error) => console.error("Failed to load users:", error));
+    }
+  }, [open, contact._id, contact.assignedTo?.userId]);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const change = async (path: "assign" | "unassign", userId?: string) => {
+    try {
+      setBusy(true);
+      const response = await apiFetch(`/api/contacts/${contact._id}/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(userId ? { userId } : {}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: "Unable to change the assignment", description: data.error, variant: "destructive" });
+        return;
+      }
+      onChange(data);
+      setOpen(false);
+    } catch (error) {
+      console.error("Error changing assignment:", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!hasRole("agent")) {
+    return assignee ? <AssigneeAvatar actor={assignee} size="md" /> : null;
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors text-sm flex items-center gap-2"
+      >
+        {assignee ? <AssigneeAvatar actor={assignee} /> : <UserPlus className="w-4 h-4" />}
+        {assignee ? (mine ? "You" : assignee.name) : "Unassigned"}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-20 py-1">
+          {!mine && (!assignee || supervisor) && (
+            <button
+              disabled={busy}
+              onClick={() => change("assign")}
+              className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"
+            >
+              <UserPlus className="w-4 h-4" />
+              Assign to me
+            </button>
+          )}
+          {assignee && (mine || supervisor) && (
+            <button
+              disabled={busy}
+              onClick={() => change("unassign")}
+              className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"
+            >
+              <UserMinus className="w-4 h-4" />
+              Unassign
+            </button>
+          )}
+          {supervisor && users.length > 0 && (
+            <div className="border-t border-slate-200 dark:border-slate-700 mt-1 pt-1 max-h-48 overflow-y-auto">
+              <p className="px-4 py-1 text-xs text-slate-500">Assign to</p>
+              {users
+                .filter((u) => u._id !== assignee?.userId)
+                .map((u) => (
+                  <button
+                    key={u._id}
+                    disabled={busy}
+                    onClick={() => change("assign", u._id)}
+                    className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center gap-2"
+                  >
+                    <AssigneeAvatar actor={{ userId: u._id, name: u.name }} />
+                    {u.name}
+                    <span className="ml-auto flex items-center gap-1.5 text-xs text-slate-400">
+                      {u.role}
+                      <AvailabilityDot status={u.availability?.status} />
+                    </span>
+                  </button>
+                ))}
+            </div>
+          )}
+          {history.length > 0 && (
+            <div className="border-t border-slate-200 dark:border-slate-700 mt-1 pt-1 max-h-48 overflow-y-auto">
+              <p className="px-4 py-1 text-xs text-slate-500 flex items-center gap-1">
+                <History className="w-3 h-3" />
+                History
+              </p>
+              {history.map((entry, i) => (
+                <p key={i} className="px-4 py-1 text-xs text-slate-600 dark:text-slate-300">
+                  {describeChange(entry)}
+                  <span className="block text-slate-400">{new Date(entry.at).toLocaleString()}</span>
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
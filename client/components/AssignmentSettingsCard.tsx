@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react";
+import { Plus, Shuffle, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AvailabilityStatus } from "@/hooks/use-auth";
+import AvailabilityDot, { AVAILABILITY_LABELS } from "@/components/AvailabilityDot";
+import { apiFetch } from "@/lib/api";
+
+type Strategy = "round-robin" | "least-loaded";
+
+interface Route {
+  name: string;
+  tags: string[];
+  agents: string[];
+}
+
+interface AssignmentSettings {
+  enabled: boolean;
+  strategy: Strategy;
+  maxConcurrent: number;
+  awayAfterMinutes: number;
+  agentLimits: { userId: string; max: number }[];
+  routes: Route[];
+}
+
+interface Agent {
+  _id: string;
+  name: string;
+  role: string;
+  status: AvailabilityStatus;
+  onShift: boolean;
+  openConversations: number;
+  capacity: number;
+}
+
+const inputClassName =
+  "px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+/**
+ * Who new and reopened conversations go to: strategy, how many open
+ * conversations each agent may hold, and routes sending tagged contacts to a
+ * team. For supervisors; the server applies it as messages come in.
+ */
+export default function AssignmentSettingsCard() {
+  const [settings, setSettings] = useState<AssignmentSettings | null>(null);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    apiFetch("/api/assignment/settings")
+      .then((response) => response.json())
+      .then((data) => setSettings(data))
+      .catch((error) => console.error("Failed to load assignment settings:", error));
+    loadAgents();
+  }, []);
+
+  const loadAgents = () =>
+    apiFetch("/api/assignment/agents")
+      .then((response) => response.json())
+      .then((data) => setAgents(Array.isArray(data) ? data : []))
+      .catch((error) => console.error("Failed to load agents:", error));
+
+  if (!settings) return null;
+
+  const update = (changes: Partial<AssignmentSettings>) => setSettings({ ...settings, ...changes });
+
+  const limitOf = (userId: string) => settings.agentLimits.find((limit) => limit.userId === userId);
+
+  const setLimit = (userId: string, value: string) => {
+    const others = settings.agentLimits.filter((limit) => limit.userId !== userId);
+    update({ agentLimits: value === "" ? others : [...others, { userId, max: Number(value) }] });
+  };
+
+  const updateRoute = (index: number, changes: Partial<Route>) =>
+    update({ routes: settings.routes.map((route, i) => (i === index ? { ...route, ...changes } : route)) });
+
+  const toggleRouteAgent = (index: number, userId: string) => {
+    const route = settings.routes[index];
+    updateRoute(index, {
+      agents: route.agents.includes(userId) ? route.agents.filter((id) => id !== userId) : [...route.agents, userId],
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await apiFetch("/api/assignment/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: "Unable to save assignment settings", description: data.error, variant: "destructive" });
+        return;
+      }
+      setSettings(data);
+      loadAgents();
+      toast({ title: "Assignment settings saved" });
+    } catch (error) {
+      console.error("Error saving assignment settings:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-sky-100 dark:bg-sky-900/30 rounded-lg">
+          <Shuffle className="w-5 h-5 text-sky-600 dark:text-sky-400" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Auto-assignment</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Give new and reopened conversations to agents who are online and on shift
+          </p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !settings.enabled })}
+          className={`relative inline-flex h-8 w-14 items-center rounded-full transition-colors ${
+            settings.enabled ? "bg-emerald-600" : "bg-slate-300"
+          }`}
+          title={settings.enabled ? "Turn off" : "Turn on"}
+        >
+          <span
+            className={`inline-block h-6 w-6 transform rounded-full bg-white transition-transform ${
+              settings.enabled ? "translate-x-7" : "translate-x-1"
+            }`}
+          />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <label className="text-sm text-slate-700 dark:text-slate-300">
+          <span className="block mb-1">Strategy</span>
+          <select
+            value={settings.strategy}
+            onChange={(e) => update({ strategy: e.target.value as Strategy })}
+            className={`${inputClassName} w-full`}
+          >
+            <option value="round-robin">Round-robin (take turns)</option>
+            <option value="least-loaded">Least loaded (fewest open conversations)</option>
+          </select>
+        </label>
+        <label className="text-sm text-slate-700 dark:text-slate-300">
+          <span className="block mb-1">Open conversations per agent (0 for no limit)</span>
+          <input
+            type="number"
+            min={0}
+            value={settings.maxConcurrent}
+            onChange={(e) => update({ maxConcurrent: Number(e.target.value) })}
+            className={`${inputClassName} w-full`}
+          />
+        </label>
+        <label className="text-sm text-slate-700 dark:text-slate-300">
+          <span className="block mb-1">Set idle agents away after minutes (0 for never)</span>
+          <input
+            type="number"
+            min={0}
+            value={settings.awayAfterMinutes}
+            onChange={(e) => update({ awayAfterMinutes: Number(e.target.value) })}
+            className={`${inputClassName} w-full`}
+          />
+        </label>
+      </div>
+
+      {agents.length > 0 && (
+        <div className="mb-6">
+          <h3 className="font-medium text-slate-900 dark:text-white mb-2">Agents</h3>
+          <div className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700">
+            {agents.map((agent) => (
+              <div key={agent._id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                <AvailabilityDot status={agent.status} />
+                <span className="flex-1 text-slate-900 dark:text-white">
+                  {agent.name}
+                  <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                    {AVAILABILITY_LABELS[agent.status]}
+                    {!agent.onShift && " · off shift"}
+                  </span>
+                </span>
+                <span className="text-slate-500 dark:text-slate-400">{agent.openConversations} open</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={limitOf(agent._id)?.max ?? ""}
+                  placeholder={String(settings.maxConcurrent)}
+                  onChange={(e) => setLimit(agent._id, e.target.value)}
+                  className={`${inputClassName} w-24`}
+                  title="Own limit, empty for the default"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-medium text-slate-900 dark:text-white">Routing by tag</h3>
+          <button
+            onClick={() => update({ routes: [...settings.routes, { name: "", tags: [], agents: [] }] })}
+            className="flex items-center gap-1 text-sm text-emerald-600 dark:text-emerald-400 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            Add route
+          </button>
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">
+          Contacts with one of the tags only go to the chosen agents. The first matching route wins; everything else
+          goes to all agents.
+        </p>
+        <div className="space-y-3">
+          {settings.routes.map((route, index) => (
+            <div key={index} className="p-4 bg-slate-50 dark:bg-slate-700/30 rounded-lg space-y-3">
+              <div className="flex gap-3">
+                <input
+                  type="text"
+                  value={route.name}
+                  onChange={(e) => updateRoute(index, { name: e.target.value })}
+                  placeholder="Team, e.g. Billing"
+                  className={`${inputClassName} w-40`}
+                />
+                <input
+                  type="text"
+                  value={route.tags.join(", ")}
+                  onChange={(e) => updateRoute(index, { tags: e.target.value.split(",").map((tag) => tag.trim()) })}
+                  placeholder="Tags, comma separated"
+                  className={`${inputClassName} flex-1`}
+                />
+                <button
+                  onClick={() => update({ routes: settings.routes.filter((_, i) => i !== index) })}
+                  className="p-2 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-500"
+                  title="Remove route"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {agents.map((agent) => (
+                  <label key={agent._id} className="flex items-center gap-1 text-sm text-slate-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={route.agents.includes(agent._id)}
+                      onChange={() => toggleRouteAgent(index, agent._id)}
+                    />
+                    {agent.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors"
+      >
+        Save
+      </button>
+    </div>
+  );
+}
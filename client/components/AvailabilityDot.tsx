@@ -0,0 +1,18 @@
+import { AvailabilityStatus } from "@/hooks/use-auth";
+
+export const AVAILABILITY_LABELS: Record<AvailabilityStatus, string> = {
+  online: "Online",
+  away: "Away",
+  offline: "Offline",
+};
+
+const COLORS: Record<AvailabilityStatus, string> = {
+  online: "bg-emerald-500",
+  away: "bg-amber-500",
+  offline: "bg-slate-300 dark:bg-slate-600",
+};
+
+/** Colored dot for an agent's status */
+export default function AvailabilityDot({ status = "offline" }: { status?: AvailabilityStatus }) {
+  return <span className={`inline-block w-2 h-2 rounded-full shrink-0 ${COLORS[status]}`} title={AVAILABILITY_LABELS[status]} />;
+}
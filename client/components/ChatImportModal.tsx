@@ -0,0 +1,280 @@
+import { useState, ChangeEvent } from "react";
+import { Upload, AlertTriangle, CheckCircle, Paperclip } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+
+type DateOrder = "auto" | "DMY" | "MDY" | "YMD";
+
+interface PreviewMessage {
+  timestamp: string;
+  sender: string;
+  text: string;
+  attachment: string | null;
+  mediaOmitted: boolean;
+  direction: "inbound" | "outbound";
+  duplicate: boolean;
+}
+
+interface ImportPreview {
+  filename: string | null;
+  dateOrder: Exclude<DateOrder, "auto">;
+  ambiguous: boolean;
+  senders: { name: string; count: number }[];
+  me: string | null;
+  total: number;
+  duplicates: number;
+  attachments: number;
+  attachmentsIncluded: number;
+  first: string;
+  last: string;
+  sample: PreviewMessage[];
+}
+
+interface ImportResult {
+  imported: number;
+  duplicates: number;
+  attachments: number;
+  missingAttachments: number;
+}
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  auto: "Detect automatically",
+  DMY: "Day / month / year",
+  MDY: "Month / day / year",
+  YMD: "Year / month / day",
+};
+
+// Base64 contents of a file, without the data: URL prefix
+const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+interface ChatImportModalProps {
+  contact: { _id: string; name: string };
+  onClose: () => void;
+  onImported?: (result: ImportResult) => void;
+}
+
+/** Import a WhatsApp "Export chat" file (.txt or .zip) into a contact's history, with a preview first */
+export default function ChatImportModal({ contact, onClose, onImported }: ChatImportModalProps) {
+  const [file, setFile] = useState<{ filename: string; data: string } | null>(null);
+  const [dateOrder, setDateOrder] = useState<DateOrder>("auto");
+  // Sender that is us; "" when every message was received
+  const [me, setMe] = useState<string | undefined>(undefined);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (path: string, upload: { filename: string; data: string }, options: { dateOrder: DateOrder; me?: string }) => {
+    const response = await apiFetch(`/api/contacts/${contact._id}/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...upload,
+        ...options,
+        timezoneOffset: new Date().getTimezoneOffset(),
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || (response.status === 413 ? "The file is too large to import" : "Import failed"));
+    }
+    return data;
+  };
+
+  const loadPreview = async (upload: { filename: string; data: string }, options: { dateOrder: DateOrder; me?: string }) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data: ImportPreview = await request("import-chat/preview", upload, options);
+      setPreview(data);
+      setMe(data.me ?? "");
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : "Could not read the chat export");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    try {
+      const upload = { filename: selected.name, data: await readFileAsBase64(selected) };
+      setFile(upload);
+      setResult(null);
+      setMe(undefined);
+      loadPreview(upload, { dateOrder });
+    } catch (err) {
+      console.error("Error reading chat export:", err);
+      setError("Could not read the file");
+    }
+  };
+
+  const handleDateOrderChange = (value: DateOrder) => {
+    setDateOrder(value);
+    if (file) loadPreview(file, { dateOrder: value, me });
+  };
+
+  const handleMeChange = (value: string) => {
+    setMe(value);
+    if (file) loadPreview(file, { dateOrder, me: value });
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const data: ImportResult = await request("import-chat", file, { dateOrder, me });
+      setResult(data);
+      onImported?.(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const newMessages = preview ? preview.total - preview.duplicates : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-2xl w-full mx-4 p-6 border border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-1">Import chat</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">
+          Add the history of a WhatsApp "Export chat" file to {contact.name}. Choose the .zip to include attachments.
+        </p>
+
+        {result ? (
+          <div className="flex items-start gap-3 p-4 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg mb-6">
+            <CheckCircle className="w-5 h-5 text-emerald-600 dark:text-emerald-400 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-emerald-800 dark:text-emerald-200">
+              <p className="font-medium">Imported {result.imported} messages</p>
+              {result.duplicates > 0 && <p>{result.duplicates} were already in the history and skipped.</p>}
+              {result.attachments > 0 && <p>{result.attachments} attachments stored.</p>}
+              {result.missingAttachments > 0 && (
+                <p>{result.missingAttachments} attachments were not in the file and show as unavailable.</p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <label className="flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-lg cursor-pointer hover:border-emerald-500 transition-colors">
+              <Upload className="w-5 h-5 text-slate-500 dark:text-slate-400" />
+              <span className="text-sm text-slate-700 dark:text-slate-300">{file ? file.filename : "Choose a .txt or .zip file"}</span>
+              <input type="file" accept=".txt,.zip" onChange={handleFileChange} className="hidden" />
+            </label>
+
+            {preview && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Date format</label>
+                    <select
+                      value={dateOrder}
+                      onChange={(e) => handleDateOrderChange(e.target.value as DateOrder)}
+                      className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    >
+                      {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map((order) => (
+                        <option key={order} value={order}>
+                          {order === "auto" ? `${DATE_ORDER_LABELS.auto} (${DATE_ORDER_LABELS[preview.dateOrder]})` : DATE_ORDER_LABELS[order]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Which sender is you?</label>
+                    <select
+                      value={me ?? ""}
+                      onChange={(e) => handleMeChange(e.target.value)}
+                      className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    >
+                      <option value="">None (all received)</option>
+                      {preview.senders.map((sender) => (
+                        <option key={sender.name} value={sender.name}>
+                          {sender.name} ({sender.count})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {preview.ambiguous && dateOrder === "auto" && (
+                  <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                    The date format could not be detected from this file. Check the dates below and pick the format if they are wrong.
+                  </div>
+                )}
+
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {preview.total} messages from {new Date(preview.first).toLocaleDateString()} to{" "}
+                  {new Date(preview.last).toLocaleDateString()}
+                  {preview.duplicates > 0 && ` · ${preview.duplicates} already imported`}
+                  {preview.attachments > 0 && ` · ${preview.attachmentsIncluded} of ${preview.attachments} attachments included`}
+                </p>
+
+                <ul className="space-y-2 max-h-64 overflow-y-auto p-3 bg-slate-50 dark:bg-slate-900/40 rounded-lg">
+                  {preview.sample.map((msg, index) => (
+                    <li key={index} className={`flex ${msg.direction === "outbound" ? "justify-end" : "justify-start"}`}>
+                      <div
+                        className={`max-w-sm px-3 py-2 rounded-lg text-sm ${
+                          msg.direction === "outbound"
+                            ? "bg-emerald-600 text-white"
+                            : "bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                        } ${msg.duplicate ? "opacity-50" : ""}`}
+                      >
+                        <p className="text-xs font-medium opacity-75">{msg.sender}</p>
+                        {msg.attachment && (
+                          <p className="flex items-center gap-1 italic">
+                            <Paperclip className="w-3 h-3" />
+                            {msg.attachment}
+                          </p>
+                        )}
+                        {msg.mediaOmitted && <p className="italic">Media not included in export</p>}
+                        {msg.text && <p className="whitespace-pre-wrap break-words">{msg.text}</p>}
+                        <p className="text-xs opacity-75 mt-1">{new Date(msg.timestamp).toLocaleString()}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                {preview.total > preview.sample.length && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Showing the first {preview.sample.length} of {preview.total} messages.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            {result ? "Close" : "Cancel"}
+          </button>
+          {!result && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={!preview || loading || newMessages === 0}
+              className="flex-1 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+            >
+              {loading ? "Working..." : preview ? `Import ${newMessages} messages` : "Import"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
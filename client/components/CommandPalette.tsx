@@ -0,0 +1,368 @@
+import { type KeyboardEvent, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Command as CommandPrimitive } from "cmdk";
+import { CheckCircle2, FileText, MessageCircle, MessageSquare, StickyNote, User, UserPlus, Users } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from "@/components/ui/command";
+import { HighlightedSnippet } from "@/components/MessageSearch";
+import { Disposition, DISPOSITION_LABELS } from "@/components/TicketControl";
+import { useAuth } from "@/hooks/use-auth";
+import { useCommandPalette } from "@/hooks/use-command-palette";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api";
+
+interface PaletteContact {
+  _id: string;
+  name: string;
+  phone: string;
+  chatType?: "individual" | "group";
+  queryStatus?: string;
+}
+
+interface SnippetResult {
+  _id: string;
+  contact?: PaletteContact | null;
+  snippet: string;
+  highlights: [number, number][];
+}
+
+interface PaletteTemplate {
+  _id: string;
+  name: string;
+  category?: string;
+  message: string;
+}
+
+interface SearchResults {
+  contacts: PaletteContact[];
+  messages: SnippetResult[];
+  notes: SnippetResult[];
+  templates: PaletteTemplate[];
+}
+
+// Steps of an action that first asks for a contact, a reason or a template
+type Page = "root" | "go-to" | "resolve" | "reason" | "template";
+
+const EMPTY_RESULTS: SearchResults = { contacts: [], messages: [], notes: [], templates: [] };
+
+const PLACEHOLDERS: Record<Page, string> = {
+  root: "Search or type a command...",
+  "go-to": "Go to conversation with...",
+  resolve: "Mark resolved: which contact?",
+  reason: "Why is it resolved?",
+  template: "Insert template...",
+};
+
+const itemClassName =
+  "gap-3 text-slate-700 dark:text-slate-200 data-[selected=true]:bg-slate-100 dark:data-[selected=true]:bg-slate-700 data-[selected=true]:text-slate-900 dark:data-[selected=true]:text-white";
+const groupClassName = "text-slate-900 dark:text-white [&_[cmdk-group-heading]]:text-slate-500 dark:[&_[cmdk-group-heading]]:text-slate-400";
+const iconClassName = "w-4 h-4 shrink-0 text-slate-400";
+
+/**
+ * App-wide Ctrl+K (Cmd+K) palette: searches contacts, message text, notes and
+ * templates through /api/search, and runs quick actions. Actions on "this
+ * conversation" come from the page that shows one, see usePaletteConversation.
+ */
+export default function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const [page, setPage] = useState<Page>("root");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResults>(EMPTY_RESULTS);
+  const [contacts, setContacts] = useState<PaletteContact[]>([]);
+  const [templates, setTemplates] = useState<PaletteTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Contact being resolved, on the reason page
+  const [resolving, setResolving] = useState<{ _id: string; name: string } | null>(null);
+  const requestRef = useRef(0);
+  const navigate = useNavigate();
+  const { conversation } = useCommandPalette();
+  const { user, hasRole } = useAuth();
+  const { toast } = useToast();
+  const canWrite = hasRole("agent");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.ctrlKey || e.metaKey)) {
+        if (!user) return;
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) setOpen(false);
+  }, [user]);
+
+  // Start over each time the palette opens
+  useEffect(() => {
+    if (!open) return;
+    setPage("root");
+    setQuery("");
+    setResults(EMPTY_RESULTS);
+  }, [open]);
+
+  // Server search as the user types, on the pages that need it
+  useEffect(() => {
+    const request = ++requestRef.current;
+    const text = query.trim();
+    if (!open || page === "template" || page === "reason" || (page === "root" && !text)) {
+      setLoading(false);
+      return;
+    }
+    const url = page === "root"
+      ? `/api/search?${new URLSearchParams({ q: text })}`
+      : `/api/contacts?${new URLSearchParams({ limit: "8", ...(text && { q: text }) })}`;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiFetch(url);
+        const data = await response.json();
+        if (request !== requestRef.current) return;
+        if (page === "root") {
+          setResults(response.ok ? { ...EMPTY_RESULTS, ...data } : EMPTY_RESULTS);
+        } else {
+          setContacts(Array.isArray(data.contacts) ? data.contacts : []);
+        }
+      } catch (error) {
+        console.error("Palette search failed:", error);
+      } finally {
+        if (request === requestRef.current) setLoading(false);
+      }
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [open, page, query]);
+
+  useEffect(() => {
+    if (page !== "template") return;
+    apiFetch("/api/templates")
+      .then((response) => response.json())
+      .then((data) => setTemplates(Array.isArray(data) ? data : []))
+      .catch((error) => console.error("Failed to load templates:", error));
+  }, [page]);
+
+  const goToPage = (next: Page) => {
+    setPage(next);
+    setQuery("");
+  };
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const openConversation = (contactId: string, messageId?: string) =>
+    run(() => navigate(`/conversations?${new URLSearchParams({ contact: contactId, ...(messageId && { message: messageId }) })}`));
+
+  // Resolving needs a reason, asked on the next page
+  const markResolved = (contact: { _id: string; name: string }) => {
+    setResolving(contact);
+    goToPage("reason");
+  };
+
+  const resolveWith = (contact: { _id: string; name: string }, disposition: Disposition) =>
+    run(async () => {
+      try {
+        const response = await apiFetch(`/api/contacts/${contact._id}/status`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: "resolved", disposition }),
+        });
+        if (!response.ok) throw new Error((await response.json()).error || "Request failed");
+        toast({ title: "Resolved", description: `${contact.name} marked as resolved` });
+      } catch (error) {
+        const description = error instanceof Error ? error.message : "Could not resolve the conversation";
+        toast({ title: "Error", description, variant: "destructive" });
+      }
+    });
+
+  const applyTemplate = (template: PaletteTemplate) => {
+    if (conversation && canWrite) {
+      run(() => conversation.insertText(template.message));
+    } else {
+      run(() => navigate("/templates"));
+    }
+  };
+
+  const text = query.trim().toLowerCase();
+  // Read-only users only get to look around
+  const actions = [
+    { id: "go-to", label: "Go to conversation with...", icon: MessageSquare, onSelect: () => goToPage("go-to") },
+    ...(canWrite
+      ? [
+        { id: "new-contact", label: "New contact", icon: UserPlus, onSelect: () => run(() => navigate("/contacts?new=1")) },
+        ...(conversation
+          ? [{ id: "template", label: "Insert template...", icon: FileText, onSelect: () => goToPage("template") }]
+          : []),
+        conversation && !["resolved", "closed"].includes(conversation.contact.queryStatus || "")
+          ? { id: "resolve", label: `Mark ${conversation.contact.name} resolved`, icon: CheckCircle2, onSelect: () => markResolved(conversation.contact) }
+          : { id: "resolve", label: "Mark resolved...", icon: CheckCircle2, onSelect: () => goToPage("resolve") },
+      ]
+      : []),
+  ].filter((action) => !text || action.label.toLowerCase().includes(text));
+
+  const matchingTemplates = templates.filter((t) =>
+    !text || `${t.name} ${t.category || ""} ${t.message}`.toLowerCase().includes(text)
+  );
+
+  const matchingReasons = (Object.keys(DISPOSITION_LABELS) as Disposition[]).filter(
+    (reason) => !text || DISPOSITION_LABELS[reason].toLowerCase().includes(text)
+  );
+
+  const contactLabel = (contact?: PaletteContact | null) => contact?.name || "Unknown contact";
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 max-w-xl">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <CommandPrimitive
+          shouldFilter={false}
+          className="flex h-full w-full flex-col overflow-hidden rounded-md text-slate-900 dark:text-white [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2.5"
+          onKeyDown={(e: KeyboardEvent<HTMLDivElement>) => {
+            // Backspace in an empty box goes back to the main list
+            if (e.key === "Backspace" && !query && page !== "root") {
+              e.preventDefault();
+              goToPage("root");
+            }
+          }}
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder={PLACEHOLDERS[page]}
+            className="text-slate-900 dark:text-white placeholder:text-slate-400"
+          />
+          <CommandList className="max-h-[420px]">
+            {!loading && <CommandEmpty className="py-6 text-center text-sm text-slate-500">No results</CommandEmpty>}
+
+            {page === "root" && (
+              <>
+                {actions.length > 0 && (
+                  <CommandGroup heading="Actions" className={groupClassName}>
+                    {actions.map((action) => (
+                      <CommandItem key={action.id} value={`action-${action.id}`} onSelect={action.onSelect} className={itemClassName}>
+                        <action.icon className={iconClassName} />
+                        {action.label}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+                {results.contacts.length > 0 && (
+                  <>
+                    <CommandSeparator className="bg-slate-200 dark:bg-slate-700" />
+                    <CommandGroup heading="Contacts" className={groupClassName}>
+                      {results.contacts.map((contact) => (
+                        <CommandItem key={contact._id} value={`contact-${contact._id}`} onSelect={() => openConversation(contact._id)} className={itemClassName}>
+                          {contact.chatType === "group" ? <Users className={iconClassName} /> : <User className={iconClassName} />}
+                          <span className="truncate">{contact.name}</span>
+                          <span className="ml-auto text-xs text-slate-400">{contact.chatType === "group" ? "Group" : `+${contact.phone}`}</span>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </>
+                )}
+                {results.messages.length > 0 && (
+                  <CommandGroup heading="Messages" className={groupClassName}>
+                    {results.messages.map((message) => (
+                      <CommandItem
+                        key={message._id}
+                        value={`message-${message._id}`}
+                        disabled={!message.contact}
+                        onSelect={() => message.contact && openConversation(message.contact._id, message._id)}
+                        className={itemClassName}
+                      >
+                        <MessageCircle className={iconClassName} />
+                        <div className="min-w-0">
+                          <p className="text-xs text-slate-500 dark:text-slate-400">{contactLabel(message.contact)}</p>
+                          <p className="truncate"><HighlightedSnippet text={message.snippet} highlights={message.highlights || []} /></p>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+                {results.notes.length > 0 && (
+                  <CommandGroup heading="Notes" className={groupClassName}>
+                    {results.notes.map((note) => (
+                      <CommandItem
+                        key={note._id}
+                        value={`note-${note._id}`}
+                        disabled={!note.contact}
+                        onSelect={() => note.contact && openConversation(note.contact._id)}
+                        className={itemClassName}
+                      >
+                        <StickyNote className={iconClassName} />
+                        <div className="min-w-0">
+                          <p className="text-xs text-slate-500 dark:text-slate-400">{contactLabel(note.contact)}</p>
+                          <p className="truncate"><HighlightedSnippet text={note.snippet} highlights={note.highlights || []} /></p>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+                {results.templates.length > 0 && (
+                  <CommandGroup heading={conversation && canWrite ? "Templates (insert)" : "Templates"} className={groupClassName}>
+                    {results.templates.map((template) => (
+                      <CommandItem key={template._id} value={`template-${template._id}`} onSelect={() => applyTemplate(template)} className={itemClassName}>
+                        <FileText className={iconClassName} />
+                        <span className="truncate">{template.name}</span>
+                        <span className="ml-auto text-xs text-slate-400 truncate max-w-[50%]">{template.message}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+              </>
+            )}
+
+            {(page === "go-to" || page === "resolve") && (
+              <CommandGroup heading={page === "go-to" ? "Go to conversation with" : "Mark resolved"} className={groupClassName}>
+                {contacts.map((contact) => (
+                  <CommandItem
+                    key={contact._id}
+                    value={`contact-${contact._id}`}
+                    onSelect={() => (page === "go-to" ? openConversation(contact._id) : markResolved(contact))}
+                    className={itemClassName}
+                  >
+                    {contact.chatType === "group" ? <Users className={iconClassName} /> : <User className={iconClassName} />}
+                    <span className="truncate">{contact.name}</span>
+                    <span className="ml-auto text-xs text-slate-400">{contact.queryStatus}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {page === "reason" && resolving && (
+              <CommandGroup heading={`Resolve ${resolving.name}`} className={groupClassName}>
+                {matchingReasons.map((reason) => (
+                  <CommandItem key={reason} value={`reason-${reason}`} onSelect={() => resolveWith(resolving, reason)} className={itemClassName}>
+                    <CheckCircle2 className={iconClassName} />
+                    {DISPOSITION_LABELS[reason]}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {page === "template" && (
+              <CommandGroup heading={conversation ? `Insert into the reply to ${conversation.contact.name}` : "Templates"} className={groupClassName}>
+                {matchingTemplates.map((template) => (
+                  <CommandItem key={template._id} value={`template-${template._id}`} onSelect={() => applyTemplate(template)} className={itemClassName}>
+                    <FileText className={iconClassName} />
+                    <div className="min-w-0">
+                      <p>{template.name}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{template.message}</p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+          <div className="border-t border-slate-200 dark:border-slate-700 px-3 py-2 text-xs text-slate-400 flex justify-between">
+            <span>↑↓ to move · Enter to select{page !== "root" && " · Backspace to go back"}</span>
+            <span>Ctrl K</span>
+          </div>
+        </CommandPrimitive>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Activity, RefreshCw } from "lucide-react";
+import { useRealtime } from "@/hooks/use-realtime";
+import { DEFAULT_SESSION, WhatsAppSession } from "@/hooks/use-whatsapp-sessions";
+import { apiFetch } from "@/lib/api";
+
+interface ConnectionEvent {
+  _id?: string;
+  sessionId: string;
+  type: "qr" | "authenticated" | "ready" | "auth_failure" | "disconnected" | "error" | "retry";
+  reason: string | null;
+  retryCount: number;
+  createdAt: string;
+}
+
+const EVENT_LABELS: Record<ConnectionEvent["type"], string> = {
+  qr: "QR code issued",
+  authenticated: "Authenticated",
+  ready: "Connected",
+  auth_failure: "Authentication failed",
+  disconnected: "Disconnected",
+  error: "Error",
+  retry: "Retrying",
+};
+
+const EVENT_COLORS: Record<ConnectionEvent["type"], string> = {
+  qr: "bg-amber-500",
+  authenticated: "bg-blue-500",
+  ready: "bg-emerald-500",
+  auth_failure: "bg-red-500",
+  disconnected: "bg-slate-400",
+  error: "bg-red-500",
+  retry: "bg-amber-500",
+};
+
+function formatUptime(since: string, now: number) {
+  const minutes = Math.max(0, Math.floor((now - new Date(since).getTime()) / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+interface ConnectionDiagnosticsProps {
+  sessions: WhatsAppSession[];
+}
+
+/** Connection timeline, retry count, paired account and uptime of a WhatsApp number */
+export default function ConnectionDiagnostics({ sessions }: ConnectionDiagnosticsProps) {
+  const [sessionId, setSessionId] = useState(DEFAULT_SESSION);
+  const [events, setEvents] = useState<ConnectionEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const session = sessions.find((s) => s.sessionId === sessionId);
+
+  useEffect(() => {
+    loadEvents();
+  }, [sessionId]);
+
+  // Keep the uptime current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useRealtime({
+    "connection-event": (data: ConnectionEvent) => {
+      if (data.sessionId !== sessionId) return;
+      setEvents((prev) => [data, ...prev].slice(0, 50));
+    },
+    open: () => loadEvents(),
+  });
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch(`/api/whatsapp/sessions/${encodeURIComponent(sessionId)}/events?limit=50`);
+      const data = await response.json();
+      setEvents(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Error loading connection events:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+          <Activity className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Connection Diagnostics</h2>
+        <div className="ml-auto flex items-center gap-2">
+          {sessions.length > 1 && (
+            <select
+              value={sessionId}
+              onChange={(e) => setSessionId(e.target.value)}
+              className="px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              title="WhatsApp number"
+            >
+              {sessions.map((s) => (
+                <option key={s.sessionId} value={s.sessionId}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={loadEvents}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 text-slate-600 dark:text-slate-400 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+      </div>
+
+      {/* Current state */}
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        <div className="p-3 bg-slate-50 dark:bg-slate-700/30 rounded-lg">
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Account</p>
+          <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+            {session?.account ? session.account.name || "Unknown name" : "Not paired"}
+          </p>
+          {session?.account?.phone && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">+{session.account.phone}</p>
+          )}
+        </div>
+        <div className="p-3 bg-slate-50 dark:bg-slate-700/30 rounded-lg">
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Uptime</p>
+          <p className="text-sm font-medium text-slate-900 dark:text-white">
+            {session?.connected && session.connectedAt ? formatUptime(session.connectedAt, now) : "—"}
+          </p>
+        </div>
+        <div className="p-3 bg-slate-50 dark:bg-slate-700/30 rounded-lg">
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">Retries</p>
+          <p className="text-sm font-medium text-slate-900 dark:text-white">{session?.retryCount ?? 0}</p>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <h3 className="font-semibold text-slate-900 dark:text-white mb-3">Recent events</h3>
+      {events.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No connection events recorded yet.</p>
+      ) : (
+        <ul className="space-y-3 max-h-80 overflow-y-auto">
+          {events.map((event, index) => (
+            <li key={event._id || `${event.createdAt}-${index}`} className="flex gap-3">
+              <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${EVENT_COLORS[event.type] || "bg-slate-400"}`} />
+              <div className="min-w-0">
+                <p className="text-sm text-slate-900 dark:text-white">
+                  <span className="font-medium">{EVENT_LABELS[event.type] || event.type}</span>
+                  {event.reason && <span className="text-slate-600 dark:text-slate-400"> — {event.reason}</span>}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {new Date(event.createdAt).toLocaleString()}
+                  {event.retryCount > 0 && ` · attempt ${event.retryCount}`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
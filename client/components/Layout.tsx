@@ -1,6 +1,12 @@
-import { ReactNode, useState, useEffect } from "react";
-import { Link, useLocation } from "react-router-dom";
-import { MessageSquare, Settings, Users, BarChart3, Home, Menu, X, FileText } from "lucide-react";
+import { ReactNode, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { MessageSquare, Settings, Users, BarChart3, Home, Menu, X, FileText, UserCog, LogOut } from "lucide-react";
+import { AvailabilityStatus, useAuth } from "@/hooks/use-auth";
+import AvailabilityDot, { AVAILABILITY_LABELS } from "@/components/AvailabilityDot";
+import { ToastAction } from "@/components/ui/toast";
+import { useWhatsAppSessions } from "@/hooks/use-whatsapp-sessions";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
 
 interface LayoutProps {
   children: ReactNode;
@@ -8,23 +14,46 @@ interface LayoutProps {
 
 export default function Layout({ children }: LayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [connectionStatus, setConnectionStatus] = useState<"connected" | "connecting" | "disconnected">("connecting");
+  const { sessions, loading } = useWhatsAppSessions();
   const location = useLocation();
+  const { user, logout, hasRole, setAvailability, updateUser } = useAuth();
+  const availability = user?.availability?.status || "offline";
+  const { toast } = useToast();
+  const navigate = useNavigate();
 
-  useEffect(() => {
-    checkWhatsAppStatus();
-    const interval = setInterval(checkWhatsAppStatus, 30000);
-    return () => clearInterval(interval);
-  }, []);
+  // Tell agents when a conversation is given to them by someone else or automatically
+  useRealtime({
+    // e.g. set away for being idle, or changed in another tab
+    "availability-changed": ({ userId, status, changedAt, idle }) => {
+      if (userId === user?._id) updateUser({ availability: { status, changedAt, idle } });
+    },
+    "conversation-assigned": ({ contact, to, by }) => {
+      if (!user || to?.userId !== user._id || by?.userId === user._id) return;
+      toast({
+        title: "Conversation assigned to you",
+        description: `${contact.name}${by ? ` · by ${by.name}` : ""}`,
+        action: (
+          <ToastAction altText="Open" onClick={() => navigate(`/conversations?contact=${contact._id}`)}>
+            Open
+          </ToastAction>
+        ),
+      });
+    },
+  });
 
-  const checkWhatsAppStatus = async () => {
+  const connectedCount = sessions.filter((s) => s.connected).length;
+  const connectionStatus: "connected" | "connecting" | "disconnected" = loading
+    ? "connecting"
+    : connectedCount > 0
+    ? "connected"
+    : "disconnected";
+
+  const handleAvailabilityChange = async (status: AvailabilityStatus) => {
     try {
-      const response = await fetch("/api/whatsapp/status");
-      const data = await response.json();
-      setConnectionStatus(data.connected ? "connected" : "disconnected");
+      await setAvailability(status);
     } catch (error) {
-      console.error("Error checking WhatsApp status:", error);
-      setConnectionStatus("disconnected");
+      const description = error instanceof Error ? error.message : "Please try again";
+      toast({ title: "Unable to change your status", description, variant: "destructive" });
     }
   };
 
@@ -37,6 +66,7 @@ export default function Layout({ children }: LayoutProps) {
     { icon: FileText, label: "Templates", path: "/templates" },
     { icon: BarChart3, label: "Analytics", path: "/analytics" },
     { icon: Settings, label: "Settings", path: "/settings" },
+    ...(hasRole("admin") ? [{ icon: UserCog, label: "Users", path: "/users" }] : []),
   ];
 
   return (
@@ -106,7 +136,9 @@ export default function Layout({ children }: LayoutProps) {
                   : "text-red-700 dark:text-red-300"
               }`}>
                 {connectionStatus === "connected"
-                  ? "Connected"
+                  ? sessions.length > 1
+                    ? `${connectedCount}/${sessions.length} numbers connected`
+                    : "Connected"
                   : connectionStatus === "connecting"
                   ? "Connecting..."
                   : "Disconnected"}
@@ -115,6 +147,45 @@ export default function Layout({ children }: LayoutProps) {
           </div>
         </div>
 
+        {/* Signed-in user */}
+        {user && (
+          <div className="px-3 py-4 border-t border-slate-200 dark:border-slate-700">
+            <div className="flex items-center gap-3 px-4">
+              {sidebarOpen && (
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{user.name}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 capitalize">{user.role}</p>
+                  {hasRole("agent") && (
+                    <label className="flex items-center gap-2 mt-1">
+                      <AvailabilityDot status={availability} />
+                      <select
+                        value={availability}
+                        onChange={(e) => handleAvailabilityChange(e.target.value as AvailabilityStatus)}
+                        className="bg-transparent text-xs text-slate-600 dark:text-slate-300 focus:outline-none cursor-pointer"
+                      >
+                        {(Object.keys(AVAILABILITY_LABELS) as AvailabilityStatus[]).map((status) => (
+                          <option key={status} value={status}>
+                            {AVAILABILITY_LABELS[status]}
+                            {status === availability && user.availability?.idle ? " (idle)" : ""}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+              )}
+              {!sidebarOpen && hasRole("agent") && <AvailabilityDot status={availability} />}
+              <button
+                onClick={logout}
+                className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors mx-auto"
+                title="Sign out"
+              >
+                <LogOut className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Toggle Button */}
         <div className="px-3 py-4 border-t border-slate-200 dark:border-slate-700">
           <button
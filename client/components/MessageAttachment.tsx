@@ -0,0 +1,90 @@
+import { Download, FileText, ImageOff } from "lucide-react";
+
+export interface MessageMedia {
+  mimeType?: string;
+  size?: number;
+  filename?: string;
+  key?: string;
+}
+
+interface MessageAttachmentProps {
+  messageId: string;
+  type: string;
+  media?: MessageMedia;
+  outbound?: boolean;
+}
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export default function MessageAttachment({ messageId, type, media, outbound }: MessageAttachmentProps) {
+  const mutedText = outbound ? "text-emerald-100" : "text-slate-500 dark:text-slate-400";
+
+  if (!media || !media.key) {
+    return (
+      <div className={`flex items-center gap-2 text-sm italic ${mutedText}`}>
+        <ImageOff className="w-4 h-4" />
+        Attachment unavailable
+      </div>
+    );
+  }
+
+  const url = `/api/messages/${messageId}/media`;
+  const downloadUrl = `${url}?download=1`;
+  const label = media.filename || `${type.charAt(0).toUpperCase()}${type.slice(1)}`;
+
+  if (type === "image" || type === "sticker") {
+    return (
+      <div className="space-y-1">
+        <a href={url} target="_blank" rel="noreferrer">
+          <img
+            src={url}
+            alt={label}
+            loading="lazy"
+            className={`rounded-md object-cover ${type === "sticker" ? "w-32 h-32" : "max-h-60 w-full"}`}
+          />
+        </a>
+        <a href={downloadUrl} className={`flex items-center gap-1 text-xs hover:underline ${mutedText}`}>
+          <Download className="w-3 h-3" />
+          Download {formatFileSize(media.size)}
+        </a>
+      </div>
+    );
+  }
+
+  if (type === "video") {
+    return (
+      <div className="space-y-1">
+        <video src={url} controls preload="metadata" className="rounded-md max-h-60 w-full" />
+        <a href={downloadUrl} className={`flex items-center gap-1 text-xs hover:underline ${mutedText}`}>
+          <Download className="w-3 h-3" />
+          Download {formatFileSize(media.size)}
+        </a>
+      </div>
+    );
+  }
+
+  if (type === "audio") {
+    return <audio src={url} controls preload="metadata" className="max-w-full" />;
+  }
+
+  return (
+    <a
+      href={downloadUrl}
+      className={`flex items-center gap-3 p-3 rounded-md ${
+        outbound ? "bg-emerald-600/60 hover:bg-emerald-600" : "bg-white/70 dark:bg-slate-800/70 hover:bg-white dark:hover:bg-slate-800"
+      } transition-colors`}
+    >
+      <FileText className="w-8 h-8 flex-shrink-0" />
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{label}</p>
+        <p className={`text-xs ${mutedText}`}>{formatFileSize(media.size)}</p>
+      </div>
+      <Download className="w-4 h-4 flex-shrink-0" />
+    </a>
+  );
+}
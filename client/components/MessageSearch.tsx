@@ -0,0 +1,202 @@
+import { type ReactNode, useEffect, useRef, useState } from "react";
+import { Search, Users } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+
+export interface MessageSearchResult {
+  _id: string;
+  contact?: { _id: string; name: string; phone: string; chatType?: "individual" | "group" } | null;
+  direction: "inbound" | "outbound";
+  type?: string;
+  timestamp: string;
+  sentiment?: "positive" | "neutral" | "negative";
+  snippet: string;
+  /** [start, end) offsets of the matched words in the snippet */
+  highlights: [number, number][];
+}
+
+interface MessageSearchProps {
+  query: string;
+  /** The open conversation, for "this conversation only" */
+  contactId?: string;
+  onOpen: (result: MessageSearchResult) => void;
+}
+
+const PAGE_SIZE = 30;
+
+const selectClassName =
+  "px-2 py-1 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded text-xs text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+// The snippet with its matched words wrapped in <mark>
+export function HighlightedSnippet({ text, highlights }: { text: string; highlights: [number, number][] }) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={i} className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
+
+/**
+ * Full-text search over message bodies, with the filters of /api/messages/search.
+ * The query comes from the sidebar's search box; picking a result calls onOpen.
+ */
+export default function MessageSearch({ query, contactId, onOpen }: MessageSearchProps) {
+  const [direction, setDirection] = useState("");
+  const [sentiment, setSentiment] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [thisConversation, setThisConversation] = useState(false);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState("");
+  const requestRef = useRef(0);
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  const scopedContact = thisConversation ? contactId : undefined;
+
+  const searchUrl = (cursor?: string) => {
+    const params = new URLSearchParams({ q: query, limit: String(PAGE_SIZE) });
+    if (direction) params.set("direction", direction);
+    if (sentiment) params.set("sentiment", sentiment);
+    // Whole days in the agent's timezone
+    if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+    if (scopedContact) params.set("contactId", scopedContact);
+    if (cursor) params.set("cursor", cursor);
+    return `/api/messages/search?${params}`;
+  };
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    setNextCursor(null);
+    setError("");
+    if (!query) {
+      setResults([]);
+      return;
+    }
+    setLoading(true);
+    apiFetch(searchUrl())
+      .then(async (response) => {
+        const data = await response.json();
+        if (request !== requestRef.current) return;
+        if (!response.ok) throw new Error(data.error || "Search failed");
+        setResults(Array.isArray(data.results) ? data.results : []);
+        setNextCursor(data.nextCursor || null);
+      })
+      .catch((err) => {
+        if (request !== requestRef.current) return;
+        setResults([]);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoading(false);
+      });
+  }, [query, direction, sentiment, from, to, scopedContact]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = requestRef.current;
+    try {
+      setLoadingMore(true);
+      const response = await apiFetch(searchUrl(nextCursor));
+      const data = await response.json();
+      if (request !== requestRef.current) return;
+      setResults((prev) => [...prev, ...(Array.isArray(data.results) ? data.results : [])]);
+      setNextCursor(data.nextCursor || null);
+    } catch (err) {
+      console.error("Error loading more search results:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    const end = listEndRef.current;
+    if (!end || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: "200px" });
+    observer.observe(end);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 flex flex-wrap gap-2">
+        <select value={direction} onChange={(e) => setDirection(e.target.value)} className={selectClassName}>
+          <option value="">Any direction</option>
+          <option value="inbound">Received</option>
+          <option value="outbound">Sent</option>
+        </select>
+        <select value={sentiment} onChange={(e) => setSentiment(e.target.value)} className={selectClassName}>
+          <option value="">Any sentiment</option>
+          <option value="positive">Positive</option>
+          <option value="neutral">Neutral</option>
+          <option value="negative">Negative</option>
+        </select>
+        <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={selectClassName} title="From" />
+        <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={selectClassName} title="To" />
+        {contactId && (
+          <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={thisConversation} onChange={(e) => setThisConversation(e.target.checked)} />
+            This conversation only
+          </label>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!query ? (
+          <div className="p-6 text-center">
+            <Search className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+            <p className="text-slate-500 dark:text-slate-400">Type to search message text</p>
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : error ? (
+          <p className="p-6 text-center text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : results.length === 0 ? (
+          <p className="p-6 text-center text-slate-500 dark:text-slate-400">No messages found</p>
+        ) : (
+          results.map((result) => (
+            <button
+              key={result._id}
+              onClick={() => onOpen(result)}
+              className="w-full text-left p-4 border-b border-slate-100 dark:border-slate-700 transition-colors hover:bg-slate-50 dark:hover:bg-slate-700/50"
+            >
+              <div className="flex items-center justify-between mb-1 gap-2">
+                <span className="font-medium text-slate-900 dark:text-white flex items-center gap-1.5 truncate">
+                  {result.contact?.chatType === "group" && <Users className="w-4 h-4 text-slate-400" />}
+                  {result.contact?.name || "Unknown contact"}
+                </span>
+                <span className="text-xs text-slate-500 shrink-0">
+                  {new Date(result.timestamp).toLocaleDateString()}
+                </span>
+              </div>
+              <p className="text-sm text-slate-600 dark:text-slate-400 line-clamp-3">
+                {result.direction === "outbound" && <span className="text-slate-400">You: </span>}
+                <HighlightedSnippet text={result.snippet} highlights={result.highlights || []} />
+              </p>
+            </button>
+          ))
+        )}
+        <div ref={listEndRef} className="h-1" />
+        {loadingMore && (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { Inbox, Clock, AlertCircle, RotateCcw } from "lucide-react";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api";
+
+interface OutboxMessage {
+  _id: string;
+  message: string;
+  type?: string;
+  status: "queued" | "sending" | "failed";
+  attempts?: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  timestamp: string;
+  phone: string;
+  contactId?: { _id: string; name: string; phone: string } | null;
+}
+
+/** Shows how many outbound messages have not gone out yet, with a list to inspect and retry them */
+export default function OutboxButton() {
+  const [messages, setMessages] = useState<OutboxMessage[]>([]);
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadOutbox();
+  }, []);
+
+  useRealtime({
+    "new-message": ({ message }) => message?.direction === "outbound" && loadOutbox(),
+    "message-updated": (message) => {
+      if (!["queued", "sending", "failed"].includes(message.status)) {
+        setMessages((prev) => prev.filter((m) => m._id !== message._id));
+      } else if (!messages.some((m) => m._id === message._id)) {
+        // Newly failed or re-queued, reload to get the contact details
+        loadOutbox();
+      } else {
+        setMessages((prev) =>
+          prev.map((m) => (m._id === message._id ? { ...m, ...message, contactId: m.contactId } : m)),
+        );
+      }
+    },
+    open: () => loadOutbox(),
+  });
+
+  const loadOutbox = async () => {
+    try {
+      const response = await apiFetch("/api/messages/outbox");
+      const data = await response.json();
+      setMessages(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Error loading outbox:", error);
+    }
+  };
+
+  const handleRetry = async (id: string) => {
+    try {
+      const response = await apiFetch(`/api/whatsapp/messages/${id}/retry`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: "Unable to resend message", description: data.error });
+      }
+    } catch (error) {
+      console.error("Error retrying message:", error);
+    }
+  };
+
+  const failedCount = messages.filter((m) => m.status === "failed").length;
+  const pendingCount = messages.length - failedCount;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="relative p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+        title="Outbox"
+      >
+        <Inbox className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+        {messages.length > 0 && (
+          <span
+            className={`absolute -top-1 -right-1 text-white text-xs rounded-full px-1.5 ${
+              failedCount ? "bg-red-500" : "bg-amber-500"
+            }`}
+          >
+            {messages.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-lg w-full mx-4 p-6 border border-slate-200 dark:border-slate-700">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xl font-bold text-slate-900 dark:text-white">Outbox</h3>
+              <button onClick={() => setOpen(false)} className="text-sm text-slate-500">Close</button>
+            </div>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+              {pendingCount} waiting to send · {failedCount} failed
+            </p>
+
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {messages.length === 0 ? (
+                <p className="text-sm text-slate-500">Everything has been sent.</p>
+              ) : (
+                messages.map((m) => (
+                  <div key={m._id} className="p-3 border rounded-md border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-900 dark:text-white">
+                          {m.contactId?.name || m.phone}
+                        </p>
+                        <p className="text-sm text-slate-700 dark:text-slate-300 truncate">
+                          {m.message || `[${m.type}]`}
+                        </p>
+                      </div>
+                      {m.status === "failed" ? (
+                        <button
+                          onClick={() => handleRetry(m._id)}
+                          className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-emerald-600 text-white hover:bg-emerald-700"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Retry
+                        </button>
+                      ) : (
+                        <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 whitespace-nowrap">
+                          <Clock className="w-3 h-3" />
+                          {m.status === "sending" ? "Sending" : "Queued"}
+                        </span>
+                      )}
+                    </div>
+                    {m.lastError && (
+                      <p className="mt-2 flex items-start gap-1 text-xs text-red-600 dark:text-red-400 whitespace-pre-line">
+                        <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        {m.lastError}
+                      </p>
+                    )}
+                    <p className="text-xs text-slate-400 mt-2">
+                      {new Date(m.timestamp).toLocaleString()}
+                      {m.attempts ? ` · ${m.attempts} attempt${m.attempts === 1 ? "" : "s"}` : ""}
+                      {m.status === "queued" && m.nextAttemptAt && m.attempts
+                        ? ` · next try ${new Date(m.nextAttemptAt).toLocaleTimeString()}`
+                        : ""}
+                    </p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
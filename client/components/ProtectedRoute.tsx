@@ -0,0 +1,38 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import Layout from "@/components/Layout";
+import { Role, useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  /** Lowest role allowed; any signed-in user when left out */
+  role?: Role;
+}
+
+/** Renders the nested routes for signed-in users with the role, else sends them to sign in */
+export default function ProtectedRoute({ role }: ProtectedRouteProps) {
+  const { user, loading, hasRole } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-slate-50 dark:bg-slate-900">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+      </div>
+    );
+  }
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  if (role && !hasRole(role)) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center h-full p-8 text-center">
+          <ShieldAlert className="w-12 h-12 text-slate-300 dark:text-slate-600 mb-3" />
+          <h1 className="text-xl font-semibold text-slate-900 dark:text-white mb-1">No access</h1>
+          <p className="text-slate-600 dark:text-slate-400">This page needs the {role} role. Ask an admin if you need it.</p>
+        </div>
+      </Layout>
+    );
+  }
+  return <Outlet />;
+}
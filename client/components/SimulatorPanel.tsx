@@ -0,0 +1,226 @@
+import { useEffect, useState, FormEvent } from "react";
+import { FlaskConical, Send, CheckCheck, Check, XCircle, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_SESSION, useWhatsAppSessions } from "@/hooks/use-whatsapp-sessions";
+import { apiFetch } from "@/lib/api";
+
+interface OutboxMessage {
+  id: string;
+  to: string;
+  body: string;
+  timestamp: number;
+}
+
+export default function SimulatorPanel() {
+  const [phone, setPhone] = useState("");
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState("");
+  const [groupId, setGroupId] = useState("");
+  const [groupName, setGroupName] = useState("");
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const [sending, setSending] = useState(false);
+  const [sessionId, setSessionId] = useState(DEFAULT_SESSION);
+  const { sessions } = useWhatsAppSessions();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadOutbox();
+  }, [sessionId]);
+
+  const loadOutbox = async () => {
+    try {
+      const response = await apiFetch(`/api/simulator/outbox?session=${encodeURIComponent(sessionId)}`);
+      const data = await response.json();
+      setOutbox(Array.isArray(data) ? data.slice().reverse() : []);
+    } catch (error) {
+      console.error("Error loading simulator outbox:", error);
+    }
+  };
+
+  const handleInject = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!phone.trim() || !message.trim()) return;
+
+    try {
+      setSending(true);
+      const response = await apiFetch(`/api/simulator/inbound?session=${encodeURIComponent(sessionId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          phone,
+          name: name || undefined,
+          message,
+          groupId: groupId || undefined,
+          groupName: groupName || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage("");
+        toast({ title: "Inbound message injected" });
+      } else {
+        toast({ title: "Unable to inject message", description: data.error });
+      }
+    } catch (error) {
+      console.error("Error injecting message:", error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleAck = async (messageId: string, ack: string) => {
+    try {
+      const response = await apiFetch(`/api/simulator/ack?session=${encodeURIComponent(sessionId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId, ack }),
+      });
+      if (response.ok) {
+        toast({ title: `Marked as ${ack}` });
+      }
+    } catch (error) {
+      console.error("Error injecting ack:", error);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-amber-100 dark:bg-amber-900/30 rounded-lg">
+          <FlaskConical className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white">WhatsApp Simulator</h2>
+          <p className="text-sm text-slate-600 dark:text-slate-400">Offline mode — no phone connected</p>
+        </div>
+        {sessions.length > 1 && (
+          <select
+            value={sessionId}
+            onChange={(e) => setSessionId(e.target.value)}
+            className="ml-auto px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            title="Simulated WhatsApp number"
+          >
+            {sessions.map((session) => (
+              <option key={session.sessionId} value={session.sessionId}>
+                {session.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Inject inbound */}
+      <form onSubmit={handleInject} className="space-y-3 mb-6">
+        <h3 className="font-semibold text-slate-900 dark:text-white">Simulate a customer message</h3>
+        <div className="flex gap-3">
+          <input
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="Phone with country code"
+            className="flex-1 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            className="flex-1 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={groupId}
+            onChange={(e) => setGroupId(e.target.value)}
+            placeholder="Group id (optional, posts in a group)"
+            className="flex-1 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <input
+            type="text"
+            value={groupName}
+            onChange={(e) => setGroupName(e.target.value)}
+            placeholder="Group name (optional)"
+            disabled={!groupId}
+            className="flex-1 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Message text"
+            className="flex-1 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <button
+            type="submit"
+            disabled={!phone.trim() || !message.trim() || sending}
+            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+          >
+            <Send className="w-4 h-4" />
+            Inject
+          </button>
+        </div>
+      </form>
+
+      {/* Outbox */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-slate-900 dark:text-white">Sent through simulator</h3>
+          <button
+            onClick={loadOutbox}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4 text-slate-600 dark:text-slate-400" />
+          </button>
+        </div>
+        {outbox.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Nothing sent yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {outbox.map((msg) => (
+              <div
+                key={msg.id}
+                className="p-3 rounded-lg border border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      To {msg.to.endsWith("@g.us") ? `group ${msg.to.replace("@g.us", "")}` : msg.to.replace("@c.us", "")}
+                    </p>
+                    <p className="text-sm text-slate-800 dark:text-slate-200 truncate">{msg.body}</p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleAck(msg.id, "delivered")}
+                      className="p-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg"
+                      title="Mark delivered"
+                    >
+                      <Check className="w-4 h-4 text-slate-600 dark:text-slate-400" />
+                    </button>
+                    <button
+                      onClick={() => handleAck(msg.id, "read")}
+                      className="p-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg"
+                      title="Mark read"
+                    >
+                      <CheckCheck className="w-4 h-4 text-sky-500" />
+                    </button>
+                    <button
+                      onClick={() => handleAck(msg.id, "failed")}
+                      className="p-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg"
+                      title="Mark failed"
+                    >
+                      <XCircle className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
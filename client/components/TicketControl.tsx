@@ -0,0 +1,292 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown, Ticket as TicketIcon } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { Actor } from "@/components/AssignmentControl";
+import { apiFetch } from "@/lib/api";
+
+export type TicketStatus = "new" | "in-progress" | "resolved" | "closed";
+
+export type Disposition = "answered" | "fixed" | "duplicate" | "no-response" | "spam" | "other";
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  new: "New",
+  "in-progress": "In progress",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+/** Why a ticket was resolved, as on the server (models/Ticket) */
+export const DISPOSITION_LABELS: Record<Disposition, string> = {
+  answered: "Question answered",
+  fixed: "Problem fixed",
+  duplicate: "Duplicate",
+  "no-response": "No response from customer",
+  spam: "Spam",
+  other: "Other",
+};
+
+// Where a ticket may go from each status, as on the server (services/tickets).
+// Moving a closed one back opens a new ticket.
+const NEXT_STATUSES: Record<TicketStatus, TicketStatus[]> = {
+  new: ["in-progress", "resolved", "closed"],
+  "in-progress": ["new", "resolved", "closed"],
+  resolved: ["in-progress", "closed"],
+  closed: ["new", "in-progress"],
+};
+
+const STATUS_COLORS: Record<TicketStatus, string> = {
+  new: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  "in-progress": "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  resolved: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300",
+  closed: "bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300",
+};
+
+interface TicketChange {
+  from?: TicketStatus;
+  to: TicketStatus;
+  /** Empty for automatic changes */
+  by?: Actor;
+  disposition?: Disposition;
+  note?: string;
+  at: string;
+}
+
+interface Ticket {
+  _id: string;
+  status: TicketStatus;
+  openedAt: string;
+  firstResponseAt?: string;
+  resolvedAt?: string;
+  closedAt?: string;
+  disposition?: Disposition;
+  resolutionNote?: string;
+  history: TicketChange[];
+}
+
+interface TicketContact {
+  _id: string;
+  queryStatus?: string;
+  ticketId?: string;
+}
+
+interface TicketControlProps<C extends TicketContact> {
+  contact: C;
+  /** Called with the updated contact, as the server returns it */
+  onChange: (contact: C) => void;
+}
+
+function formatDuration(from: string, to: string) {
+  const minutes = Math.max(0, Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+export function StatusBadge({ status }: { status: TicketStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[status] || STATUS_COLORS.new}`}>
+      {TICKET_STATUS_LABELS[status] || status}
+    </span>
+  );
+}
+
+const describeChange = (change: TicketChange) =>
+  `${change.from ? `${TICKET_STATUS_LABELS[change.from]} → ` : "Opened as "}${TICKET_STATUS_LABELS[change.to]}` +
+  ` ${change.by ? `by ${change.by.name}` : "automatically"}` +
+  (change.disposition ? ` · ${DISPOSITION_LABELS[change.disposition]}` : "") +
+  (change.note ? ` · ${change.note}` : "");
+
+/**
+ * Status of the open conversation's ticket, with the status changes agents
+ * may make (resolving asks why) and the contact's earlier tickets with their
+ * timings and history.
+ */
+export default function TicketControl<C extends TicketContact>({ contact, onChange }: TicketControlProps<C>) {
+  const [open, setOpen] = useState(false);
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Resolving or closing, waiting for the reason
+  const [ending, setEnding] = useState<TicketStatus | null>(null);
+  const [disposition, setDisposition] = useState<Disposition>("answered");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+
+  const status = (contact.queryStatus || "new") as TicketStatus;
+  const current = tickets.find((ticket) => ticket._id === contact.ticketId);
+
+  const loadTickets = () =>
+    apiFetch(`/api/tickets?${new URLSearchParams({ contactId: contact._id, limit: "10" })}`)
+      .then((response) => response.json())
+      .then((data) => setTickets(Array.isArray(data.tickets) ? data.tickets : []))
+      .catch((error) => console.error("Failed to load tickets:", error));
+
+  useEffect(() => {
+    if (!open) return;
+    setEnding(null);
+    loadTickets();
+  }, [open, contact._id]);
+
+  useRealtime({
+    "ticket-updated": (ticket) => {
+      if (open && ticket.contactId === contact._id) loadTickets();
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const changeStatus = async (next: TicketStatus, reason?: { disposition: Disposition; note: string }) => {
+    try {
+      setBusy(true);
+      const response = await apiFetch(`/api/contacts/${contact._id}/status`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: next, ...reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: "Unable to change the status", description: data.error, variant: "destructive" });
+        return;
+      }
+      onChange(data);
+      setOpen(false);
+    } catch (error) {
+      console.error("Error changing status:", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Resolving needs a reason, and so does closing a ticket that was not resolved
+  const selectStatus = (next: TicketStatus) => {
+    if (next === "resolved" || (next === "closed" && !current?.disposition)) {
+      setEnding(next);
+      setNote("");
+    } else {
+      changeStatus(next);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors text-sm flex items-center gap-2"
+        title="Ticket"
+      >
+        <TicketIcon className="w-4 h-4" />
+        <StatusBadge status={status} />
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg z-20 py-1">
+          {hasRole("agent") && !ending && (
+            <>
+              <p className="px-4 py-1 text-xs text-slate-500">{status === "closed" ? "Open a new ticket as" : "Mark as"}</p>
+              {NEXT_STATUSES[status].map((next) => (
+                <button
+                  key={next}
+                  disabled={busy}
+                  onClick={() => selectStatus(next)}
+                  className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+                >
+                  <StatusBadge status={next} />
+                </button>
+              ))}
+            </>
+          )}
+
+          {ending && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                changeStatus(ending, { disposition, note: note.trim() });
+              }}
+              className="px-4 py-2 space-y-2"
+            >
+              <p className="text-xs text-slate-500">Why is it {ending === "resolved" ? "resolved" : "closed"}?</p>
+              <select
+                value={disposition}
+                onChange={(e) => setDisposition(e.target.value as Disposition)}
+                className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white"
+              >
+                {(Object.keys(DISPOSITION_LABELS) as Disposition[]).map((value) => (
+                  <option key={value} value={value}>{DISPOSITION_LABELS[value]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Note (optional)"
+                className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setEnding(null)} className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg text-sm">
+                  Cancel
+                </button>
+                <button type="submit" disabled={busy} className="px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-sm">
+                  {ending === "resolved" ? "Resolve" : "Close"}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {tickets.length > 0 && (
+            <div className="border-t border-slate-200 dark:border-slate-700 mt-1 pt-1 max-h-72 overflow-y-auto">
+              <p className="px-4 py-1 text-xs text-slate-500">Tickets</p>
+              {tickets.map((ticket) => (
+                <div key={ticket._id} className="px-4 py-2 text-xs text-slate-600 dark:text-slate-300">
+                  <button
+                    onClick={() => setExpanded(expanded === ticket._id ? null : ticket._id)}
+                    className="w-full flex items-center gap-2 text-left"
+                  >
+                    <StatusBadge status={ticket.status} />
+                    <span>Opened {new Date(ticket.openedAt).toLocaleString()}</span>
+                  </button>
+                  <p className="mt-1 text-slate-500 dark:text-slate-400">
+                    {ticket.firstResponseAt
+                      ? `First reply after ${formatDuration(ticket.openedAt, ticket.firstResponseAt)}`
+                      : "No reply yet"}
+                    {ticket.resolvedAt && ` · resolved after ${formatDuration(ticket.openedAt, ticket.resolvedAt)}`}
+                    {ticket.closedAt && ` · closed ${new Date(ticket.closedAt).toLocaleDateString()}`}
+                  </p>
+                  {ticket.disposition && (
+                    <p className="text-slate-500 dark:text-slate-400">
+                      {DISPOSITION_LABELS[ticket.disposition]}
+                      {ticket.resolutionNote && ` · ${ticket.resolutionNote}`}
+                    </p>
+                  )}
+                  {expanded === ticket._id &&
+                    ticket.history
+                      .slice()
+                      .reverse()
+                      .map((change, i) => (
+                        <p key={i} className="mt-1 pl-2 border-l-2 border-slate-200 dark:border-slate-700">
+                          {describeChange(change)}
+                          <span className="block text-slate-400">{new Date(change.at).toLocaleString()}</span>
+                        </p>
+                      ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
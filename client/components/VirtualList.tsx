@@ -0,0 +1,142 @@
+import { type ForwardedRef, type JSX, type ReactNode, type Ref, forwardRef, useCallback, useEffect, useImperativeHandle, useLayoutEffect, useRef, useState } from "react";
+
+export interface VirtualListHandle {
+  scrollToBottom: () => void;
+  scrollToKey: (key: string) => void;
+}
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  /** Height used for items that have not been rendered yet */
+  estimatedHeight?: number;
+  /** Extra pixels rendered above and below the viewport */
+  overscan?: number;
+  className?: string;
+  /** Scrolled near the top or the bottom, to load more */
+  onReachTop?: () => void;
+  onReachBottom?: () => void;
+  /** Whether the view sits at the bottom, for a "jump to latest" button */
+  onAtBottomChange?: (atBottom: boolean) => void;
+}
+
+const EDGE_THRESHOLD = 200;
+const BOTTOM_SLACK = 80;
+
+/**
+ * Scrollable list that only renders the items in and near the viewport. Item
+ * heights are measured as they render. Items added above the viewport (older
+ * messages) keep the visible ones in place, and a list scrolled to the bottom
+ * stays there as items are added.
+ */
+function VirtualListInner<T>(
+  { items, getKey, renderItem, estimatedHeight = 80, overscan = 600, className = "", onReachTop, onReachBottom, onAtBottomChange }: VirtualListProps<T>,
+  ref: ForwardedRef<VirtualListHandle>
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const atBottomRef = useRef(true);
+  const firstKeyRef = useRef<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [, setMeasured] = useState(0);
+
+  const keys = items.map(getKey);
+  const offsets: number[] = [];
+  let total = 0;
+  for (const key of keys) {
+    offsets.push(total);
+    total += heightsRef.current.get(key) ?? estimatedHeight;
+  }
+
+  let start = 0;
+  while (start < keys.length - 1 && offsets[start + 1] < scrollTop - overscan) start++;
+  let end = start;
+  while (end < keys.length && offsets[end] < scrollTop + viewportHeight + overscan) end++;
+
+  const scrollToBottom = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.scrollTop = container.scrollHeight;
+    atBottomRef.current = true;
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    scrollToBottom,
+    scrollToKey: (key: string) => {
+      const index = keys.indexOf(key);
+      const container = containerRef.current;
+      if (index === -1 || !container) return;
+      container.scrollTop = Math.max(0, offsets[index] - 16);
+      atBottomRef.current = false;
+    },
+  }));
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  // Older items were prepended: keep the items on screen where they were
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const previousFirst = firstKeyRef.current;
+    firstKeyRef.current = keys[0] ?? null;
+    if (!container || !previousFirst || keys[0] === previousFirst) return;
+    const index = keys.indexOf(previousFirst);
+    if (index > 0) container.scrollTop += offsets[index];
+  }, [keys[0]]);
+
+  // New items at the bottom while the user was reading the latest ones
+  useLayoutEffect(() => {
+    if (atBottomRef.current) scrollToBottom();
+  }, [keys[keys.length - 1], total]);
+
+  const measure = (key: string, index: number) => (element: HTMLDivElement | null) => {
+    if (!element) return;
+    const height = element.offsetHeight;
+    const previous = heightsRef.current.get(key) ?? estimatedHeight;
+    if (height === previous && heightsRef.current.has(key)) return;
+    heightsRef.current.set(key, height);
+    // An item above the viewport changed size: compensate so the view does not jump
+    const container = containerRef.current;
+    if (container && !atBottomRef.current && offsets[index] < container.scrollTop) {
+      container.scrollTop += height - previous;
+    }
+    setMeasured((n) => n + 1);
+  };
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    setScrollTop(container.scrollTop);
+    const atBottom = container.scrollHeight - container.scrollTop - container.clientHeight < BOTTOM_SLACK;
+    if (atBottom !== atBottomRef.current) onAtBottomChange?.(atBottom);
+    atBottomRef.current = atBottom;
+    if (container.scrollTop < EDGE_THRESHOLD) onReachTop?.();
+    if (atBottom) onReachBottom?.();
+  };
+
+  return (
+    <div ref={containerRef} onScroll={handleScroll} className={`overflow-y-auto ${className}`}>
+      <div style={{ height: offsets[start] ?? 0 }} />
+      {items.slice(start, end).map((item, i) => (
+        <div key={keys[start + i]} ref={measure(keys[start + i], start + i)}>
+          {renderItem(item)}
+        </div>
+      ))}
+      <div style={{ height: end < keys.length ? total - offsets[end] : 0 }} />
+    </div>
+  );
+}
+
+const VirtualList = forwardRef(VirtualListInner) as <T>(
+  props: VirtualListProps<T> & { ref?: Ref<VirtualListHandle> }
+) => JSX.Element;
+
+export default VirtualList;
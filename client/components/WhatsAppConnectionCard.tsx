@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import { Smartphone, HelpCircle, RotateCcw, Trash2, KeyRound, History } from "lucide-react";
+import { DEFAULT_SESSION, WhatsAppSession } from "@/hooks/use-whatsapp-sessions";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api";
+
+const AUTH_STORE_LABELS: Record<string, string> = {
+  mongo: "Login saved encrypted in the database, it survives restarts and redeploys.",
+  local: "Login saved on the server's disk, a redeploy may need a new QR scan.",
+  memory: "Simulated session, nothing is saved.",
+};
+
+interface HistoryImport {
+  sessionId: string;
+  status: "idle" | "running" | "completed" | "failed";
+  totalChats?: number;
+  processedChats?: number;
+  importedMessages?: number;
+  failedChats?: number;
+  lastError?: string;
+}
+
+interface WhatsAppConnectionCardProps {
+  session: WhatsAppSession;
+  onRemove?: (sessionId: string) => void;
+}
+
+/** Status, QR pairing and connect/disconnect controls for one WhatsApp number */
+export default function WhatsAppConnectionCard({ session, onRemove }: WhatsAppConnectionCardProps) {
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [historyImport, setHistoryImport] = useState<HistoryImport | null>(null);
+  const { toast } = useToast();
+  const baseUrl = `/api/whatsapp/sessions/${encodeURIComponent(session.sessionId)}`;
+
+  const connectionStatus: "connected" | "connecting" | "disconnected" = session.connected
+    ? "connected"
+    : session.hasQR
+    ? "connecting"
+    : "disconnected";
+
+  useEffect(() => {
+    if (session.hasQR) {
+      loadQRCode();
+    } else if (session.connected) {
+      setQrCode(null);
+    }
+  }, [session.hasQR, session.connected]);
+
+  useEffect(() => {
+    loadHistoryImport();
+  }, [session.sessionId, session.connected]);
+
+  useRealtime({
+    "backfill-progress": (data: HistoryImport) => {
+      if (data && data.sessionId === session.sessionId) {
+        setHistoryImport(data);
+      }
+    },
+  });
+
+  const loadHistoryImport = async () => {
+    try {
+      const response = await apiFetch(`${baseUrl}/backfill`);
+      if (response.ok) {
+        setHistoryImport(await response.json());
+      }
+    } catch (error) {
+      console.error("Error loading history import:", error);
+    }
+  };
+
+  const handleImportHistory = async () => {
+    try {
+      const response = await apiFetch(`${baseUrl}/backfill`, { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: "Unable to import history", description: data.error });
+      }
+    } catch (error) {
+      console.error("Error starting history import:", error);
+    }
+  };
+
+  const loadQRCode = async () => {
+    try {
+      const response = await apiFetch(`${baseUrl}/qr?format=image`);
+      const data = await response.json();
+      if (data.qrImage) {
+        setQrCode(data.qrImage);
+      }
+    } catch (error) {
+      console.error("Error loading QR code:", error);
+    }
+  };
+
+  const handleReconnect = async () => {
+    try {
+      setLoading(true);
+      await apiFetch(`${baseUrl}/reconnect`, { method: "POST" });
+    } catch (error) {
+      console.error("Error reconnecting:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetAuth = async () => {
+    if (!confirm("Forget the saved WhatsApp login for this number? You will need to scan a new QR code.")) return;
+
+    try {
+      setLoading(true);
+      const response = await apiFetch(`${baseUrl}/reset-auth`, { method: "POST" });
+      if (response.ok) {
+        setQrCode(null);
+      }
+    } catch (error) {
+      console.error("Error resetting WhatsApp login:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch(`${baseUrl}/disconnect`, { method: "POST" });
+      if (response.ok) {
+        setQrCode(null);
+      }
+    } catch (error) {
+      console.error("Error disconnecting WhatsApp:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+          <Smartphone className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-white">
+            {session.sessionId === DEFAULT_SESSION ? "WhatsApp Connection" : session.label}
+          </h2>
+          {session.sessionId !== DEFAULT_SESSION && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">Session id: {session.sessionId}</p>
+          )}
+        </div>
+        {onRemove && session.sessionId !== DEFAULT_SESSION && (
+          <button
+            onClick={() => onRemove(session.sessionId)}
+            className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+            title="Remove this number"
+          >
+            <Trash2 className="w-4 h-4 text-red-600 dark:text-red-400" />
+          </button>
+        )}
+      </div>
+
+      {/* Status Card */}
+      <div className={`p-4 rounded-lg border-l-4 mb-6 ${
+        connectionStatus === "connected"
+          ? "bg-emerald-50 dark:bg-emerald-900/20 border-emerald-500"
+          : connectionStatus === "connecting"
+          ? "bg-amber-50 dark:bg-amber-900/20 border-amber-500"
+          : "bg-red-50 dark:bg-red-900/20 border-red-500"
+      }`}>
+        <div className="flex items-center gap-3 mb-2">
+          <div className={`w-3 h-3 rounded-full animate-pulse ${
+            connectionStatus === "connected"
+              ? "bg-emerald-500"
+              : connectionStatus === "connecting"
+              ? "bg-amber-500"
+              : "bg-red-500"
+          }`} />
+          <span className={`font-semibold ${
+            connectionStatus === "connected"
+              ? "text-emerald-700 dark:text-emerald-300"
+              : connectionStatus === "connecting"
+              ? "text-amber-700 dark:text-amber-300"
+              : "text-red-700 dark:text-red-300"
+          }`}>
+            {connectionStatus === "connected"
+              ? "WhatsApp Connected ✓"
+              : connectionStatus === "connecting"
+              ? "Waiting for Connection"
+              : "Not Connected"}
+          </span>
+        </div>
+        <p className={`text-sm ${
+          connectionStatus === "connected"
+            ? "text-emerald-600 dark:text-emerald-400"
+            : connectionStatus === "connecting"
+            ? "text-amber-600 dark:text-amber-400"
+            : "text-red-600 dark:text-red-400"
+        }`}>
+          {connectionStatus === "connected"
+            ? "Your WhatsApp account is ready to use. You can start sending and receiving messages."
+            : connectionStatus === "connecting"
+            ? "Scan the QR code below with your phone to complete the connection."
+            : "Go through the steps below to connect your WhatsApp account."}
+        </p>
+      </div>
+
+      {/* QR Code */}
+      {connectionStatus !== "connected" && (
+        <div className="mb-6">
+          <h3 className="font-semibold text-slate-900 dark:text-white mb-4">QR Code</h3>
+          <div className="flex justify-center p-6 bg-slate-50 dark:bg-slate-700 rounded-lg border border-slate-200 dark:border-slate-600">
+            {qrCode ? (
+              <img src={qrCode} alt="WhatsApp QR Code" className="max-w-xs w-full" />
+            ) : (
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600 mx-auto mb-3"></div>
+                <p className="text-slate-500 dark:text-slate-400">Loading QR code...</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Instructions */}
+      {connectionStatus !== "connected" && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-6">
+          <h4 className="font-semibold text-blue-900 dark:text-blue-300 mb-3 flex items-center gap-2">
+            <HelpCircle className="w-4 h-4" />
+            How to Connect
+          </h4>
+          <ol className="space-y-2 text-sm text-blue-800 dark:text-blue-200">
+            <li>1. Open WhatsApp on your phone</li>
+            <li>2. Go to Settings → Linked Devices</li>
+            <li>3. Tap "Link a Device"</li>
+            <li>4. Scan the QR code shown above</li>
+            <li>5. Wait for the connection to complete</li>
+          </ol>
+          <p className="text-xs text-blue-700 dark:text-blue-300 mt-3 font-medium">
+            💡 You only need to scan once. Your WhatsApp will stay connected automatically!
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex gap-3">
+        {connectionStatus === "connected" && (
+          <button
+            onClick={handleDisconnect}
+            disabled={loading}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-red-600 hover:bg-red-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors"
+          >
+            <RotateCcw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+            Disconnect WhatsApp
+          </button>
+        )}
+
+        {connectionStatus !== "connected" && (
+          <button
+            onClick={handleReconnect}
+            disabled={loading}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors"
+          >
+            <RotateCcw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+            Reconnect
+          </button>
+        )}
+
+        <button
+          onClick={handleResetAuth}
+          disabled={loading}
+          className="flex items-center justify-center gap-2 px-4 py-3 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 text-slate-700 dark:text-slate-200 rounded-lg font-medium transition-colors"
+          title="Invalidate the saved login"
+        >
+          <KeyRound className="w-4 h-4" />
+          Forget login
+        </button>
+      </div>
+
+      {/* Chat history import */}
+      {historyImport && historyImport.status !== "idle" && (
+        <div className="mt-4 p-3 bg-slate-50 dark:bg-slate-700/30 rounded-lg">
+          <div className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+            <History className="w-4 h-4" />
+            <span className="flex-1">
+              {historyImport.status === "running"
+                ? `Importing chat history: ${historyImport.processedChats || 0} of ${historyImport.totalChats || 0} chats`
+                : historyImport.status === "completed"
+                ? `Imported ${historyImport.importedMessages || 0} earlier messages from ${historyImport.processedChats || 0} chats`
+                : `History import paused: ${historyImport.lastError || "unknown error"}`}
+            </span>
+            {historyImport.status !== "running" && session.connected && (
+              <button
+                onClick={handleImportHistory}
+                className="text-xs font-medium text-emerald-600 dark:text-emerald-400 hover:underline"
+              >
+                {historyImport.status === "failed" ? "Retry" : "Import again"}
+              </button>
+            )}
+          </div>
+          {historyImport.status === "running" && (
+            <div className="mt-2 h-1.5 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-emerald-500 transition-all"
+                style={{
+                  width: `${historyImport.totalChats ? Math.round(((historyImport.processedChats || 0) / historyImport.totalChats) * 100) : 0}%`,
+                }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {session.authStore && AUTH_STORE_LABELS[session.authStore] && (
+        <p className="text-xs text-slate-500 dark:text-slate-400 mt-3">{AUTH_STORE_LABELS[session.authStore]}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import { apiFetch, onSessionEnded } from "@/lib/api";
+
+export type Role = "read-only" | "agent" | "supervisor" | "admin";
+
+/** Roles from least to most access, as on the server */
+export const ROLES: Role[] = ["read-only", "agent", "supervisor", "admin"];
+
+export type AvailabilityStatus = "online" | "away" | "offline";
+
+/** Weekly working hours, "HH:MM" in the user's timezone; day 0 is Sunday */
+export interface Shift {
+  day: number;
+  start: string;
+  end: string;
+}
+
+export interface AuthUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: Role;
+  active: boolean;
+  lastLoginAt?: string;
+  /** `idle` when the server set away after inactivity */
+  availability?: { status: AvailabilityStatus; changedAt?: string; idle?: boolean };
+  shifts?: Shift[];
+  timezone?: string;
+}
+
+interface AuthState {
+  user: AuthUser | null;
+  /** True until the session has been checked on load */
+  loading: boolean;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  setAvailability: (status: AvailabilityStatus) => Promise<void>;
+  /** Apply changes pushed by the server, e.g. the status set away when idle */
+  updateUser: (changes: Partial<AuthUser>) => void;
+  /** Whether the signed-in user has `role` or a higher one */
+  hasRole: (role: Role) => boolean;
+}
+
+const AuthContext = createContext<AuthState | null>(null);
+
+// How often the server hears that the app is being used
+const ACTIVITY_INTERVAL_MS = 60 * 1000;
+const ACTIVITY_EVENTS = ["mousemove", "keydown", "click", "touchstart"];
+
+/** Signed-in user, from the session cookie; pages call the API with that cookie */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    apiFetch("/api/auth/me")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setUser(data))
+      .catch(() => setUser(null))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Back to the sign-in page when any API call (apiFetch or api) finds the session gone
+  useEffect(() => onSessionEnded(() => setUser(null)), []);
+
+  // Report use of the app while signed in, so idle agents can be set away
+  // and come back online when they return
+  useEffect(() => {
+    if (!user) return;
+    let active = true;
+    const markActive = () => {
+      active = true;
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    const timer = setInterval(() => {
+      if (!active) return;
+      active = false;
+      apiFetch("/api/auth/me/activity", { method: "POST" })
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => data && setUser(data))
+        .catch((error) => console.error("Failed to report activity:", error));
+    }, ACTIVITY_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+    };
+  }, [user?._id]);
+
+  const login = async (email: string, password: string) => {
+    const response = await apiFetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Sign in failed");
+    setUser(data);
+  };
+
+  const logout = async () => {
+    try {
+      await apiFetch("/api/auth/logout", { method: "POST" });
+    } finally {
+      setUser(null);
+    }
+  };
+
+  const setAvailability = async (status: AvailabilityStatus) => {
+    const response = await apiFetch("/api/auth/me/availability", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Could not change the status");
+    setUser(data);
+  };
+
+  const updateUser = (changes: Partial<AuthUser>) => setUser((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const hasRole = (role: Role) => Boolean(user) && ROLES.indexOf(user!.role) >= ROLES.indexOf(role);
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, logout, setAvailability, updateUser, hasRole }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error("useAuth must be used inside AuthProvider");
+  return auth;
+}
@@ -0,0 +1,40 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+
+/** The conversation open on screen, for the palette's conversation actions */
+export interface PaletteConversation {
+  contact: { _id: string; name: string; queryStatus?: string };
+  /** Add text to the message being written */
+  insertText: (text: string) => void;
+}
+
+interface CommandPaletteState {
+  conversation: PaletteConversation | null;
+  setConversation: (conversation: PaletteConversation | null) => void;
+}
+
+const CommandPaletteContext = createContext<CommandPaletteState>({
+  conversation: null,
+  setConversation: () => {},
+});
+
+export function CommandPaletteProvider({ children }: { children: ReactNode }) {
+  const [conversation, setConversation] = useState<PaletteConversation | null>(null);
+  return (
+    <CommandPaletteContext.Provider value={{ conversation, setConversation }}>
+      {children}
+    </CommandPaletteContext.Provider>
+  );
+}
+
+export function useCommandPalette() {
+  return useContext(CommandPaletteContext);
+}
+
+/** Offer the palette's conversation actions for `conversation` while the calling page shows it */
+export function usePaletteConversation(conversation: PaletteConversation | null) {
+  const { setConversation } = useCommandPalette();
+  useEffect(() => {
+    setConversation(conversation);
+  }, [conversation?.contact._id, conversation?.contact.name, conversation?.contact.queryStatus]);
+  useEffect(() => () => setConversation(null), []);
+}
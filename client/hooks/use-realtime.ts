@@ -0,0 +1,117 @@
+import { useEffect, useRef } from "react";
+
+import type { AvailabilityStatus } from "@/hooks/use-auth";
+import type { WhatsAppSession } from "@/hooks/use-whatsapp-sessions";
+
+interface RealtimeActor {
+  userId: string;
+  name: string;
+}
+
+/** A message as the server stores it; pages keep their own fuller type */
+export interface RealtimeMessage {
+  _id: string;
+  contactId?: string;
+  phone?: string;
+  message: string;
+  direction: "inbound" | "outbound";
+  status?: "queued" | "sending" | "sent" | "delivered" | "read" | "failed";
+  timestamp: string;
+}
+
+/** A contact as the server stores it; pages keep their own fuller type */
+export interface RealtimeContact {
+  _id: string;
+  name: string;
+  phone: string;
+  queryStatus?: string;
+  unreadCount?: number;
+  assignedTo?: RealtimeActor | null;
+}
+
+/** What the server publishes with each event (services/realtime) */
+export interface RealtimePayloads {
+  "new-message": { message: RealtimeMessage; contact: RealtimeContact };
+  "message-updated": RealtimeMessage;
+  "status-change": { contactId: string; queryStatus: string; previous: string | null; by?: RealtimeActor };
+  "contact-updated": RealtimeContact;
+  "connection-state": Partial<WhatsAppSession> & { sessionId: string; removed?: boolean };
+  "connection-event": { sessionId: string; type: string; reason: string | null; retryCount: number; createdAt: string };
+  "backfill-progress": { sessionId: string; status: string; totalChats?: number; processedChats?: number };
+  "conversation-assigned": { contact: RealtimeContact; to: RealtimeActor | null; by: RealtimeActor | null; reason?: string };
+  "availability-changed": { userId: string; name: string; status: AvailabilityStatus; idle?: boolean; changedAt?: string };
+  "ticket-updated": { _id: string; contactId: string; status: string };
+}
+
+export type RealtimeEvent = keyof RealtimePayloads;
+
+export type RealtimeHandlers = { [E in RealtimeEvent]?: (data: RealtimePayloads[E]) => void } & {
+  /** Called when the stream reconnects after a drop, so callers can resync missed updates */
+  open?: () => void;
+};
+
+const EVENTS: RealtimeEvent[] = [
+  "new-message",
+  "message-updated",
+  "status-change",
+  "contact-updated",
+  "connection-state",
+  "connection-event",
+  "backfill-progress",
+  "conversation-assigned",
+  "availability-changed",
+  "ticket-updated",
+];
+
+type Listener = { event: RealtimeEvent | "open"; callback: (data?: unknown) => void };
+
+// One EventSource per tab, shared by every component using the hook
+let source: EventSource | null = null;
+const listeners = new Set<Listener>();
+
+function connect() {
+  let opened = false;
+  source = new EventSource("/api/stream");
+  source.onopen = () => {
+    if (opened) {
+      listeners.forEach((l) => l.event === "open" && l.callback());
+    }
+    opened = true;
+  };
+  EVENTS.forEach((event) => {
+    source!.addEventListener(event, (e) => {
+      let data: unknown;
+      try {
+        data = JSON.parse((e as MessageEvent).data);
+      } catch {
+        return;
+      }
+      listeners.forEach((l) => l.event === event && l.callback(data));
+    });
+  });
+}
+
+function addListener(listener: Listener) {
+  listeners.add(listener);
+  if (!source) connect();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
+
+export function useRealtime(handlers: RealtimeHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const removers = [...EVENTS, "open" as const].map((event) =>
+      // The stream carries RealtimePayloads[event] for each event
+      addListener({ event, callback: (data) => (handlersRef.current[event] as ((data: unknown) => void) | undefined)?.(data) }),
+    );
+    return () => removers.forEach((remove) => remove());
+  }, []);
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { useRealtime } from "@/hooks/use-realtime";
+import { apiFetch } from "@/lib/api";
+
+export interface WhatsAppSession {
+  sessionId: string;
+  label: string;
+  connected: boolean;
+  hasQR: boolean;
+  /** Where the WhatsApp login is kept: "mongo", "local" or "memory" */
+  authStore?: string;
+  /** Current reconnect attempt, 0 when the last start went fine */
+  retryCount?: number;
+  /** The phone paired with this session */
+  account?: { phone: string | null; name: string | null } | null;
+  /** ISO date the session became ready, null while not connected */
+  connectedAt?: string | null;
+  transport: string;
+}
+
+export const DEFAULT_SESSION = "default";
+
+/** The WhatsApp numbers connected to the app, kept up to date from connection-state events */
+export function useWhatsAppSessions() {
+  const [sessions, setSessions] = useState<WhatsAppSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  useRealtime({
+    "connection-state": (data) => {
+      if (data.removed) {
+        setSessions((prev) => prev.filter((s) => s.sessionId !== data.sessionId));
+      } else if (!sessions.some((s) => s.sessionId === data.sessionId)) {
+        reload();
+      } else {
+        setSessions((prev) => prev.map((s) => (s.sessionId === data.sessionId ? { ...s, ...data } : s)));
+      }
+    },
+    open: () => reload(),
+  });
+
+  const reload = async () => {
+    try {
+      const response = await apiFetch("/api/whatsapp/sessions");
+      const data = await response.json();
+      setSessions(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Error loading WhatsApp numbers:", error);
+      setSessions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { sessions, loading, reload };
+}
@@ -1,4 +1,4 @@
-import axios from "axios";
+import axios, { AxiosError } from "axios";
 
 const API_BASE_URL =
   import.meta.env.MODE === "development"
@@ -9,3 +9,36 @@ export const api = axios.create({
   baseURL: API_BASE_URL,
   withCredentials: true,
 });
+
+const sessionEndedListeners = new Set<() => void>();
+
+/** Call `listener` whenever an API request finds the session gone; returns the unsubscribe */
+export function onSessionEnded(listener: () => void) {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+}
+
+// Requests the server turned away because the session ended (expired, signed
+// out elsewhere, account deactivated). Sign-in requests answer 401 on their own.
+function checkSession(url: string, status: number | undefined) {
+  if (status === 401 && url.includes("/api/") && !url.includes("/api/auth/")) {
+    sessionEndedListeners.forEach((listener) => listener());
+  }
+}
+
+const urlOf = (input: RequestInfo | URL) =>
+  typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+
+/** `fetch` for our API, telling onSessionEnded listeners when the session is gone */
+export async function apiFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  checkSession(urlOf(input), response.status);
+  return response;
+}
+
+api.interceptors.response.use(undefined, (error: AxiosError) => {
+  checkSession(error.config?.url || "", error.response?.status);
+  return Promise.reject(error);
+});
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { TrendingUp, Users, MessageSquare, Clock } from "lucide-react";
 import CountUp from "react-countup";
 import Layout from "@/components/Layout";
+import { apiFetch } from "@/lib/api";
 
 interface Stats {
   totalMessages: number;
@@ -33,14 +34,17 @@ export default function Analytics() {
     try {
       setLoading(true);
 
-      const [statsRes, contactsRes, messagesRes] = await Promise.all([
-        fetch("/api/messages/stats/summary"),
-        fetch("/api/contacts"),
-        fetch("/api/messages"),
+      // Only the counts of the contact lists are needed
+      const [statsRes, contactsRes, resolvedRes, messagesRes] = await Promise.all([
+        apiFetch("/api/messages/stats/summary"),
+        apiFetch("/api/contacts?limit=1"),
+        apiFetch("/api/contacts?status=resolved,closed&limit=1"),
+        apiFetch("/api/messages"),
       ]);
 
       const statsData = await statsRes.json();
       const contactsData = await contactsRes.json();
+      const resolvedData = await resolvedRes.json();
       const messagesData = await messagesRes.json();
 
       setStats({
@@ -71,13 +75,12 @@ export default function Analytics() {
           ? Math.round(totalResponseTime / responseCount / 60000)
           : 0;
 
-      const resolved = contactsData.filter(
-        (c: any) => c.queryStatus === "resolved" || c.queryStatus === "closed"
-      ).length;
+      const totalContacts = contactsData.total || 0;
+      const resolved = resolvedData.total || 0;
 
       const resolutionRate =
-        contactsData.length > 0
-          ? (resolved / contactsData.length) * 100
+        totalContacts > 0
+          ? (resolved / totalContacts) * 100
           : 0;
 
       const inbound = messages.filter((m: any) => m.direction === "inbound");
@@ -92,7 +95,7 @@ export default function Analytics() {
         avgResponseTime,
         resolutionRate,
         satisfaction,
-        totalContacts: contactsData.length,
+        totalContacts,
       });
     } catch (error) {
       console.error("Analytics error:", error);
@@ -1,7 +1,11 @@
-import { useEffect, useState, FormEvent } from "react";
+import { useEffect, useRef, useState, FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
 
-import { Search, Plus, Trash2, MessageSquare } from "lucide-react";
+import { Search, Plus, Trash2, MessageSquare, Upload } from "lucide-react";
 import Layout from "@/components/Layout";
+import ChatImportModal from "@/components/ChatImportModal";
+import { useAuth } from "@/hooks/use-auth";
+import { apiFetch } from "@/lib/api";
 
 interface Contact {
   _id: string;
@@ -11,13 +15,43 @@ interface Contact {
   company?: string;
   tags?: string[];
   notes?: string;
+  unreadCount?: number;
 }
 
+const PAGE_SIZE = 30;
+
+const SORT_OPTIONS: Record<string, string> = {
+  recent: "Recently updated",
+  "last-contacted": "Last contacted",
+  newest: "Newest",
+  name: "Name",
+  unread: "Most unread",
+};
+
+const STATUS_OPTIONS: Record<string, string> = {
+  all: "All statuses",
+  new: "New",
+  "in-progress": "In progress",
+  resolved: "Resolved",
+  closed: "Closed",
+};
+
+const selectClass =
+  "px-3 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
 export default function Contacts() {
   const [contacts, setContacts] = useState<Contact[]>([]);
-  const [filteredContacts, setFilteredContacts] = useState<Contact[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("");
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [sort, setSort] = useState("recent");
+  const [tags, setTags] = useState<string[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [importContact, setImportContact] = useState<Contact | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     phone: "",
@@ -25,70 +59,118 @@ export default function Contacts() {
     company: "",
     notes: "",
   });
+  const [formError, setFormError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Ignores responses of a list that was reloaded with other filters meanwhile
+  const requestRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole("agent");
 
+  // /contacts?new=1 opens the add form, e.g. from the command palette
   useEffect(() => {
-    loadContacts();
+    if (searchParams.get("new") !== "1") return;
+    if (canEdit) setShowAddModal(true);
+    setSearchParams({}, { replace: true });
+  }, [searchParams]);
+
+  useEffect(() => {
+    apiFetch("/api/contacts/tags/all")
+      .then((response) => response.json())
+      .then((data) => setTags(Array.isArray(data) ? data : []))
+      .catch((error) => console.error("Error loading tags:", error));
   }, []);
 
+  // Search as the user types, without a request per keystroke
   useEffect(() => {
-    const filtered = contacts.filter((contact) =>
-      contact.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      contact.phone.includes(searchQuery) ||
-      contact.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      contact.company?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-    setFilteredContacts(filtered);
-  }, [searchQuery, contacts]);
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    loadContacts();
+  }, [debouncedQuery, statusFilter, tagFilter, unreadOnly, sort]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  const contactsUrl = (cursor?: string) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort });
+    if (debouncedQuery) params.set("q", debouncedQuery);
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (tagFilter) params.set("tags", tagFilter);
+    if (unreadOnly) params.set("unread", "true");
+    if (cursor) params.set("cursor", cursor);
+    return `/api/contacts?${params}`;
+  };
 
   const loadContacts = async () => {
+    const request = ++requestRef.current;
     try {
       setLoading(true);
-      const response = await fetch("/api/contacts");
+      setNextCursor(null);
+      const response = await apiFetch(contactsUrl());
       const data = await response.json();
-      setContacts(Array.isArray(data) ? data : []);
+      if (request !== requestRef.current) return;
+      setContacts(Array.isArray(data.contacts) ? data.contacts : []);
+      setNextCursor(data.nextCursor || null);
+      setTotal(data.total || 0);
     } catch (error) {
       console.error("Error loading contacts:", error);
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) setLoading(false);
     }
   };
 
-const handleAddContact = async (e: FormEvent) => {
-  e.preventDefault();
-
-  try {
-    const response = await fetch("/api/contacts", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        ...formData,
-        phone: formData.phone.replace(/\D/g, ""),
-      }),
-    });
-
-    if (response.ok) {
-      setFormData({ name: "", phone: "", email: "", company: "", notes: "" });
-      setShowAddModal(false);
-      loadContacts();
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = requestRef.current;
+    try {
+      setLoadingMore(true);
+      const response = await apiFetch(contactsUrl(nextCursor));
+      const data = await response.json();
+      if (request !== requestRef.current) return;
+      setContacts((prev) => [...prev, ...(Array.isArray(data.contacts) ? data.contacts : [])]);
+      setNextCursor(data.nextCursor || null);
+      setTotal(data.total || 0);
+    } catch (error) {
+      console.error("Error loading more contacts:", error);
+    } finally {
+      setLoadingMore(false);
     }
-  } catch (error) {
-    console.error("Error adding contact:", error);
-  }
+  };
+
+  const hasFilters = Boolean(debouncedQuery) || statusFilter !== "all" || Boolean(tagFilter) || unreadOnly;
+
+  const handleAddContact = async (e: FormEvent) => {
+    e.preventDefault();
+
     try {
-      const response = await fetch("/api/contacts", {
+      setFormError(null);
+      // The server normalizes the number (country code, local formats)
+      const response = await apiFetch("/api/contacts", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          ...formData,
-          phone: formData.phone.replace(/\D/g, ""),
-        }),
+        body: JSON.stringify(formData),
       });
 
       if (response.ok) {
         setFormData({ name: "", phone: "", email: "", company: "", notes: "" });
         setShowAddModal(false);
         loadContacts();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setFormError(data.error || "Could not add the contact");
       }
     } catch (error) {
       console.error("Error adding contact:", error);
@@ -99,7 +181,7 @@ const handleAddContact = async (e: FormEvent) => {
     if (!confirm("Are you sure you want to delete this contact?")) return;
 
     try {
-      await fetch(`/api/contacts/${contactId}`, { method: "DELETE" });
+      await apiFetch(`/api/contacts/${contactId}`, { method: "DELETE" });
       loadContacts();
     } catch (error) {
       console.error("Error deleting contact:", error);
@@ -115,42 +197,84 @@ const handleAddContact = async (e: FormEvent) => {
             <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Contacts</h1>
             <p className="text-slate-600 dark:text-slate-400">Manage your customer relationships</p>
           </div>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="flex items-center gap-2 px-4 py-3 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            Add Contact
-          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="flex items-center gap-2 px-4 py-3 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Contact
+            </button>
+          )}
         </div>
 
-        {/* Search Bar */}
-        <div className="mb-6 relative">
-          <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
-          <input
-            type="text"
-            placeholder="Search by name, phone, email, or company..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-12 pr-4 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500"
-          />
+        {/* Search and filters */}
+        <div className="mb-6 flex flex-wrap gap-3">
+          <div className="relative flex-1 min-w-[16rem]">
+            <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search by name, phone, email, or company..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-12 pr-4 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-900 dark:text-white placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </div>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className={selectClass} title="Status">
+            {Object.entries(STATUS_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {tags.length > 0 && (
+            <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className={selectClass} title="Tag">
+              <option value="">All tags</option>
+              {tags.map((tag) => (
+                <option key={tag} value={tag}>
+                  #{tag}
+                </option>
+              ))}
+            </select>
+          )}
+          <select value={sort} onChange={(e) => setSort(e.target.value)} className={selectClass} title="Sort by">
+            {Object.entries(SORT_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 px-3 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={unreadOnly}
+              onChange={(e) => setUnreadOnly(e.target.checked)}
+              className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Unread only
+          </label>
         </div>
+        {!loading && contacts.length > 0 && (
+          <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">
+            Showing {contacts.length} of {total} contacts
+          </p>
+        )}
 
         {/* Contacts Grid */}
         {loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
           </div>
-        ) : filteredContacts.length === 0 ? (
+        ) : contacts.length === 0 ? (
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-12 text-center">
             <div className="inline-flex items-center justify-center w-16 h-16 bg-slate-100 dark:bg-slate-700 rounded-full mb-4">
               <MessageSquare className="w-8 h-8 text-slate-400 dark:text-slate-500" />
             </div>
             <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">No contacts found</h3>
             <p className="text-slate-600 dark:text-slate-400 mb-6">
-              {searchQuery ? "Try adjusting your search criteria" : "Start by adding your first contact"}
+              {hasFilters ? "Try adjusting your search criteria" : "Start by adding your first contact"}
             </p>
-            {!searchQuery && (
+            {!hasFilters && canEdit && (
               <button
                 onClick={() => setShowAddModal(true)}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium transition-colors"
@@ -162,7 +286,7 @@ const handleAddContact = async (e: FormEvent) => {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredContacts.map((contact) => (
+            {contacts.map((contact) => (
               <div
                 key={contact._id}
                 className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 hover:shadow-md transition-shadow"
@@ -196,18 +320,41 @@ const handleAddContact = async (e: FormEvent) => {
                     <MessageSquare className="w-4 h-4" />
                     Message
                   </button>
-                  <button
-                    onClick={() => handleDeleteContact(contact._id)}
-                    className="flex items-center justify-center px-3 py-2 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => setImportContact(contact)}
+                      className="flex items-center justify-center px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                      title="Import WhatsApp chat export"
+                    >
+                      <Upload className="w-4 h-4" />
+                    </button>
+                  )}
+                  {hasRole("supervisor") && (
+                    <button
+                      onClick={() => handleDeleteContact(contact._id)}
+                      className="flex items-center justify-center px-3 py-2 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
           </div>
         )}
 
+        {/* Loads the next page when it scrolls into view */}
+        <div ref={sentinelRef} className="h-1" />
+        {loadingMore && (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        )}
+
+        {importContact && (
+          <ChatImportModal contact={importContact} onClose={() => setImportContact(null)} />
+        )}
+
         {/* Add Contact Modal */}
         {showAddModal && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -239,9 +386,9 @@ const handleAddContact = async (e: FormEvent) => {
                     value={formData.phone}
                     onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
                     className="w-full px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
-                    placeholder="1234567890"
+                    placeholder="+1 415 555 2671"
                   />
-                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Include country code</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Include the country code, e.g. +91 98765 43210</p>
                 </div>
 
                 <div>
@@ -283,10 +430,15 @@ const handleAddContact = async (e: FormEvent) => {
                   />
                 </div>
 
+                {formError && <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>}
+
                 <div className="flex gap-3 pt-4">
                   <button
                     type="button"
-                    onClick={() => setShowAddModal(false)}
+                    onClick={() => {
+                      setShowAddModal(false);
+                      setFormError(null);
+                    }}
                     className="flex-1 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
                   >
                     Cancel
@@ -1,21 +1,64 @@
-import { useEffect, useState, FormEvent } from "react";
-import { Send, MessageCircle, Search, FileText, Zap, StickyNote } from "lucide-react";
+import { useEffect, useRef, useState, FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Send, MessageCircle, Search, FileText, Zap, StickyNote, Check, CheckCheck, AlertCircle, RotateCcw, Paperclip, X, Clock, Users, Reply, SmilePlus, Ban, ArrowDown } from "lucide-react";
 import Layout from "@/components/Layout";
+import MessageAttachment, { MessageMedia } from "@/components/MessageAttachment";
+import MessageSearch, { MessageSearchResult } from "@/components/MessageSearch";
+import AssignmentControl, { Actor, AssigneeAvatar } from "@/components/AssignmentControl";
+import TicketControl from "@/components/TicketControl";
+import OutboxButton from "@/components/OutboxButton";
+import VirtualList, { VirtualListHandle } from "@/components/VirtualList";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { usePaletteConversation } from "@/hooks/use-command-palette";
+import { useAuth } from "@/hooks/use-auth";
+import { DEFAULT_SESSION, useWhatsAppSessions } from "@/hooks/use-whatsapp-sessions";
+import { apiFetch } from "@/lib/api";
 
 interface Contact {
   _id: string;
   name: string;
   phone: string;
   unreadCount?: number;
+  sessionId?: string;
+  queryStatus?: string;
+  ticketId?: string;
+  assignedTo?: Actor | null;
+  chatType?: "individual" | "group";
+  participants?: { phone: string; name?: string; isAdmin?: boolean }[];
 }
 
 interface Conversation {
   contact: Contact;
   lastMessage?: {
     message: string;
+    type?: string;
     timestamp: string;
-  };
+    author?: MessageAuthor;
+  } | null;
+  sla?: { overdue: boolean; text: string; urgent: boolean } | null;
+}
+
+const CONVERSATIONS_PAGE_SIZE = 40;
+const MESSAGES_PAGE_SIZE = 50;
+
+interface MessageAuthor {
+  phone: string;
+  name?: string;
+}
+
+interface QuotedMessage {
+  messageId?: string;
+  whatsappId?: string;
+  message?: string;
+  type?: string;
+  direction?: "inbound" | "outbound";
+}
+
+interface Reaction {
+  emoji: string;
+  from?: string | null;
+  fromMe?: boolean;
 }
 
 interface Message {
@@ -23,17 +66,95 @@ interface Message {
   message: string;
   direction: "inbound" | "outbound";
   timestamp: string;
+  /** Agent who sent it from the app */
+  sentBy?: { userId: string; name: string };
+  whatsappId?: string;
+  quoted?: QuotedMessage;
+  reactions?: Reaction[];
+  editedAt?: string;
+  editHistory?: { message: string; editedAt: string }[];
+  deletedAt?: string;
+  status?: "queued" | "sending" | "sent" | "delivered" | "read" | "failed";
+  lastError?: string;
+  type?: "text" | "image" | "video" | "audio" | "document" | "sticker";
+  media?: MessageMedia;
+  sessionId?: string;
+  author?: MessageAuthor;
 }
 
+// Matches the server limit for WhatsApp media
+const MAX_ATTACHMENT_BYTES = 16 * 1024 * 1024;
+
+const MEDIA_LABELS: Record<string, string> = {
+  image: "📷 Photo",
+  video: "🎥 Video",
+  audio: "🎵 Audio",
+  document: "📄 Document",
+  sticker: "Sticker",
+};
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+const authorLabel = (author: MessageAuthor) => author.name || `+${author.phone}`;
+
+const messagePreview = (msg: { message: string; type?: string; author?: MessageAuthor }) => {
+  const text = msg.message || MEDIA_LABELS[msg.type || ""] || "";
+  return msg.author ? `${authorLabel(msg.author)}: ${text}` : text;
+};
+
+// Base64 contents of a file, without the data: URL prefix
+const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
 export default function Conversations() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [filteredConversations, setFilteredConversations] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  // The thread holds a window of the history: older and newer pages load on scroll
+  const [hasOlder, setHasOlder] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const [atLatest, setAtLatest] = useState(true);
+  const [jumpDate, setJumpDate] = useState("");
+  // Message opened from search, highlighted for a moment
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  const [searchMode, setSearchMode] = useState<"conversations" | "messages">("conversations");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const threadRef = useRef<VirtualListHandle>(null);
+  const threadLoadingRef = useRef(false);
+  const threadContactRef = useRef<string | null>(null);
   const [messageInput, setMessageInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [chatFilter, setChatFilter] = useState<"all" | "individual" | "group">("all");
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [inbox, setInbox] = useState<"mine" | "unassigned" | "all">("all");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Ignores responses for a list that was reloaded with other filters meanwhile
+  const listRequestRef = useRef(0);
+  const listEndRef = useRef<HTMLDivElement>(null);
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [reactingTo, setReactingTo] = useState<string | null>(null);
+  // Idempotency key of the message being composed, kept until the server accepts it
+  // so a double submit or a retry after a network error never sends twice
+  const sendKeyRef = useRef<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // WhatsApp numbers: only shown when more than one is set up
+  const { sessions } = useWhatsAppSessions();
+  const [sendingSession, setSendingSession] = useState(DEFAULT_SESSION);
+  const showSessions = sessions.length > 1;
+  const sessionLabel = (sessionId?: string) =>
+    sessions.find((s) => s.sessionId === (sessionId || DEFAULT_SESSION))?.label || sessionId || DEFAULT_SESSION;
 
   // Templates & AI
   const [templates, setTemplates] = useState<any[]>([]);
@@ -47,47 +168,241 @@ export default function Conversations() {
   const [showNotesModal, setShowNotesModal] = useState(false);
   const [noteContent, setNoteContent] = useState("");
   const { toast } = useToast();
+  const { user, hasRole } = useAuth();
+  // Read-only users see conversations without replying or marking them read
+  const canReply = hasRole("agent");
+
+  // Search on the server as the user types, without a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   useEffect(() => {
     loadConversations();
-    const interval = setInterval(loadConversations, 10000);
-    return () => clearInterval(interval);
-  }, []);
+  }, [debouncedQuery, chatFilter, overdueOnly, inbox]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const end = listEndRef.current;
+    if (!end || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMoreConversations();
+    }, { rootMargin: "200px" });
+    observer.observe(end);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
 
+  // Live updates pushed by the server
+  const patchContact = (contact: Contact) => {
+    setConversations((prev) => prev.map((conv) =>
+      conv.contact._id === contact._id ? { ...conv, contact: { ...conv.contact, ...contact } } : conv
+    ));
+    setSelectedConversation((prev) =>
+      prev && prev.contact._id === contact._id ? { ...prev, contact: { ...prev.contact, ...contact } } : prev
+    );
+  };
+
+  useRealtime({
+    "new-message": ({ message, contact }: { message: Message; contact: Contact }) => {
+      if (!contact) return;
+      setConversations((prev) => {
+        const existing = prev.find((conv) => conv.contact._id === contact._id);
+        const updated: Conversation = {
+          ...existing,
+          contact: { ...existing?.contact, ...contact },
+          lastMessage: {
+            message: message.message,
+            type: message.type,
+            timestamp: message.timestamp,
+            author: message.author?.phone ? message.author : undefined,
+          },
+          // Our reply stops the SLA clock
+          sla: message.direction === "outbound" ? null : existing?.sla,
+        };
+        return [updated, ...prev.filter((conv) => conv.contact._id !== contact._id)];
+      });
+
+      // Threads showing older history pick the message up on "Jump to latest"
+      if (selectedConversation?.contact._id === contact._id && !hasNewer) {
+        setMessages((prev) => prev.some((m) => m._id === message._id) ? prev : [...prev, message]);
+        if (message.direction === "inbound" && canReply) {
+          // The agent is looking at this thread, so the message is read straight away
+          apiFetch(`/api/contacts/${contact._id}/read`, { method: "POST" }).catch((err) =>
+            console.error("Failed to mark conversation read:", err)
+          );
+          requestSmartReplies(message.message, contact._id);
+        }
+      }
+    },
+    "message-updated": (message: Message) => {
+      setMessages((prev) => prev.map((m) => (m._id === message._id ? { ...m, ...message } : m)));
+    },
+    "contact-updated": patchContact,
+    open: () => loadConversations(),
+  });
+
+  // The server filters the pages; this keeps live arrivals to the same filters
   useEffect(() => {
     const filtered = conversations.filter((conv) =>
-      conv.contact.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      conv.contact.phone.includes(searchQuery)
+      (inbox === "all" ||
+        (inbox === "mine" ? conv.contact.assignedTo?.userId === user?._id : !conv.contact.assignedTo?.userId)) &&
+      (chatFilter === "all" || (conv.contact.chatType || "individual") === chatFilter) &&
+      (!overdueOnly || conv.sla?.overdue) &&
+      (conv.contact.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        conv.contact.phone.includes(searchQuery.replace(/\D/g, "") || searchQuery))
     );
     setFilteredConversations(filtered);
-  }, [searchQuery, conversations]);
+  }, [searchQuery, chatFilter, overdueOnly, inbox, conversations]);
+
+  const conversationsUrl = (cursor?: string) => {
+    const params = new URLSearchParams({ limit: String(CONVERSATIONS_PAGE_SIZE) });
+    if (debouncedQuery) params.set("q", debouncedQuery);
+    if (chatFilter !== "all") params.set("chatType", chatFilter);
+    if (overdueOnly) params.set("overdue", "true");
+    if (inbox === "mine") params.set("assigned", "me");
+    if (inbox === "unassigned") params.set("assigned", "none");
+    if (cursor) params.set("cursor", cursor);
+    return `/api/conversations?${params}`;
+  };
+
+  const validConversations = (data: { conversations?: Conversation[] }) =>
+    Array.isArray(data.conversations)
+      ? data.conversations.filter((conv: Conversation) => conv.contact && conv.contact._id)
+      : [];
 
   const loadConversations = async () => {
+    const request = ++listRequestRef.current;
     try {
       setLoading(true);
-      const response = await fetch("/api/conversations");
+      setNextCursor(null);
+      const response = await apiFetch(conversationsUrl());
       const data = await response.json();
-      const validConversations = Array.isArray(data)
-        ? data.filter((conv: Conversation) => conv.contact && conv.contact._id)
-        : [];
-      setConversations(validConversations);
+      if (request !== listRequestRef.current) return;
+      setConversations(validConversations(data));
+      setNextCursor(data.nextCursor || null);
     } catch (error) {
       console.error("Error loading conversations:", error);
     } finally {
-      setLoading(false);
+      if (request === listRequestRef.current) setLoading(false);
     }
   };
 
-  const loadMessages = async (contactId: string) => {
+  const loadMoreConversations = async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = listRequestRef.current;
     try {
-      const response = await fetch(`/api/messages/contact/${contactId}`);
+      setLoadingMore(true);
+      const response = await apiFetch(conversationsUrl(nextCursor));
       const data = await response.json();
-      const msgs = Array.isArray(data) ? data : [];
+      if (request !== listRequestRef.current) return;
+      const more = validConversations(data);
+      // A conversation that moved up with a new message is already in the list
+      setConversations((prev) => [
+        ...prev,
+        ...more.filter((conv) => !prev.some((p) => p.contact._id === conv.contact._id)),
+      ]);
+      setNextCursor(data.nextCursor || null);
+    } catch (error) {
+      console.error("Error loading more conversations:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const messagesUrl = (contactId: string, params: Record<string, string> = {}) =>
+    `/api/messages/contact/${contactId}?${new URLSearchParams({ limit: String(MESSAGES_PAGE_SIZE), ...params })}`;
+
+  // Replace the thread with one page: the latest, or the one around a date
+  const loadThread = async (contactId: string, params: Record<string, string> = {}) => {
+    threadContactRef.current = contactId;
+    threadLoadingRef.current = true;
+    try {
+      const response = await apiFetch(messagesUrl(contactId, params));
+      const data = await response.json();
+      if (threadContactRef.current !== contactId) return [];
+      const msgs: Message[] = Array.isArray(data.messages) ? data.messages : [];
       setMessages(msgs);
+      setHasOlder(Boolean(data.hasOlder));
+      setHasNewer(Boolean(data.hasNewer));
+      return msgs;
+    } finally {
+      threadLoadingRef.current = false;
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    const contactId = threadContactRef.current;
+    if (!contactId || !hasOlder || threadLoadingRef.current || messages.length === 0) return;
+    threadLoadingRef.current = true;
+    try {
+      const response = await apiFetch(messagesUrl(contactId, { before: messages[0]._id }));
+      const data = await response.json();
+      if (threadContactRef.current !== contactId) return;
+      const older: Message[] = Array.isArray(data.messages) ? data.messages : [];
+      setMessages((prev) => [...older.filter((m) => !prev.some((p) => p._id === m._id)), ...prev]);
+      setHasOlder(Boolean(data.hasOlder));
+    } catch (error) {
+      console.error("Error loading older messages:", error);
+    } finally {
+      threadLoadingRef.current = false;
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    const contactId = threadContactRef.current;
+    if (!contactId || !hasNewer || threadLoadingRef.current || messages.length === 0) return;
+    threadLoadingRef.current = true;
+    try {
+      const response = await apiFetch(messagesUrl(contactId, { after: messages[messages.length - 1]._id }));
+      const data = await response.json();
+      if (threadContactRef.current !== contactId) return;
+      const newer: Message[] = Array.isArray(data.messages) ? data.messages : [];
+      setMessages((prev) => [...prev, ...newer.filter((m) => !prev.some((p) => p._id === m._id))]);
+      setHasNewer(Boolean(data.hasNewer));
+    } catch (error) {
+      console.error("Error loading newer messages:", error);
+    } finally {
+      threadLoadingRef.current = false;
+    }
+  };
+
+  const jumpToLatest = async () => {
+    if (hasNewer && selectedConversation) {
+      await loadThread(selectedConversation.contact._id);
+    }
+    requestAnimationFrame(() => threadRef.current?.scrollToBottom());
+  };
+
+  const jumpToDate = async (value: string) => {
+    setJumpDate(value);
+    if (!value || !selectedConversation) return;
+    try {
+      // Midnight in the agent's timezone
+      const date = new Date(`${value}T00:00:00`);
+      const msgs = await loadThread(selectedConversation.contact._id, { around: date.toISOString() });
+      const target = msgs.find((m) => new Date(m.timestamp) >= date) || msgs[msgs.length - 1];
+      if (target) requestAnimationFrame(() => threadRef.current?.scrollToKey(target._id));
+    } catch (error) {
+      console.error("Error jumping to date:", error);
+    }
+  };
+
+  // The latest messages, or those around `focusMessageId` scrolled into view
+  const loadMessages = async (contactId: string, focusMessageId?: string) => {
+    try {
+      setJumpDate("");
+      setFocusedMessageId(focusMessageId || null);
+      const msgs = await loadThread(contactId, focusMessageId ? { around: focusMessageId } : {});
+      if (focusMessageId) {
+        requestAnimationFrame(() => threadRef.current?.scrollToKey(focusMessageId));
+      } else {
+        requestAnimationFrame(() => threadRef.current?.scrollToBottom());
+      }
 
       // Auto-generate smart replies for last inbound message (if any)
       const lastInbound = msgs.slice().reverse().find((m: Message) => m.direction === "inbound");
-      if (lastInbound) {
+      if (lastInbound && canReply) {
         requestSmartReplies(lastInbound.message, contactId);
       } else {
         setSmartReplies([]);
@@ -97,20 +412,22 @@ export default function Conversations() {
       loadNotes(contactId);
 
       // Mark conversation as read on the server and update local state
-      try {
-        await fetch(`/api/contacts/${contactId}/read`, { method: 'POST' });
-        setConversations((prev) => prev.map((conv) =>
-          conv.contact._id === contactId
-            ? { ...conv, contact: { ...conv.contact, unreadCount: 0 } }
-            : conv
-        ));
-        setFilteredConversations((prev) => prev.map((conv) =>
-          conv.contact._id === contactId
-            ? { ...conv, contact: { ...conv.contact, unreadCount: 0 } }
-            : conv
-        ));
-      } catch (err) {
-        console.error('Failed to mark conversation read:', err);
+      if (canReply) {
+        try {
+          await apiFetch(`/api/contacts/${contactId}/read`, { method: 'POST' });
+          setConversations((prev) => prev.map((conv) =>
+            conv.contact._id === contactId
+              ? { ...conv, contact: { ...conv.contact, unreadCount: 0 } }
+              : conv
+          ));
+          setFilteredConversations((prev) => prev.map((conv) =>
+            conv.contact._id === contactId
+              ? { ...conv, contact: { ...conv.contact, unreadCount: 0 } }
+              : conv
+          ));
+        } catch (err) {
+          console.error('Failed to mark conversation read:', err);
+        }
       }
 
     } catch (error) {
@@ -118,11 +435,55 @@ export default function Conversations() {
     }
   };
 
-  const handleSelectConversation = async (conversation: Conversation) => {
+  const handleSelectConversation = async (conversation: Conversation, focusMessageId?: string) => {
     setSelectedConversation(conversation);
-    await loadMessages(conversation.contact._id);
+    setSendingSession(conversation.contact.sessionId || DEFAULT_SESSION);
+    setReplyTo(null);
+    setReactingTo(null);
+    sendKeyRef.current = null;
+    await loadMessages(conversation.contact._id, focusMessageId);
+  };
+
+  // Open a conversation that may not be in the loaded pages, e.g. from a search result
+  const openConversation = async (contactId: string, focusMessageId?: string) => {
+    let conversation = conversations.find((conv) => conv.contact._id === contactId);
+    if (!conversation) {
+      try {
+        const response = await apiFetch(`/api/contacts/${contactId}`);
+        if (!response.ok) throw new Error("Contact not found");
+        conversation = { contact: await response.json() };
+      } catch (error) {
+        toast({ title: "Error", description: "Could not open that conversation", variant: "destructive" });
+        return;
+      }
+    }
+    await handleSelectConversation(conversation, focusMessageId);
   };
 
+  const openSearchResult = (result: MessageSearchResult) => {
+    if (result.contact) openConversation(result.contact._id, result._id);
+  };
+
+  // Links to a conversation or message: /conversations?contact=<id>&message=<id>
+  useEffect(() => {
+    const contactId = searchParams.get("contact");
+    if (!contactId) return;
+    openConversation(contactId, searchParams.get("message") || undefined);
+    setSearchParams({}, { replace: true });
+  }, [searchParams]);
+
+  // Ctrl+K actions on the open conversation
+  usePaletteConversation(selectedConversation && {
+    contact: selectedConversation.contact,
+    insertText: (text: string) => setMessageInput((s) => (s ? s + "\n" + text : text)),
+  });
+
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    const timer = setTimeout(() => setFocusedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [focusedMessageId]);
+
   // Templates & AI helpers
   useEffect(() => {
     loadTemplates();
@@ -131,7 +492,7 @@ export default function Conversations() {
   const loadTemplates = async () => {
     try {
       setTemplatesLoading(true);
-      const res = await fetch('/api/templates');
+      const res = await apiFetch('/api/templates');
       const data = await res.json();
       setTemplates(Array.isArray(data) ? data : []);
     } catch (err) {
@@ -144,7 +505,7 @@ export default function Conversations() {
   const requestSmartReplies = async (message: string, contactId?: string) => {
     try {
       setGeneratingReplies(true);
-      const res = await fetch('/api/ai/smart-reply', {
+      const res = await apiFetch('/api/ai/smart-reply', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ message, contactId }),
@@ -165,7 +526,7 @@ export default function Conversations() {
   const loadNotes = async (contactId: string) => {
     try {
       setNotesLoading(true);
-      const res = await fetch(`/api/notes/contact/${contactId}`);
+      const res = await apiFetch(`/api/notes/contact/${contactId}`);
       const data = await res.json();
       setNotes(Array.isArray(data) ? data : []);
     } catch (err) {
@@ -181,7 +542,7 @@ export default function Conversations() {
     if (!selectedConversation) return;
     try {
       const payload = { contactId: selectedConversation.contact._id, content: noteContent };
-      const res = await fetch('/api/notes', {
+      const res = await apiFetch('/api/notes', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
@@ -201,7 +562,7 @@ export default function Conversations() {
   const deleteNote = async (id: string) => {
     if (!confirm('Delete this note?')) return;
     try {
-      const res = await fetch(`/api/notes/${id}`, { method: 'DELETE' });
+      const res = await apiFetch(`/api/notes/${id}`, { method: 'DELETE' });
       if (res.ok) {
         if (selectedConversation) loadNotes(selectedConversation.contact._id);
         toast({ title: 'Note deleted' });
@@ -216,23 +577,43 @@ export default function Conversations() {
 
 const handleSendMessage = async (e: FormEvent) => {
     e.preventDefault();
-    if (!messageInput.trim() || !selectedConversation) return;
+    if ((!messageInput.trim() && !attachment) || !selectedConversation || sending) return;
+
+    if (!sendKeyRef.current) {
+      sendKeyRef.current = crypto.randomUUID();
+    }
 
     try {
       setSending(true);
-      const response = await fetch("/api/whatsapp/send", {
+      const media = attachment
+        ? {
+            mimeType: attachment.type || "application/octet-stream",
+            filename: attachment.name,
+            data: await readFileAsBase64(attachment),
+          }
+        : undefined;
+      const response = await apiFetch("/api/whatsapp/send", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "Idempotency-Key": sendKeyRef.current },
         body: JSON.stringify({
           phone: selectedConversation.contact.phone,
           message: messageInput,
           contactId: selectedConversation.contact._id,
+          media,
+          sessionId: sendingSession,
+          quotedMessageId: replyTo?._id,
         }),
       });
 
       if (response.ok) {
+        sendKeyRef.current = null;
         setMessageInput("");
+        setAttachment(null);
+        setReplyTo(null);
         loadMessages(selectedConversation.contact._id);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast({ title: "Unable to send message", description: data.error });
       }
     } catch (error) {
       console.error("Error sending message:", error);
@@ -241,6 +622,80 @@ const handleSendMessage = async (e: FormEvent) => {
     }
   };
 
+  const handleSelectAttachment = (file?: File) => {
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast({ title: "File too large", description: "Attachments can be up to 16 MB." });
+      return;
+    }
+    setAttachment(file);
+  };
+
+  const handleRetryMessage = async (messageId: string) => {
+    try {
+      const response = await apiFetch(`/api/whatsapp/messages/${messageId}/retry`, { method: "POST" });
+      const data = await response.json();
+      if (response.ok) {
+        setMessages((prev) => prev.map((m) => (m._id === messageId ? { ...m, ...data } : m)));
+      } else {
+        toast({ title: "Unable to resend message", description: data.error });
+      }
+    } catch (error) {
+      console.error("Error retrying message:", error);
+    }
+  };
+
+  const handleReact = async (messageId: string, emoji: string) => {
+    setReactingTo(null);
+    try {
+      const response = await apiFetch(`/api/whatsapp/messages/${messageId}/react`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emoji }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMessages((prev) => prev.map((m) => (m._id === messageId ? { ...m, ...data } : m)));
+      } else {
+        toast({ title: "Unable to react", description: data.error });
+      }
+    } catch (error) {
+      console.error("Error reacting to message:", error);
+    }
+  };
+
+  // Reactions grouped by emoji, e.g. 👍 2
+  const groupReactions = (reactions: Reaction[]) =>
+    reactions.reduce<{ emoji: string; count: number; mine: boolean }[]>((groups, reaction) => {
+      const group = groups.find((g) => g.emoji === reaction.emoji);
+      if (group) {
+        group.count++;
+        group.mine = group.mine || !!reaction.fromMe;
+      } else {
+        groups.push({ emoji: reaction.emoji, count: 1, mine: !!reaction.fromMe });
+      }
+      return groups;
+    }, []);
+
+  const quoteSender = (quoted: QuotedMessage) =>
+    quoted.direction === "outbound" ? "You" : selectedConversation?.contact.name || "Customer";
+
+  const renderStatus = (msg: Message) => {
+    switch (msg.status) {
+      case "read":
+        return <CheckCheck className="w-3.5 h-3.5 text-sky-200" aria-label="Read" />;
+      case "delivered":
+        return <CheckCheck className="w-3.5 h-3.5" aria-label="Delivered" />;
+      case "failed":
+        return <AlertCircle className="w-3.5 h-3.5 text-red-200" aria-label="Failed" />;
+      case "queued":
+      case "sending":
+        return <Clock className="w-3.5 h-3.5" aria-label="Waiting to send" />;
+      default:
+        return <Check className="w-3.5 h-3.5" aria-label="Sent" />;
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -269,20 +724,99 @@ const handleSendMessage = async (e: FormEvent) => {
         <div className="w-80 bg-white dark:bg-slate-800 border-r border-slate-200 dark:border-slate-700 flex flex-col">
           {/* Header */}
           <div className="p-6 border-b border-slate-200 dark:border-slate-700">
-            <h1 className="text-2xl font-bold text-slate-900 dark:text-white mb-4">Conversations</h1>
+            <div className="flex items-center justify-between mb-4">
+              <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Conversations</h1>
+              <OutboxButton />
+            </div>
+            <div className="flex gap-4 mb-4 border-b border-slate-200 dark:border-slate-700">
+              {([
+                ["mine", "Mine"],
+                ["unassigned", "Unassigned"],
+                ["all", "All"],
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setInbox(value)}
+                  className={`pb-2 -mb-px text-sm font-medium border-b-2 transition-colors ${
+                    inbox === value
+                      ? "border-emerald-500 text-emerald-700 dark:text-emerald-300"
+                      : "border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
               <input
                 type="text"
-                placeholder="Search conversations..."
+                placeholder={searchMode === "messages" ? "Search message text..." : "Search conversations..."}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full pl-10 pr-4 py-2 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white placeholder-slate-500 dark:placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
               />
             </div>
+            <div className="flex mt-3 bg-slate-100 dark:bg-slate-700 rounded-lg p-1">
+              {([
+                ["conversations", "Conversations"],
+                ["messages", "Messages"],
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setSearchMode(value)}
+                  className={`flex-1 px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                    searchMode === value
+                      ? "bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm"
+                      : "text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {searchMode === "conversations" && (
+            <div className="flex gap-2 mt-3">
+              {([
+                ["all", "All"],
+                ["individual", "Direct"],
+                ["group", "Groups"],
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setChatFilter(value)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    chatFilter === value
+                      ? "bg-emerald-600 text-white"
+                      : "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => setOverdueOnly((prev) => !prev)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                  overdueOnly
+                    ? "bg-red-600 text-white"
+                    : "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600"
+                }`}
+                title="Waiting for a reply longer than the SLA"
+              >
+                Overdue
+              </button>
+            </div>
+            )}
           </div>
 
-          {/* Conversations */}
+          {searchMode === "messages" ? (
+            <MessageSearch
+              query={debouncedQuery}
+              contactId={selectedConversation?.contact._id}
+              onOpen={openSearchResult}
+            />
+          ) : (
+          /* Conversations */
           <div className="flex-1 overflow-y-auto">
             {loading ? (
               <div className="flex items-center justify-center py-8">
@@ -309,29 +843,45 @@ const handleSendMessage = async (e: FormEvent) => {
                   }`}
                 >
                   <div className="flex items-center justify-between mb-1">
-                    <span className="font-medium text-slate-900 dark:text-white">
+                    <span className="font-medium text-slate-900 dark:text-white flex items-center gap-1.5">
+                      {conversation.contact.chatType === "group" && <Users className="w-4 h-4 text-slate-400" />}
                       {conversation.contact.name}
                     </span>
-                    {conversation.contact.unreadCount ? (
-                      <span className="bg-blue-500 text-white text-xs rounded-full px-2 py-1">
-                        {conversation.contact.unreadCount}
-                      </span>
-                    ) : null}
+                    <span className="flex items-center gap-1.5">
+                      {conversation.contact.unreadCount ? (
+                        <span className="bg-blue-500 text-white text-xs rounded-full px-2 py-1">
+                          {conversation.contact.unreadCount}
+                        </span>
+                      ) : null}
+                      {conversation.contact.assignedTo?.userId && <AssigneeAvatar actor={conversation.contact.assignedTo} />}
+                    </span>
                   </div>
                   {conversation.lastMessage && (
                     <>
                       <p className="text-sm text-slate-600 dark:text-slate-400 truncate">
-                        {conversation.lastMessage.message}
+                        {messagePreview(conversation.lastMessage)}
                       </p>
                       <p className="text-xs text-slate-500 dark:text-slate-500 mt-1">
                         {formatDate(conversation.lastMessage.timestamp)}
+                        {conversation.sla?.urgent && (
+                          <span className={`ml-2 ${conversation.sla.overdue ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"}`}>
+                            · {conversation.sla.text}
+                          </span>
+                        )}
                       </p>
                     </>
                   )}
                 </button>
               ))
             )}
+            <div ref={listEndRef} className="h-1" />
+            {loadingMore && (
+              <div className="flex items-center justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600"></div>
+              </div>
+            )}
           </div>
+          )}
         </div>
 
         {/* Conversation View */}
@@ -345,11 +895,29 @@ const handleSendMessage = async (e: FormEvent) => {
                     <h2 className="text-xl font-bold text-slate-900 dark:text-white">
                       {selectedConversation.contact.name}
                     </h2>
-                    <p className="text-sm text-slate-600 dark:text-slate-400">
-                      {selectedConversation.contact.phone}
+                    <p
+                      className="text-sm text-slate-600 dark:text-slate-400"
+                      title={selectedConversation.contact.participants
+                        ?.map((p) => p.name || `+${p.phone}`)
+                        .join(", ")}
+                    >
+                      {selectedConversation.contact.chatType === "group"
+                        ? `Group · ${selectedConversation.contact.participants?.length || 0} participants`
+                        : selectedConversation.contact.phone}
+                      {showSessions && ` · via ${sessionLabel(selectedConversation.contact.sessionId)}`}
                     </p>
                   </div>
                   <div className="flex items-center gap-2">
+                    <TicketControl contact={selectedConversation.contact} onChange={patchContact} />
+                    <AssignmentControl contact={selectedConversation.contact} onChange={patchContact} />
+                    <input
+                      type="date"
+                      value={jumpDate}
+                      max={new Date().toISOString().slice(0, 10)}
+                      onChange={(e) => jumpToDate(e.target.value)}
+                      className="px-3 py-2 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                      title="Jump to date"
+                    />
                     <button
                       onClick={() => setShowNotesModal(true)}
                       className="px-3 py-2 bg-slate-100 dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors text-sm flex items-center gap-2"
@@ -361,7 +929,7 @@ const handleSendMessage = async (e: FormEvent) => {
                 </div>
 
                 {/* Messages */}
-                <div className="flex-1 overflow-y-auto p-6 space-y-4 bg-gradient-to-b from-slate-50 to-white dark:from-slate-900 dark:to-slate-800">
+                <div className="flex-1 min-h-0 relative flex flex-col bg-gradient-to-b from-slate-50 to-white dark:from-slate-900 dark:to-slate-800">
                   {messages.length === 0 ? (
                     <div className="flex items-center justify-center h-full">
                       <div className="text-center">
@@ -370,45 +938,249 @@ const handleSendMessage = async (e: FormEvent) => {
                       </div>
                     </div>
                   ) : (
-                    messages.map((msg) => (
-                      <div
-                        key={msg._id}
-                        className={`flex ${msg.direction === "outbound" ? "justify-end" : "justify-start"}`}
-                      >
-                        <div
-                          className={`max-w-xs lg:max-w-md px-4 py-3 rounded-lg ${
-                            msg.direction === "outbound"
-                              ? "bg-emerald-500 text-white rounded-br-none"
-                              : "bg-slate-200 dark:bg-slate-700 text-slate-900 dark:text-white rounded-bl-none"
-                          }`}
-                        >
-                          <p className="break-words">{msg.message}</p>
-                          <p className={`text-xs mt-1 ${
-                            msg.direction === "outbound"
-                              ? "text-emerald-100"
-                              : "text-slate-500 dark:text-slate-400"
-                          }`}>
-                            {formatMessageTime(msg.timestamp)}
-                          </p>
-                        </div>
-                      </div>
-                    ))
+                    <VirtualList
+                      ref={threadRef}
+                      items={messages}
+                      getKey={(msg: Message) => msg._id}
+                      className="flex-1 min-h-0 px-6 pt-6"
+                      onReachTop={loadOlderMessages}
+                      onReachBottom={loadNewerMessages}
+                      onAtBottomChange={setAtLatest}
+                      renderItem={(msg: Message) => (
+                          <div
+                            className={`group flex items-center gap-2 pb-4 ${msg.direction === "outbound" ? "justify-end" : "justify-start"}`}
+                          >
+                            {/* Reply / react, shown on hover */}
+                            {!msg.deletedAt && (
+                              <div className={`relative flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity ${
+                                msg.direction === "outbound" ? "order-first" : "order-last"
+                              }`}>
+                                <button
+                                  onClick={() => setReplyTo(msg)}
+                                  className="p-1.5 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400"
+                                  title="Reply"
+                                >
+                                  <Reply className="w-4 h-4" />
+                                </button>
+                                {msg.whatsappId && (
+                                  <button
+                                    onClick={() => setReactingTo(reactingTo === msg._id ? null : msg._id)}
+                                    className="p-1.5 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400"
+                                    title="React"
+                                  >
+                                    <SmilePlus className="w-4 h-4" />
+                                  </button>
+                                )}
+                                {reactingTo === msg._id && (
+                                  <div className="absolute bottom-full mb-1 flex gap-1 px-2 py-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full shadow-lg z-10">
+                                    {QUICK_REACTIONS.map((emoji) => {
+                                      const mine = msg.reactions?.some((r) => r.fromMe && r.emoji === emoji);
+                                      return (
+                                        <button
+                                          key={emoji}
+                                          onClick={() => handleReact(msg._id, mine ? "" : emoji)}
+                                          className={`text-lg px-1 rounded hover:scale-125 transition-transform ${mine ? "bg-emerald-100 dark:bg-emerald-900/40" : ""}`}
+                                          title={mine ? "Remove reaction" : undefined}
+                                        >
+                                          {emoji}
+                                        </button>
+                                      );
+                                    })}
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                            <div className="max-w-xs lg:max-w-md">
+                              <div
+                                className={`px-4 py-3 rounded-lg transition-shadow ${
+                                  msg.direction === "outbound"
+                                    ? "bg-emerald-500 text-white rounded-br-none"
+                                    : "bg-slate-200 dark:bg-slate-700 text-slate-900 dark:text-white rounded-bl-none"
+                                } ${msg._id === focusedMessageId ? "ring-2 ring-amber-400 ring-offset-2 dark:ring-offset-slate-800" : ""}`}
+                              >
+                                {msg.direction === "inbound" && msg.author && (
+                                  <p className="text-xs font-semibold text-emerald-700 dark:text-emerald-400 mb-1">
+                                    {authorLabel(msg.author)}
+                                  </p>
+                                )}
+                                {msg.quoted && (
+                                  <div className={`mb-2 px-3 py-2 rounded border-l-4 text-sm ${
+                                    msg.direction === "outbound"
+                                      ? "bg-emerald-600/60 border-emerald-200"
+                                      : "bg-slate-300/60 dark:bg-slate-600/60 border-emerald-500"
+                                  }`}>
+                                    <p className="text-xs font-semibold">{msg.quoted.direction ? quoteSender(msg.quoted) : "Earlier message"}</p>
+                                    <p className="truncate opacity-90">
+                                      {msg.quoted.message || MEDIA_LABELS[msg.quoted.type || ""] || "Message not available"}
+                                    </p>
+                                  </div>
+                                )}
+                                {msg.deletedAt ? (
+                                  <p className="italic opacity-80 flex items-center gap-1" title={msg.message ? `Original: ${msg.message}` : undefined}>
+                                    <Ban className="w-3.5 h-3.5" />
+                                    This message was deleted
+                                  </p>
+                                ) : (
+                                  <>
+                                    {msg.type && msg.type !== "text" && (
+                                      <div className={msg.message ? "mb-2" : ""}>
+                                        <MessageAttachment
+                                          messageId={msg._id}
+                                          type={msg.type}
+                                          media={msg.media}
+                                          outbound={msg.direction === "outbound"}
+                                        />
+                                      </div>
+                                    )}
+                                    {msg.message && <p className="break-words">{msg.message}</p>}
+                                  </>
+                                )}
+                                <p className={`text-xs mt-1 flex items-center justify-end gap-1 ${
+                                  msg.direction === "outbound"
+                                    ? "text-emerald-100"
+                                    : "text-slate-500 dark:text-slate-400"
+                                }`}>
+                                  {showSessions && <span className="mr-1">{sessionLabel(msg.sessionId)} ·</span>}
+                                  {msg.editedAt && !msg.deletedAt && (
+                                    <span
+                                      className="mr-1 italic"
+                                      title={msg.editHistory?.length ? `Before: ${msg.editHistory[msg.editHistory.length - 1].message}` : undefined}
+                                    >
+                                      edited
+                                    </span>
+                                  )}
+                                  {msg.sentBy && msg.sentBy.userId !== user?._id && <span className="mr-1">{msg.sentBy.name} ·</span>}
+                                  {formatMessageTime(msg.timestamp)}
+                                  {msg.direction === "outbound" && renderStatus(msg)}
+                                </p>
+                                {msg.direction === "outbound" && msg.status === "failed" && (
+                                  <button
+                                    onClick={() => handleRetryMessage(msg._id)}
+                                    title={msg.lastError}
+                                    className="mt-2 flex items-center gap-1 text-xs font-medium text-white/90 hover:text-white underline"
+                                  >
+                                    <RotateCcw className="w-3 h-3" />
+                                    Not delivered — retry
+                                  </button>
+                                )}
+                              </div>
+                              {msg.reactions && msg.reactions.length > 0 && (
+                                <div className={`-mt-2 flex gap-1 ${msg.direction === "outbound" ? "justify-end" : "justify-start"}`}>
+                                  {groupReactions(msg.reactions).map((reaction) => (
+                                    <span
+                                      key={reaction.emoji}
+                                      className={`px-1.5 py-0.5 text-xs rounded-full border shadow-sm ${
+                                        reaction.mine
+                                          ? "bg-emerald-50 dark:bg-emerald-900/40 border-emerald-300 dark:border-emerald-700"
+                                          : "bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-600"
+                                      }`}
+                                    >
+                                      {reaction.emoji}
+                                      {reaction.count > 1 && <span className="ml-0.5 text-slate-600 dark:text-slate-300">{reaction.count}</span>}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                      )}
+                    />
+                  )}
+                  {(!atLatest || hasNewer) && messages.length > 0 && (
+                    <button
+                      onClick={jumpToLatest}
+                      className="absolute bottom-4 right-6 flex items-center gap-1 px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-full shadow-md text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-600"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                      Jump to latest
+                    </button>
                   )}
                 </div>
 
                 {/* Input */}
+                {!canReply ? (
+                  <p className="p-6 border-t border-slate-200 dark:border-slate-700 text-sm text-center text-slate-500 dark:text-slate-400">
+                    You have read-only access to conversations
+                  </p>
+                ) : (
                 <form onSubmit={handleSendMessage} className="p-6 border-t border-slate-200 dark:border-slate-700">
+                  {replyTo && (
+                    <div className="mb-3 flex items-start gap-3 px-3 py-2 bg-slate-100 dark:bg-slate-700 border-l-4 border-emerald-500 rounded-lg text-sm">
+                      <Reply className="w-4 h-4 mt-0.5 text-emerald-600 dark:text-emerald-400" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-semibold text-emerald-700 dark:text-emerald-400">
+                          Replying to {replyTo.direction === "outbound" ? "yourself" : replyTo.author ? authorLabel(replyTo.author) : selectedConversation.contact.name}
+                        </p>
+                        <p className="truncate text-slate-700 dark:text-slate-200">{messagePreview({ message: replyTo.message, type: replyTo.type })}</p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setReplyTo(null)}
+                        className="text-slate-500 hover:text-red-500"
+                        title="Cancel reply"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                  {attachment && (
+                    <div className="mb-3 inline-flex items-center gap-2 px-3 py-2 bg-slate-100 dark:bg-slate-700 rounded-lg text-sm text-slate-700 dark:text-slate-200">
+                      <Paperclip className="w-4 h-4" />
+                      <span className="max-w-xs truncate">{attachment.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => setAttachment(null)}
+                        className="text-slate-500 hover:text-red-500"
+                        title="Remove attachment"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
                   <div className="flex gap-3">
+                    {showSessions && (
+                      <select
+                        value={sendingSession}
+                        onChange={(e) => setSendingSession(e.target.value)}
+                        className="px-3 py-3 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        title="Send from"
+                      >
+                        {sessions.map((session) => (
+                          <option key={session.sessionId} value={session.sessionId}>
+                            {session.label}
+                            {session.connected ? "" : " (offline)"}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      className="hidden"
+                      accept="image/*,video/*,audio/*,application/pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.csv,.zip"
+                      onChange={(e) => {
+                        handleSelectAttachment(e.target.files?.[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      className="px-3 py-3 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-600 dark:text-slate-300 rounded-lg transition-colors"
+                      title="Attach a file"
+                    >
+                      <Paperclip className="w-4 h-4" />
+                    </button>
                     <input
                       type="text"
                       value={messageInput}
                       onChange={(e) => setMessageInput(e.target.value)}
-                      placeholder="Type a message..."
+                      placeholder={attachment ? "Add a caption..." : "Type a message..."}
                       className="flex-1 px-4 py-3 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white placeholder-slate-500 dark:placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
                     />
                     <button
                       type="submit"
-                      disabled={!messageInput.trim() || sending}
+                      disabled={(!messageInput.trim() && !attachment) || sending}
                       className="px-4 py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
                     >
                       <Send className="w-4 h-4" />
@@ -421,6 +1193,7 @@ const handleSendMessage = async (e: FormEvent) => {
                     </div>
                   </div>
                 </form>
+                )}
               </div>
 
 {/* Right Panel: AI & Templates */}
@@ -614,6 +1387,7 @@ const handleSendMessage = async (e: FormEvent) => {
                       <button onClick={() => setShowNotesModal(false)} className="text-sm text-slate-500">Close</button>
                     </div>
 
+                    {canReply && (
                     <form onSubmit={addNote} className="mb-4">
                       <textarea value={noteContent} onChange={(e) => setNoteContent(e.target.value)} placeholder="Write a note..." className="w-full px-4 py-3 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500" rows={3} />
                       <div className="mt-3 flex gap-2">
@@ -621,6 +1395,7 @@ const handleSendMessage = async (e: FormEvent) => {
                         <button type="submit" className="px-4 py-2 bg-emerald-600 text-white rounded-lg">Add Note</button>
                       </div>
                     </form>
+                    )}
 
                     <div className="space-y-3">
                       {notesLoading ? (
@@ -632,11 +1407,13 @@ const handleSendMessage = async (e: FormEvent) => {
                           <div key={n._id} className="p-3 border rounded-md border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900">
                             <div className="flex items-start justify-between">
                               <div className="text-sm text-slate-800 dark:text-slate-200">{n.content}</div>
-                              <div className="text-xs text-slate-400">
-                                <button onClick={() => deleteNote(n._id)} className="text-red-500">Delete</button>
-                              </div>
+                              {(n.authorId === user?._id || hasRole("supervisor")) && (
+                                <div className="text-xs text-slate-400">
+                                  <button onClick={() => deleteNote(n._id)} className="text-red-500">Delete</button>
+                                </div>
+                              )}
                             </div>
-                            <div className="text-xs text-slate-400 mt-2">{new Date(n.createdAt).toLocaleString()}</div>
+                            <div className="text-xs text-slate-400 mt-2">{n.author} · {new Date(n.createdAt).toLocaleString()}</div>
                           </div>
                         ))
                       )}
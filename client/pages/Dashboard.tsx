@@ -2,6 +2,7 @@ import { useEffect, useState, ReactNode } from "react";
 import { Users, MessageSquare, ArrowDownRight, ArrowUpRight } from "lucide-react";
 import CountUp from "react-countup";
 import Layout from "@/components/Layout";
+import { apiFetch } from "@/lib/api";
 
 interface Stats {
   totalContacts: number;
@@ -41,9 +42,9 @@ export default function Dashboard() {
       setLoading(true);
 
       const [statsRes, contactsRes, messagesRes] = await Promise.all([
-        fetch("/api/messages/stats/summary"),
-        fetch("/api/contacts"),
-        fetch("/api/messages"),
+        apiFetch("/api/messages/stats/summary"),
+        apiFetch("/api/contacts?limit=1"),
+        apiFetch("/api/messages"),
       ]);
 
       const statsData = await statsRes.json();
@@ -51,7 +52,7 @@ export default function Dashboard() {
       const messagesData = await messagesRes.json();
 
       setStats({
-        totalContacts: contactsData.length || 0,
+        totalContacts: contactsData.total || 0,
         totalMessages: statsData.totalMessages || 0,
         inboundMessages: statsData.inboundMessages || 0,
         outboundMessages: statsData.outboundMessages || 0,
@@ -0,0 +1,84 @@
+import { FormEvent, useState } from "react";
+import { Location, Navigate, useLocation, useNavigate } from "react-router-dom";
+import { LogIn } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function Login() {
+  const { user, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Back to the page that asked for sign in
+  const from = (location.state as { from?: Location } | null)?.from;
+  const destination = from ? `${from.pathname}${from.search || ""}` : "/";
+
+  if (user) return <Navigate to={destination} replace />;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      await login(email, password);
+      navigate(destination, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-900 dark:to-slate-800 flex items-center justify-center px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-8"
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-emerald-400 to-teal-600 flex items-center justify-center text-white font-bold text-lg">
+            W
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-slate-900 dark:text-white">WhatsConnect</h1>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Sign in to continue</p>
+          </div>
+        </div>
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Email</label>
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          autoComplete="username"
+          autoFocus
+          required
+          className="w-full mb-4 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Password</label>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          required
+          className="w-full mb-4 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors"
+        >
+          <LogIn className="w-4 h-4" />
+          {submitting ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
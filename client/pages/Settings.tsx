@@ -1,17 +1,29 @@
-import { useEffect, useState } from "react";
-import { Smartphone, Palette, HelpCircle, RefreshCw, RotateCcw } from "lucide-react";
+import { useEffect, useState, FormEvent } from "react";
+import { Palette, HelpCircle, Plus, KeyRound } from "lucide-react";
 import Layout from "@/components/Layout";
+import SimulatorPanel from "@/components/SimulatorPanel";
+import WhatsAppConnectionCard from "@/components/WhatsAppConnectionCard";
+import ConnectionDiagnostics from "@/components/ConnectionDiagnostics";
+import AssignmentSettingsCard from "@/components/AssignmentSettingsCard";
+import { useWhatsAppSessions } from "@/hooks/use-whatsapp-sessions";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiFetch } from "@/lib/api";
 
 export default function Settings() {
-  const [connectionStatus, setConnectionStatus] = useState<"connected" | "connecting" | "disconnected">("connecting");
   const [darkMode, setDarkMode] = useState(false);
-  const [qrCode, setQrCode] = useState<string | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [newLabel, setNewLabel] = useState("");
+  const [adding, setAdding] = useState(false);
+  const { sessions, reload } = useWhatsAppSessions();
+  const { toast } = useToast();
+  const { user, hasRole } = useAuth();
+  // WhatsApp numbers (QR codes, logins) are managed by admins
+  const isAdmin = hasRole("admin");
+  const [passwords, setPasswords] = useState({ currentPassword: "", newPassword: "" });
+  const transport = sessions[0]?.transport || null;
 
   useEffect(() => {
     checkTheme();
-    checkWhatsAppStatus();
-    loadQRCode();
   }, []);
 
   const checkTheme = () => {
@@ -19,75 +31,72 @@ export default function Settings() {
     setDarkMode(isDark);
   };
 
-  const checkWhatsAppStatus = async () => {
+  const handleThemeToggle = () => {
+    const html = document.documentElement;
+    const isDark = html.classList.toggle("dark");
+    setDarkMode(isDark);
+    localStorage.setItem("theme", isDark ? "dark" : "light");
+  };
+
+  const handleAddNumber = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.trim()) return;
+
     try {
-      const response = await fetch("/api/whatsapp/status");
+      setAdding(true);
+      const response = await apiFetch("/api/whatsapp/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label: newLabel.trim() }),
+      });
       const data = await response.json();
-      setConnectionStatus(data.connected ? "connected" : data.hasQR ? "connecting" : "disconnected");
+      if (response.ok) {
+        setNewLabel("");
+        reload();
+      } else {
+        toast({ title: "Unable to add number", description: data.error });
+      }
     } catch (error) {
-      console.error("Error checking WhatsApp status:", error);
-      setConnectionStatus("disconnected");
+      console.error("Error adding WhatsApp number:", error);
+    } finally {
+      setAdding(false);
     }
   };
 
-  const loadQRCode = async () => {
+  const handleRemoveNumber = async (sessionId: string) => {
+    const session = sessions.find((s) => s.sessionId === sessionId);
+    if (!confirm(`Log out and remove "${session?.label || sessionId}"? Its conversations are kept.`)) return;
+
     try {
-      const response = await fetch("/api/whatsapp/qr?format=image");
+      const response = await apiFetch(`/api/whatsapp/sessions/${encodeURIComponent(sessionId)}`, { method: "DELETE" });
       const data = await response.json();
-      if (data.qrImage) {
-        setQrCode(data.qrImage);
+      if (!response.ok) {
+        toast({ title: "Unable to remove number", description: data.error });
       }
     } catch (error) {
-      console.error("Error loading QR code:", error);
+      console.error("Error removing WhatsApp number:", error);
     }
   };
 
-  const handleThemeToggle = () => {
-    const html = document.documentElement;
-    const isDark = html.classList.toggle("dark");
-    setDarkMode(isDark);
-    localStorage.setItem("theme", isDark ? "dark" : "light");
-  };
-
-  const handleReconnect = async () => {
+  const handleChangePassword = async (e: FormEvent) => {
+    e.preventDefault();
     try {
-      setLoading(true);
-      const response = await fetch("/api/whatsapp/reconnect", { method: "POST" });
+      const response = await apiFetch("/api/auth/me/password", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(passwords),
+      });
+      const data = await response.json();
       if (response.ok) {
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-        checkWhatsAppStatus();
-        loadQRCode();
+        setPasswords({ currentPassword: "", newPassword: "" });
+        toast({ title: "Password changed", description: "Other devices have been signed out" });
+      } else {
+        toast({ title: "Unable to change password", description: data.error });
       }
     } catch (error) {
-      console.error("Error reconnecting:", error);
-    } finally {
-      setLoading(false);
+      console.error("Error changing password:", error);
     }
   };
-const handleDisconnect = async () => {
-  try {
-    setLoading(true);
-
-    const response = await fetch("/api/whatsapp/disconnect", {
-      method: "POST",
-    });
-
-    if (response.ok) {
-      setConnectionStatus("disconnected");
-      setQrCode(null);
-
-      // Reload QR after logout
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      await loadQRCode();
-    }
-  } catch (error) {
-    console.error("Error disconnecting WhatsApp:", error);
-  } finally {
-    setLoading(false);
-  }
-};
-
-  
 
   return (
     <Layout>
@@ -99,124 +108,94 @@ const handleDisconnect = async () => {
         </div>
 
         <div className="max-w-2xl space-y-6">
-          {/* WhatsApp Connection */}
-          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
-            <div className="flex items-center gap-3 mb-6">
-              <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
-                <Smartphone className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
-              </div>
-              <h2 className="text-xl font-semibold text-slate-900 dark:text-white">WhatsApp Connection</h2>
+          {isAdmin && (
+          <>
+          {/* WhatsApp Connections */}
+          {sessions.map((session) => (
+            <div key={session.sessionId}>
+              <WhatsAppConnectionCard session={session} onRemove={handleRemoveNumber} />
             </div>
+          ))}
 
-            {/* Status Card */}
-            <div className={`p-4 rounded-lg border-l-4 mb-6 ${
-              connectionStatus === "connected"
-                ? "bg-emerald-50 dark:bg-emerald-900/20 border-emerald-500"
-                : connectionStatus === "connecting"
-                ? "bg-amber-50 dark:bg-amber-900/20 border-amber-500"
-                : "bg-red-50 dark:bg-red-900/20 border-red-500"
-            }`}>
-              <div className="flex items-center gap-3 mb-2">
-                <div className={`w-3 h-3 rounded-full animate-pulse ${
-                  connectionStatus === "connected"
-                    ? "bg-emerald-500"
-                    : connectionStatus === "connecting"
-                    ? "bg-amber-500"
-                    : "bg-red-500"
-                }`} />
-                <span className={`font-semibold ${
-                  connectionStatus === "connected"
-                    ? "text-emerald-700 dark:text-emerald-300"
-                    : connectionStatus === "connecting"
-                    ? "text-amber-700 dark:text-amber-300"
-                    : "text-red-700 dark:text-red-300"
-                }`}>
-                  {connectionStatus === "connected"
-                    ? "WhatsApp Connected ✓"
-                    : connectionStatus === "connecting"
-                    ? "Waiting for Connection"
-                    : "Not Connected"}
-                </span>
-              </div>
-              <p className={`text-sm ${
-                connectionStatus === "connected"
-                  ? "text-emerald-600 dark:text-emerald-400"
-                  : connectionStatus === "connecting"
-                  ? "text-amber-600 dark:text-amber-400"
-                  : "text-red-600 dark:text-red-400"
-              }`}>
-                {connectionStatus === "connected"
-                  ? "Your WhatsApp account is ready to use. You can start sending and receiving messages."
-                  : connectionStatus === "connecting"
-                  ? "Scan the QR code below with your phone to complete the connection."
-                  : "Go through the steps below to connect your WhatsApp account."}
-              </p>
+          {/* Add another number */}
+          <form
+            onSubmit={handleAddNumber}
+            className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6"
+          >
+            <h3 className="font-semibold text-slate-900 dark:text-white mb-1">Add another WhatsApp number</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+              Each number gets its own QR code, for example separate Sales and Support lines.
+            </p>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                placeholder="Label, e.g. Sales"
+                className="flex-1 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <button
+                type="submit"
+                disabled={!newLabel.trim() || adding}
+                className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add number
+              </button>
             </div>
+          </form>
 
-            {/* QR Code */}
-            {connectionStatus !== "connected" && (
-              <div className="mb-6">
-                <h3 className="font-semibold text-slate-900 dark:text-white mb-4">QR Code</h3>
-                <div className="flex justify-center p-6 bg-slate-50 dark:bg-slate-700 rounded-lg border border-slate-200 dark:border-slate-600">
-                  {qrCode ? (
-                    <img src={qrCode} alt="WhatsApp QR Code" className="max-w-xs w-full" />
-                  ) : (
-                    <div className="text-center">
-                      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600 mx-auto mb-3"></div>
-                      <p className="text-slate-500 dark:text-slate-400">Loading QR code...</p>
-                    </div>
-                  )}
-                </div>
-              </div>
-            )}
+          {/* Connection history and health */}
+          {sessions.length > 0 && <ConnectionDiagnostics sessions={sessions} />}
 
-            {/* Instructions */}
-            {connectionStatus !== "connected" && (
-              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-6">
-                <h4 className="font-semibold text-blue-900 dark:text-blue-300 mb-3 flex items-center gap-2">
-                  <HelpCircle className="w-4 h-4" />
-                  How to Connect
-                </h4>
-                <ol className="space-y-2 text-sm text-blue-800 dark:text-blue-200">
-                  <li>1. Open WhatsApp on your phone</li>
-                  <li>2. Go to Settings → Linked Devices</li>
-                  <li>3. Tap "Link a Device"</li>
-                  <li>4. Scan the QR code shown above</li>
-                  <li>5. Wait for the connection to complete</li>
-                </ol>
-                <p className="text-xs text-blue-700 dark:text-blue-300 mt-3 font-medium">
-                  💡 You only need to scan once. Your WhatsApp will stay connected automatically!
-                </p>
-              </div>
-            )}
+          {/* Offline simulator */}
+          {transport === "simulator" && <SimulatorPanel />}
+          </>
+          )}
 
-            {/* Action Buttons */}
-            <div className="flex gap-3">
-             {connectionStatus === "connected" && (
-  <button
-    onClick={handleDisconnect}
-    disabled={loading}
-    className="flex-1 flex items-center justify-center gap-2 px-4 py-3
-      bg-red-600 hover:bg-red-700 disabled:bg-slate-400
-      text-white rounded-lg font-medium transition-colors"
-  >
-    <RotateCcw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
-    Disconnect WhatsApp
-  </button>
-)}
+          {/* Who new conversations go to */}
+          {hasRole("supervisor") && <AssignmentSettingsCard />}
 
-              {connectionStatus !== "connected" && (
-                <button
-                  onClick={handleReconnect}
-                  disabled={loading}
-                  className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors"
-                >
-                  <RotateCcw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
-                  Reconnect
-                </button>
-              )}
+          {/* Account */}
+          <form
+            onSubmit={handleChangePassword}
+            className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6"
+          >
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-2 bg-emerald-100 dark:bg-emerald-900/30 rounded-lg">
+                <KeyRound className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white">Account</h2>
+                <p className="text-sm text-slate-600 dark:text-slate-400">{user?.email} · {user?.role}</p>
+              </div>
             </div>
-          </div>
+            <div className="flex gap-3">
+              <input
+                type="password"
+                value={passwords.currentPassword}
+                onChange={(e) => setPasswords({ ...passwords, currentPassword: e.target.value })}
+                placeholder="Current password"
+                autoComplete="current-password"
+                className="flex-1 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <input
+                type="password"
+                value={passwords.newPassword}
+                onChange={(e) => setPasswords({ ...passwords, newPassword: e.target.value })}
+                placeholder="New password"
+                autoComplete="new-password"
+                className="flex-1 px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              <button
+                type="submit"
+                disabled={!passwords.currentPassword || !passwords.newPassword}
+                className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg font-medium transition-colors"
+              >
+                Change
+              </button>
+            </div>
+          </form>
 
           {/* Theme Settings */}
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
@@ -2,6 +2,7 @@ import { useEffect, useState, FormEvent } from "react";
 import { Plus, Edit, Trash2, FileText } from "lucide-react";
 import Layout from "@/components/Layout";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { api } from "@/lib/api";
 
 interface Template {
@@ -24,6 +25,8 @@ export default function Templates() {
   const [saving, setSaving] = useState(false);
 
   const { toast } = useToast();
+  // Agents use templates; supervisors and admins maintain them
+  const canManage = useAuth().hasRole("supervisor");
 
   // -----------------------------
   // Load templates
@@ -140,13 +143,15 @@ export default function Templates() {
             </p>
           </div>
 
-          <button
-            onClick={openNew}
-            className="flex items-center gap-2 px-4 py-3 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            New Template
-          </button>
+          {canManage && (
+            <button
+              onClick={openNew}
+              className="flex items-center gap-2 px-4 py-3 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New Template
+            </button>
+          )}
         </div>
 
         {/* Loading */}
@@ -163,13 +168,15 @@ export default function Templates() {
             <p className="text-slate-500 mb-6">
               Create templates to save time composing messages
             </p>
-            <button
-              onClick={openNew}
-              className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg"
-            >
-              <Plus className="w-4 h-4" />
-              New Template
-            </button>
+            {canManage && (
+              <button
+                onClick={openNew}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg"
+              >
+                <Plus className="w-4 h-4" />
+                New Template
+              </button>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -185,14 +192,16 @@ export default function Templates() {
                       {t.category || "General"}
                     </p>
                   </div>
-                  <div className="flex gap-2">
-                    <button onClick={() => openEdit(t)}>
-                      <Edit className="w-4 h-4" />
-                    </button>
-                    <button onClick={() => handleDelete(t._id)}>
-                      <Trash2 className="w-4 h-4 text-red-500" />
-                    </button>
-                  </div>
+                  {canManage && (
+                    <div className="flex gap-2">
+                      <button onClick={() => openEdit(t)}>
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(t._id)}>
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 <p className="mt-4 text-sm whitespace-pre-line">
@@ -0,0 +1,300 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Clock, KeyRound, Plus, UserCog } from "lucide-react";
+import Layout from "@/components/Layout";
+import { AuthUser, Role, ROLES, Shift, useAuth } from "@/hooks/use-auth";
+import AvailabilityDot from "@/components/AvailabilityDot";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api";
+
+const ROLE_LABELS: Record<Role, string> = {
+  "read-only": "Read-only",
+  agent: "Agent",
+  supervisor: "Supervisor",
+  admin: "Admin",
+};
+
+const inputClassName =
+  "px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/** Weekly working hours of a user, one shift per day; none means always on shift */
+function ShiftEditor({ user, onSave }: { user: AuthUser; onSave: (changes: { shifts: Shift[]; timezone: string }) => void }) {
+  const [timezone, setTimezone] = useState(user.timezone && user.timezone !== "UTC" ? user.timezone : browserTimezone());
+  const [days, setDays] = useState(() =>
+    DAYS.map((_, day) => {
+      const shift = user.shifts?.find((s) => s.day === day);
+      return { enabled: Boolean(shift), start: shift?.start || "09:00", end: shift?.end || "17:00" };
+    }),
+  );
+
+  const updateDay = (day: number, changes: Partial<(typeof days)[number]>) =>
+    setDays((prev) => prev.map((d, i) => (i === day ? { ...d, ...changes } : d)));
+
+  const handleSave = () =>
+    onSave({
+      timezone,
+      shifts: days.flatMap((d, day) => (d.enabled ? [{ day, start: d.start, end: d.end }] : [])),
+    });
+
+  return (
+    <div className="px-4 pb-4 space-y-2">
+      <label className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-300">
+        Time zone
+        <input type="text" value={timezone} onChange={(e) => setTimezone(e.target.value)} className={`${inputClassName} py-1`} />
+      </label>
+      {DAYS.map((name, day) => (
+        <div key={name} className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-300">
+          <label className="flex items-center gap-2 w-32">
+            <input type="checkbox" checked={days[day].enabled} onChange={(e) => updateDay(day, { enabled: e.target.checked })} />
+            {name}
+          </label>
+          <input
+            type="time"
+            value={days[day].start}
+            disabled={!days[day].enabled}
+            onChange={(e) => updateDay(day, { start: e.target.value })}
+            className={`${inputClassName} py-1 disabled:opacity-50`}
+          />
+          –
+          <input
+            type="time"
+            value={days[day].end}
+            disabled={!days[day].enabled}
+            onChange={(e) => updateDay(day, { end: e.target.value })}
+            className={`${inputClassName} py-1 disabled:opacity-50`}
+          />
+        </div>
+      ))}
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        A shift ending before it starts runs past midnight. Without any shift the user is always on shift.
+      </p>
+      <button
+        onClick={handleSave}
+        className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg text-sm font-medium transition-colors"
+      >
+        Save shifts
+      </button>
+    </div>
+  );
+}
+
+export default function Users() {
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState({ name: "", email: "", role: "agent" as Role, password: "" });
+  const [formError, setFormError] = useState<string | null>(null);
+  const [editingShifts, setEditingShifts] = useState<string | null>(null);
+  const { user: me } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const response = await apiFetch("/api/users");
+      const data = await response.json();
+      setUsers(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Error loading users:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      const response = await apiFetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setFormError(data.error || "Could not create the user");
+        return;
+      }
+      setUsers((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      setForm({ name: "", email: "", role: "agent", password: "" });
+    } catch (error) {
+      console.error("Error creating user:", error);
+    }
+  };
+
+  const updateUser = async (id: string, changes: Partial<AuthUser> & { password?: string }) => {
+    try {
+      const response = await apiFetch(`/api/users/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ title: "Could not update the user", description: data.error, variant: "destructive" });
+        return;
+      }
+      setUsers((prev) => prev.map((u) => (u._id === id ? data : u)));
+      return data;
+    } catch (error) {
+      console.error("Error updating user:", error);
+    }
+  };
+
+  const handleResetPassword = async (user: AuthUser) => {
+    const password = prompt(`New password for ${user.name} (at least 8 characters)`);
+    if (!password) return;
+    if (await updateUser(user._id, { password })) {
+      toast({ title: "Password reset", description: `${user.name} has been signed out everywhere` });
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="p-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Users</h1>
+          <p className="text-slate-600 dark:text-slate-400">Accounts of your team and what they can do</p>
+        </div>
+
+        <div className="max-w-4xl space-y-6">
+          <form
+            onSubmit={handleCreate}
+            className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6"
+          >
+            <h3 className="font-semibold text-slate-900 dark:text-white mb-1">Add a user</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+              Read-only users can look but not reply. Agents reply and take notes, supervisors also manage templates and
+              delete contacts, admins also manage users and WhatsApp numbers.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="text"
+                placeholder="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                className={inputClassName}
+              />
+              <input
+                type="email"
+                placeholder="Email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                required
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                placeholder="Password (at least 8 characters)"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                autoComplete="new-password"
+                required
+                className={inputClassName}
+              />
+              <select
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as Role })}
+                className={inputClassName}
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+            {formError && <p className="text-sm text-red-600 dark:text-red-400 mt-3">{formError}</p>}
+            <button
+              type="submit"
+              className="mt-4 flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add user
+            </button>
+          </form>
+
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+              </div>
+            ) : users.length === 0 ? (
+              <div className="p-6 text-center">
+                <UserCog className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+                <p className="text-slate-500 dark:text-slate-400">No users</p>
+              </div>
+            ) : (
+              users.map((user) => {
+                const isMe = user._id === me?._id;
+                return (
+                  <div key={user._id} className="border-b border-slate-100 dark:border-slate-700 last:border-b-0">
+                    <div className={`flex items-center gap-4 p-4 ${user.active ? "" : "opacity-60"}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-slate-900 dark:text-white truncate flex items-center gap-2">
+                          <AvailabilityDot status={user.availability?.status} />
+                          {user.name}
+                          {isMe && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                        </p>
+                        <p className="text-sm text-slate-600 dark:text-slate-400 truncate">
+                          {user.email}
+                          {user.lastLoginAt && ` · last signed in ${new Date(user.lastLoginAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <select
+                        value={user.role}
+                        disabled={isMe}
+                        onChange={(e) => updateUser(user._id, { role: e.target.value as Role })}
+                        className="px-2 py-1 bg-slate-100 dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded text-sm text-slate-700 dark:text-slate-200"
+                      >
+                        {ROLES.map((role) => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setEditingShifts(editingShifts === user._id ? null : user._id)}
+                        className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400"
+                        title={user.shifts?.length ? `Shifts (${user.shifts.length} a week)` : "Shifts"}
+                      >
+                        <Clock className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleResetPassword(user)}
+                        className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400"
+                        title="Reset password"
+                      >
+                        <KeyRound className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => updateUser(user._id, { active: !user.active })}
+                        disabled={isMe}
+                        className="px-3 py-1 rounded-lg text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+                      >
+                        {user.active ? "Deactivate" : "Reactivate"}
+                      </button>
+                    </div>
+                    {editingShifts === user._id && (
+                      <ShiftEditor
+                        user={user}
+                        onSave={async (changes) => {
+                          if (await updateUser(user._id, changes)) {
+                            setEditingShifts(null);
+                            toast({ title: "Shifts saved", description: user.name });
+                          }
+                        }}
+                      />
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
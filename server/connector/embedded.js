@@ -0,0 +1,453 @@
+const Message = require('../models/Message');
+const Contact = require('../models/Contact');
+const WhatsAppSession = require('../models/WhatsAppSession');
+const ConnectionEvent = require('../models/ConnectionEvent');
+const { DEFAULT_SESSION, openTransport, getTransport, listTransports, closeTransport } = require('../transports');
+const { publish } = require('../services/realtime');
+const { mediaTypeFromMime, storeMedia } = require('../services/media');
+const { analyzeSentiment, WHATSAPP_MEDIA_TYPES, parseChatId, recordParticipant, newContactForChat, statusFromAck } = require('../services/chats');
+const outboundQueue = require('../services/outboundQueue');
+const historyBackfill = require('../services/historyBackfill');
+const { autoAssign } = require('../services/assignment');
+const { ticketForInbound } = require('../services/tickets');
+const { httpError } = require('../services/http');
+
+// Connector that runs the WhatsApp sessions inside the current process.
+// Used directly by the API server in development, and by worker.js in production.
+
+// Download an inbound attachment into our own storage
+async function downloadInboundMedia(msg) {
+  let type = WHATSAPP_MEDIA_TYPES[msg.type] || 'document';
+  let media;
+  try {
+    const downloaded = await msg.downloadMedia();
+    if (downloaded) {
+      media = await storeMedia(downloaded);
+      if (!WHATSAPP_MEDIA_TYPES[msg.type]) {
+        type = mediaTypeFromMime(downloaded.mimeType);
+      }
+    }
+  } catch (error) {
+    // Keep the message anyway, the thread shows it as an unavailable attachment
+    console.error('Could not download media:', error.message || error);
+  }
+  return { type, media };
+}
+
+// WhatsApp ids of inbound messages being saved right now
+const inboundInFlight = new Set();
+
+// Save a message that came in on one of our numbers
+async function handleInbound(transport, msg) {
+  // Status updates are broadcast to every contact, they are not conversations
+  if (msg.from === 'status@broadcast') return;
+
+  // WhatsApp re-emits recent messages after a reconnect; store each one once
+  if (msg.id) {
+    if (inboundInFlight.has(msg.id)) return;
+    inboundInFlight.add(msg.id);
+  }
+  try {
+    if (msg.id && await Message.exists({ whatsappId: msg.id })) {
+      console.log(`Ignoring duplicate inbound message ${msg.id}`);
+      return;
+    }
+
+    const { sessionId } = transport;
+    const { id: phone, isGroup } = parseChatId(msg.from);
+    const author = isGroup && msg.author
+      ? { phone: parseChatId(msg.author).id, name: msg.authorName || null }
+      : undefined;
+    
+    // Find or create contact
+    let contact = await Contact.findOne({ phone });
+    const previousStatus = contact ? contact.queryStatus : null;
+    
+    if (!contact) {
+      // Auto-create contact from incoming message; counted as unread once the message is stored
+      contact = await newContactForChat(transport, msg.from, {
+        unreadCount: 0,
+        lastContacted: new Date(msg.timestamp * 1000),
+        sessionId
+      });
+      await contact.save();
+      console.log(`Auto-created ${isGroup ? 'group' : 'contact'}: ${contact.name} (${phone})`);
+    }
+    
+    // Analyze sentiment
+    const sentiment = analyzeSentiment(msg.body);
+
+    const { type, media } = msg.hasMedia ? await downloadInboundMedia(msg) : { type: 'text' };
+
+    // Reply to an earlier message; keep the reference even if we never saw the original
+    let quoted;
+    if (msg.quotedId) {
+      const original = await Message.findOne({ whatsappId: msg.quotedId });
+      quoted = original ? original.toQuote() : { whatsappId: msg.quotedId };
+    }
+    
+    // Save incoming message with sentiment. First, so a duplicate (unique whatsappId)
+    // or a failed insert leaves the contact and its ticket untouched.
+    const savedMessage = await Message.create({
+      contactId: contact._id,
+      phone: phone,
+      chatType: contact.chatType,
+      author,
+      direction: 'inbound',
+      message: msg.body,
+      type,
+      media,
+      quoted,
+      sessionId,
+      whatsappId: msg.id || undefined,
+      timestamp: new Date(msg.timestamp * 1000),
+      status: 'delivered',
+      sentiment: sentiment.sentiment,
+      sentimentScore: sentiment.score
+    });
+
+    contact.unreadCount = (contact.unreadCount || 0) + 1;
+    contact.lastContacted = new Date(msg.timestamp * 1000);
+    contact.sessionId = sessionId; // Reply through the number the customer last wrote to
+    if (author) recordParticipant(contact, author);
+    await contact.save();
+
+    // Same issue, or a new ticket when the last one was resolved or closed
+    await ticketForInbound(contact, new Date(msg.timestamp * 1000));
+
+    // New and reopened conversations go to an agent (when auto-assignment is on)
+    if (!previousStatus || contact.queryStatus !== previousStatus) {
+      const assigned = await autoAssign(contact).catch((error) => {
+        console.error('Auto-assignment failed:', error.message || error);
+        return null;
+      });
+      if (assigned) contact = assigned;
+    }
+
+    publish('new-message', { message: savedMessage, contact });
+    publish('contact-updated', contact);
+    if (previousStatus && previousStatus !== contact.queryStatus) {
+      publish('status-change', { contactId: contact._id, queryStatus: contact.queryStatus, previous: previousStatus });
+    }
+    
+    console.log(`Incoming ${type} message on "${sessionId}" from ${contact.name} (${phone}) [${sentiment.sentiment}]: ${msg.body.substring(0, 50)}...`);
+  } catch (error) {
+    // Another process stored it first (unique whatsappId)
+    if (error.code === 11000) {
+      console.log(`Ignoring duplicate inbound message ${msg.id}`);
+      return;
+    }
+    console.error('Error saving incoming message:', error);
+  } finally {
+    inboundInFlight.delete(msg.id);
+  }
+}
+
+// Acks can arrive out of order, so a message only ever moves forward
+const PREVIOUS_STATUSES = {
+  delivered: ['sent'],
+  read: ['sent', 'delivered'],
+  failed: ['sent']
+};
+
+// Track delivery and read receipts for outbound messages
+async function handleAck({ id, ack }) {
+  try {
+    const status = statusFromAck(ack);
+    if (!id || !status) return;
+
+    const update = { status };
+    if (status === 'delivered') update.deliveredAt = new Date();
+    if (status === 'read') update.readAt = new Date();
+
+    const message = await Message.findOneAndUpdate(
+      { whatsappId: id, status: { $in: PREVIOUS_STATUSES[status] } },
+      update,
+      { new: true }
+    );
+    if (message) {
+      publish('message-updated', message);
+    }
+  } catch (error) {
+    console.error('Error updating message status:', error);
+  }
+}
+
+// Someone (possibly us, from another device) reacted to a message
+async function handleReaction({ id, emoji, from, fromMe, timestamp }) {
+  try {
+    if (!id) return;
+    const message = await Message.setReaction({ whatsappId: id }, {
+      emoji,
+      from: from ? parseChatId(from).id : null,
+      fromMe,
+      timestamp: timestamp ? new Date(timestamp * 1000) : new Date()
+    });
+    if (message) {
+      publish('message-updated', message);
+    }
+  } catch (error) {
+    console.error('Error saving reaction:', error);
+  }
+}
+
+// A message was edited on WhatsApp; keep what it said before
+async function handleEdit({ id, body, timestamp }) {
+  try {
+    const message = id && await Message.findOne({ whatsappId: id });
+    if (!message || message.message === body) return;
+
+    const editedAt = timestamp ? new Date(timestamp * 1000) : new Date();
+    message.editHistory.push({ message: message.message, editedAt });
+    message.message = body;
+    message.editedAt = editedAt;
+    await message.save();
+    publish('message-updated', message);
+  } catch (error) {
+    console.error('Error saving message edit:', error);
+  }
+}
+
+// A message was deleted for everyone
+async function handleRevoke({ id, timestamp }) {
+  try {
+    const message = await Message.findOneAndUpdate(
+      { whatsappId: id, deletedAt: { $exists: false } },
+      { deletedAt: timestamp ? new Date(timestamp * 1000) : new Date() },
+      { new: true }
+    );
+    if (message) {
+      publish('message-updated', message);
+    }
+  } catch (error) {
+    console.error('Error saving message deletion:', error);
+  }
+}
+
+// Labels of the stored sessions, the default one is implicit
+const sessionLabels = new Map([[DEFAULT_SESSION, 'Default']]);
+
+function describeSession(transport) {
+  return {
+    sessionId: transport.sessionId,
+    label: sessionLabels.get(transport.sessionId) || transport.sessionId,
+    ...transport.getStatus(),
+    transport: transport.name
+  };
+}
+
+const lastEventTypes = new Map();
+
+// Persist a lifecycle entry for the diagnostics panel and push it to the browser
+async function recordConnectionEvent(sessionId, { type, reason = null, retryCount = 0 }) {
+  // QR codes rotate every ~20s while waiting for a scan, one entry per wait is enough
+  if (type === 'qr' && lastEventTypes.get(sessionId) === 'qr') return;
+  lastEventTypes.set(sessionId, type);
+
+  const entry = { sessionId, type, reason, retryCount, createdAt: new Date() };
+  try {
+    const saved = await ConnectionEvent.create(entry);
+    entry._id = saved._id;
+  } catch (error) {
+    console.error('Could not save WhatsApp connection event:', error.message || error);
+  }
+  publish('connection-event', entry);
+}
+
+// Start a session and hook it up to the database, the browser and the outbound queue
+function startSession(sessionId) {
+  const existing = getTransport(sessionId);
+  if (existing) return existing;
+
+  const transport = openTransport(sessionId);
+  transport.on('message', (msg) => handleInbound(transport, msg));
+  transport.on('ack', handleAck);
+  transport.on('reaction', handleReaction);
+  transport.on('edit', handleEdit);
+  transport.on('revoke', handleRevoke);
+
+  // Push connection changes to the browser
+  const publishConnectionState = () => publish('connection-state', describeSession(transport));
+  transport.on('qr', publishConnectionState);
+  transport.on('ready', publishConnectionState);
+  transport.on('disconnected', publishConnectionState);
+  transport.on('connection-event', publishConnectionState);
+
+  // Keep the connection history
+  const status = () => ({ retryCount: transport.getStatus().retryCount || 0 });
+  transport.on('qr', () => recordConnectionEvent(sessionId, { type: 'qr', ...status() }));
+  transport.on('ready', () => recordConnectionEvent(sessionId, { type: 'ready', ...status() }));
+  transport.on('disconnected', (reason) => recordConnectionEvent(sessionId, { type: 'disconnected', reason: reason ? String(reason) : null, ...status() }));
+  transport.on('connection-event', (event) => recordConnectionEvent(sessionId, event));
+
+  outboundQueue.watch(transport);
+  historyBackfill.watch(transport);
+  transport.connect();
+  return transport;
+}
+
+// Reopen the extra numbers saved from Settings
+async function restoreSessions() {
+  try {
+    const sessions = await WhatsAppSession.find().sort({ createdAt: 1 });
+    sessions.forEach((session) => {
+      sessionLabels.set(session.sessionId, session.label);
+      startSession(session.sessionId);
+    });
+  } catch (error) {
+    console.error('Could not restore WhatsApp sessions:', error.message || error);
+  }
+}
+
+
+let started = false;
+
+// Open every session and start delivering queued messages
+function start() {
+  if (started) return;
+  started = true;
+  startSession(DEFAULT_SESSION);
+  restoreSessions();
+  outboundQueue.start();
+}
+
+async function listSessions() {
+  return listTransports().map(describeSession);
+}
+
+async function getSession(sessionId) {
+  const transport = getTransport(sessionId);
+  return transport ? describeSession(transport) : null;
+}
+
+// Raw QR string while the session waits to be paired
+async function getQR(sessionId) {
+  const transport = getTransport(sessionId);
+  if (!transport) return null;
+  return { qr: transport.getQR(), connected: transport.isConnected() };
+}
+
+async function disconnect(sessionId) {
+  const transport = getTransport(sessionId);
+  if (!transport) return false;
+  await transport.disconnect();
+  return true;
+}
+
+async function reconnect(sessionId) {
+  const transport = getTransport(sessionId);
+  if (!transport) return false;
+  await transport.reconnect();
+  return true;
+}
+
+// Invalidate the stored login, for a lost phone or a session that no longer restores
+async function resetAuth(sessionId) {
+  const transport = getTransport(sessionId);
+  if (!transport) return false;
+  await transport.resetAuth();
+  return true;
+}
+
+// React to a WhatsApp message from one of our numbers, an empty emoji removes the reaction
+async function react(sessionId, whatsappId, emoji) {
+  const transport = getTransport(sessionId);
+  if (!transport) return false;
+  if (!transport.isConnected()) {
+    throw httpError(409, 'WhatsApp is not connected. Please check your connection in Settings.');
+  }
+  await transport.react(whatsappId, emoji);
+  return true;
+}
+
+// Import the chat history of a connected number again, from the first chat
+async function backfill(sessionId) {
+  const transport = getTransport(sessionId);
+  if (!transport) return false;
+  if (!transport.isConnected()) {
+    throw httpError(409, 'WhatsApp is not connected. Please check your connection in Settings.');
+  }
+  // Runs in the background, progress is published as backfill-progress
+  historyBackfill.run(transport, { restart: true });
+  return true;
+}
+
+// Add a WhatsApp number; it starts waiting for its own QR scan
+async function addSession({ sessionId, label }) {
+  if (sessionId === DEFAULT_SESSION || getTransport(sessionId)) {
+    throw httpError(409, `A WhatsApp number with id "${sessionId}" already exists`);
+  }
+
+  await WhatsAppSession.create({ sessionId, label });
+  sessionLabels.set(sessionId, label);
+  return describeSession(startSession(sessionId));
+}
+
+// Log out and remove a WhatsApp number. Its conversations are kept.
+async function removeSession(sessionId) {
+  if (sessionId === DEFAULT_SESSION) {
+    throw httpError(400, 'The default WhatsApp number cannot be removed');
+  }
+
+  const closed = await closeTransport(sessionId);
+  const { deletedCount } = await WhatsAppSession.deleteOne({ sessionId });
+  if (!closed && !deletedCount) return false;
+  sessionLabels.delete(sessionId);
+  lastEventTypes.delete(sessionId);
+
+  publish('connection-state', { sessionId, removed: true, connected: false, hasQR: false });
+  return true;
+}
+
+// Drive the offline simulator: scan, inbound, ack, reaction, edit, revoke, history or outbox
+async function simulate(sessionId, action, payload = {}) {
+  const transport = getTransport(sessionId);
+  if (!transport || transport.name !== 'simulator') {
+    throw httpError(404, transport
+      ? 'WhatsApp simulator is not enabled. Start the server with WHATSAPP_TRANSPORT=simulator.'
+      : `WhatsApp number "${sessionId}" not found`);
+  }
+
+  try {
+    switch (action) {
+      case 'scan':
+        return { success: true, paired: transport.scan() };
+      case 'inbound':
+        return transport.injectInbound(payload);
+      case 'ack':
+        return transport.injectAck(payload.messageId, payload.ack);
+      case 'reaction':
+        return transport.injectReaction(payload);
+      case 'edit':
+        return transport.injectEdit(payload);
+      case 'revoke':
+        return transport.injectRevoke(payload);
+      case 'history':
+        return transport.injectHistory(payload);
+      case 'outbox':
+        return transport.getOutbox();
+      default:
+        throw httpError(404, `Unknown simulator action "${action}"`);
+    }
+  } catch (error) {
+    // The simulator rejects bad input (unknown ack, not paired yet) with plain errors
+    if (!error.status) error.status = 400;
+    throw error;
+  }
+}
+
+module.exports = {
+  name: 'embedded',
+  start,
+  listSessions,
+  getSession,
+  getQR,
+  disconnect,
+  reconnect,
+  resetAuth,
+  react,
+  backfill,
+  addSession,
+  removeSession,
+  simulate
+};
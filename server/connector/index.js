@@ -0,0 +1,55 @@
+// WhatsApp connector: where the WhatsApp sessions actually run.
+//
+// Every connector implements (all async):
+//   start()                           begin work (open sessions, or follow the worker)
+//   listSessions()                    [{ sessionId, label, connected, hasQR, authStore, retryCount,
+//                                        account, connectedAt, transport }]
+//   getSession(sessionId)             one of the above, or null
+//   getQR(sessionId)                  { qr, connected } or null for an unknown session
+//   disconnect(sessionId)             false for an unknown session
+//   reconnect(sessionId)              false for an unknown session
+//   resetAuth(sessionId)              drop the stored login; false for an unknown session
+//   react(sessionId, whatsappId, emoji)
+//                                     react to a message ('' removes); false for an unknown session
+//   backfill(sessionId)               import the chat history again in the background; false for
+//                                     an unknown session
+//   addSession({ sessionId, label })  the new session; errors carry an HTTP `status`
+//   removeSession(sessionId)          false for an unknown session
+//   simulate(sessionId, action, payload)
+//                                     offline simulator: scan, inbound, ack, reaction, edit,
+//                                     revoke, history or outbox
+//
+// WHATSAPP_CONNECTOR=embedded runs the sessions inside the API server (default in
+// development). WHATSAPP_CONNECTOR=worker proxies to `npm run worker` at
+// WHATSAPP_WORKER_URL (default in production), so the web process can restart
+// without dropping the WhatsApp connection.
+//
+// The worker and the API server share MongoDB, and have to share media storage
+// too (MEDIA_STORAGE_DIR, see storage/). Live events go from the worker to each
+// API server following it, but events an API server publishes itself (assignments,
+// ticket and contact changes) only reach the browsers connected to that server:
+// run a single API server process. More would need a shared pub/sub behind
+// services/realtime.
+
+let connector = null;
+
+function getConnector() {
+  if (!connector) {
+    const mode = process.env.WHATSAPP_CONNECTOR ||
+      (process.env.NODE_ENV === 'production' ? 'worker' : 'embedded');
+    switch (mode) {
+      case 'embedded':
+        connector = require('./embedded');
+        break;
+      case 'worker':
+        connector = require('./remote');
+        break;
+      default:
+        throw new Error(`Unknown WHATSAPP_CONNECTOR "${mode}"`);
+    }
+    console.log(`Using WhatsApp connector: ${connector.name}`);
+  }
+  return connector;
+}
+
+module.exports = { getConnector };
@@ -0,0 +1,195 @@
+const { publish } = require('../services/realtime');
+const { checkSharedStorage } = require('../storage');
+const { httpError } = require('../services/http');
+
+// Connector that talks to a separate WhatsApp worker process (worker.js) over HTTP.
+// Outbound messages do not go through here: the API only writes them to the
+// MongoDB-backed outbound queue and the worker delivers them.
+
+const WORKER_URL = (process.env.WHATSAPP_WORKER_URL || 'http://127.0.0.1:3001').replace(/\/+$/, '');
+const WORKER_TOKEN = process.env.WHATSAPP_WORKER_TOKEN || '';
+const REQUEST_TIMEOUT_MS = 15000;
+const EVENTS_RETRY_MS = 5000;
+
+function headers(extra = {}) {
+  return WORKER_TOKEN ? { ...extra, 'X-Worker-Token': WORKER_TOKEN } : extra;
+}
+
+// Call the worker and return its JSON body, keeping its HTTP status on errors
+async function request(method, path, body) {
+  let response;
+  try {
+    response = await fetch(`${WORKER_URL}${path}`, {
+      method,
+      headers: headers(body ? { 'Content-Type': 'application/json' } : {}),
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw httpError(503, `WhatsApp worker is not reachable at ${WORKER_URL}: ${error.message}`);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw httpError(response.status, data.error || `WhatsApp worker responded with ${response.status}`);
+  }
+  return data;
+}
+
+const sessionPath = (sessionId) => `/sessions/${encodeURIComponent(sessionId)}`;
+
+// Re-publish the worker's live events (new messages, receipts, connection changes)
+// to the browsers connected to this API server
+async function followEvents() {
+  try {
+    const response = await fetch(`${WORKER_URL}/events`, { headers: headers() });
+    if (!response.ok || !response.body) {
+      throw new Error(`status ${response.status}`);
+    }
+    console.log(`Following WhatsApp worker events at ${WORKER_URL}`);
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = null;
+        let data = '';
+        frame.split('\n').forEach((line) => {
+          if (line.startsWith('event: ')) event = line.slice(7);
+          else if (line.startsWith('data: ')) data += line.slice(6);
+        });
+        if (event && data) {
+          try {
+            publish(event, JSON.parse(data));
+          } catch (e) {
+            console.warn('Ignoring malformed worker event:', event);
+          }
+        }
+      }
+    }
+    console.warn('WhatsApp worker event stream ended');
+  } catch (error) {
+    console.warn(`WhatsApp worker event stream unavailable (${error.message}), retrying...`);
+  }
+  setTimeout(followEvents, EVENTS_RETRY_MS);
+}
+
+let started = false;
+
+function start() {
+  if (started) return;
+  started = true;
+  checkSharedStorage();
+  followEvents();
+}
+
+async function listSessions() {
+  return request('GET', '/sessions');
+}
+
+async function getSession(sessionId) {
+  try {
+    return await request('GET', sessionPath(sessionId));
+  } catch (error) {
+    if (error.status === 404) return null;
+    throw error;
+  }
+}
+
+async function getQR(sessionId) {
+  try {
+    return await request('GET', `${sessionPath(sessionId)}/qr`);
+  } catch (error) {
+    if (error.status === 404) return null;
+    throw error;
+  }
+}
+
+async function disconnect(sessionId) {
+  try {
+    await request('POST', `${sessionPath(sessionId)}/disconnect`);
+    return true;
+  } catch (error) {
+    if (error.status === 404) return false;
+    throw error;
+  }
+}
+
+async function reconnect(sessionId) {
+  try {
+    await request('POST', `${sessionPath(sessionId)}/reconnect`);
+    return true;
+  } catch (error) {
+    if (error.status === 404) return false;
+    throw error;
+  }
+}
+
+async function resetAuth(sessionId) {
+  try {
+    await request('POST', `${sessionPath(sessionId)}/reset-auth`);
+    return true;
+  } catch (error) {
+    if (error.status === 404) return false;
+    throw error;
+  }
+}
+
+async function react(sessionId, whatsappId, emoji) {
+  try {
+    await request('POST', `${sessionPath(sessionId)}/react`, { messageId: whatsappId, emoji });
+    return true;
+  } catch (error) {
+    if (error.status === 404) return false;
+    throw error;
+  }
+}
+
+async function backfill(sessionId) {
+  try {
+    await request('POST', `${sessionPath(sessionId)}/backfill`);
+    return true;
+  } catch (error) {
+    if (error.status === 404) return false;
+    throw error;
+  }
+}
+
+async function addSession(session) {
+  return request('POST', '/sessions', session);
+}
+
+async function removeSession(sessionId) {
+  try {
+    await request('DELETE', sessionPath(sessionId));
+    return true;
+  } catch (error) {
+    if (error.status === 404) return false;
+    throw error;
+  }
+}
+
+async function simulate(sessionId, action, payload) {
+  return request('POST', `${sessionPath(sessionId)}/simulator/${encodeURIComponent(action)}`, payload || {});
+}
+
+module.exports = {
+  name: 'worker',
+  start,
+  listSessions,
+  getSession,
+  getQR,
+  disconnect,
+  reconnect,
+  resetAuth,
+  react,
+  backfill,
+  addSession,
+  removeSession,
+  simulate
+};
@@ -4,21 +4,29 @@ const cors = require('cors');
 const path = require('path');
 require('dotenv').config({ path: path.join(__dirname, '.env') });
 
+const { authenticate, requireRole, writeAccess, sameOrigin } = require('./middleware/auth');
+
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Where the client is served from
+const ALLOWED_ORIGINS = [
+  'http://localhost:8080',
+  'http://localhost:5173',
+  'https://mayuri734.github.io'
+];
+
 // Middleware
 app.use(
   cors({
-    origin: [
-      'http://localhost:8080',
-      'http://localhost:5173',
-      'https://mayuri734.github.io'
-    ],
+    origin: ALLOWED_ORIGINS,
     credentials: true
   })
 );
-app.use(express.json());
+// No cross-site changes riding on the session cookie
+app.use(sameOrigin(ALLOWED_ORIGINS));
+// Attachments are posted as base64 JSON, so allow room for a 16 MB file
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '25mb' }));
 
 // Root health check (IMPORTANT)
 app.get('/', (req, res) => {
@@ -35,20 +43,23 @@ app.get('/api/health', (req, res) => {
 });
 
 
-// Routes
-app.use('/api/contacts', require('./routes/contacts'));
-app.use('/api/messages', require('./routes/messages'));
-app.use('/api/conversations', require('./routes/conversations'));
-app.use('/api/templates', require('./routes/templates'));
-app.use('/api/notes', require('./routes/notes'));
-app.use('/api/ai', require('./routes/ai'));
+// Routes. Everything but signing in needs a session; see middleware/auth for the roles
+app.use('/api/auth', require('./routes/auth'));
+app.use('/api/users', authenticate, require('./routes/users'));
+app.use('/api/contacts', authenticate, writeAccess('agent'), require('./routes/contacts'));
+app.use('/api/messages', authenticate, writeAccess('agent'), require('./routes/messages'));
+app.use('/api/conversations', authenticate, require('./routes/conversations'));
+app.use('/api/templates', authenticate, writeAccess('supervisor'), require('./routes/templates'));
+app.use('/api/notes', authenticate, writeAccess('agent'), require('./routes/notes'));
+app.use('/api/tickets', authenticate, require('./routes/tickets'));
+app.use('/api/search', authenticate, require('./routes/search'));
+app.use('/api/assignment', authenticate, writeAccess('supervisor'), require('./routes/assignment'));
+app.use('/api/ai', authenticate, writeAccess('agent'), require('./routes/ai'));
+app.use('/api/stream', authenticate, require('./routes/stream'));
 
-// WhatsApp ONLY locally
-if (process.env.NODE_ENV !== "production") {
-  app.use('/api/whatsapp', require('./routes/whatsapp'));
-} else {
-  console.log("WhatsApp routes disabled in production");
-}
+// WhatsApp runs in-process locally and in the worker process in production (see connector/)
+app.use('/api/whatsapp', authenticate, writeAccess('agent'), require('./routes/whatsapp'));
+app.use('/api/simulator', authenticate, requireRole('admin'), require('./routes/simulator'));
 
 // MongoDB
 const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/whatsconnect';
@@ -57,7 +68,14 @@ if (mongoURI) {
     useNewUrlParser: true,
     useUnifiedTopology: true,
   })
-  .then(() => console.log('MongoDB connected'))
+  .then(() => {
+    console.log('MongoDB connected');
+    require('./services/assignment').start();
+    return Promise.all([
+      require('./services/conversations').rebuildSummaries(),
+      require('./services/auth').ensureInitialAdmin()
+    ]);
+  })
   .catch(err => console.error('MongoDB error:', err));
 } else {
   console.warn('MongoDB URI not provided. Database features will be unavailable.');
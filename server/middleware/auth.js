@@ -0,0 +1,67 @@
+const { readSessionToken, userForToken } = require('../services/auth');
+
+// Access control for the API. Every router is mounted behind `authenticate`;
+// what a role may do:
+//   read-only    read everything
+//   agent        also reply, write notes, change statuses and edit contacts
+//   supervisor   also delete contacts and manage templates
+//   admin        also manage users and the WhatsApp numbers
+
+function unauthorized(res) {
+  return res.status(401).json({ error: 'Sign in to continue' });
+}
+
+// Sets req.user from the session cookie, or answers 401
+async function authenticate(req, res, next) {
+  try {
+    const user = await userForToken(readSessionToken(req));
+    if (!user) return unauthorized(res);
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Only users with `role` or a higher one
+function requireRole(role) {
+  return (req, res, next) => {
+    if (!req.user) return unauthorized(res);
+    if (!req.user.hasRole(role)) {
+      return res.status(403).json({ error: `This needs the ${role} role or higher` });
+    }
+    next();
+  };
+}
+
+// Reads for everyone signed in, changes (any other method) for `role` and up
+function writeAccess(role = 'agent') {
+  const check = requireRole(role);
+  return (req, res, next) => (req.method === 'GET' || req.method === 'HEAD' ? next() : check(req, res, next));
+}
+
+// The session cookie is SameSite=None in production, so browsers send it with
+// requests other sites make. Changes (any method but GET, HEAD and OPTIONS) are
+// only accepted from our own pages: the Origin header, or the Referer when a
+// browser leaves it out, must be one of `origins` or this server itself.
+// Requests with neither come from outside a browser and carry no one else's cookie.
+function sameOrigin(origins) {
+  return (req, res, next) => {
+    if (['GET', 'HEAD', 'OPTIONS'].includes(req.method)) return next();
+
+    const source = req.get('Origin') || req.get('Referer');
+    if (!source) return next();
+    let origin;
+    try {
+      origin = new URL(source);
+    } catch {
+      origin = null;
+    }
+    if (origin && (origins.includes(origin.origin) || origin.host === req.get('Host'))) {
+      return next();
+    }
+    res.status(403).json({ error: 'Requests from other sites are not allowed' });
+  };
+}
+
+module.exports = { authenticate, requireRole, writeAccess, sameOrigin };
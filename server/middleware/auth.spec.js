@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createRequire } from "module";
+
+// Loaded through Node's require so the spec and the middleware share the models
+const require = createRequire(import.meta.url);
+const User = require("../models/User");
+const Session = require("../models/Session");
+const { authenticate, requireRole, writeAccess, sameOrigin } = require("./auth");
+
+const userWithRole = (role) => new User({ name: "Priya", email: "priya@example.com", role, passwordHash: "x" });
+
+// A request with these headers, and a response that records what was sent
+function call(middleware, { method = "GET", headers = {}, user } = {}) {
+  const req = { method, user, get: (name) => headers[name] };
+  const res = {
+    statusCode: 200,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+  const next = vi.fn();
+  return Promise.resolve(middleware(req, res, next)).then(() => ({ req, res, passed: next.mock.calls.length > 0 }));
+}
+
+describe("requireRole", () => {
+  it("lets the role and higher ones through", async () => {
+    expect((await call(requireRole("supervisor"), { user: userWithRole("supervisor") })).passed).toBe(true);
+    expect((await call(requireRole("supervisor"), { user: userWithRole("admin") })).passed).toBe(true);
+  });
+
+  it("answers 403 to lower roles and 401 without a user", async () => {
+    const { res, passed } = await call(requireRole("supervisor"), { user: userWithRole("agent") });
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(403);
+    expect(res.body.error).toMatch(/supervisor/);
+    expect((await call(requireRole("agent"))).res.statusCode).toBe(401);
+  });
+});
+
+describe("writeAccess", () => {
+  it("lets read-only users read but not change", async () => {
+    const user = userWithRole("read-only");
+    expect((await call(writeAccess(), { user })).passed).toBe(true);
+    expect((await call(writeAccess(), { method: "HEAD", user })).passed).toBe(true);
+    expect((await call(writeAccess(), { method: "POST", user })).res.statusCode).toBe(403);
+    expect((await call(writeAccess(), { method: "POST", user: userWithRole("agent") })).passed).toBe(true);
+  });
+});
+
+describe("sameOrigin", () => {
+  const check = sameOrigin(["https://example.github.io"]);
+
+  it("accepts changes from our own pages", async () => {
+    expect((await call(check, { method: "POST", headers: { Origin: "https://example.github.io" } })).passed).toBe(true);
+    expect((await call(check, { method: "POST", headers: { Referer: "http://localhost:3000/users", Host: "localhost:3000" } })).passed).toBe(true);
+  });
+
+  it("refuses changes from other sites", async () => {
+    const { res, passed } = await call(check, { method: "DELETE", headers: { Origin: "https://evil.example" } });
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(403);
+    expect((await call(check, { method: "POST", headers: { Origin: "not a url" } })).res.statusCode).toBe(403);
+  });
+
+  it("leaves reads and requests from outside a browser alone", async () => {
+    expect((await call(check, { headers: { Origin: "https://evil.example" } })).passed).toBe(true);
+    expect((await call(check, { method: "POST" })).passed).toBe(true);
+  });
+});
+
+describe("authenticate", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("sets the user of the session cookie", async () => {
+    const user = userWithRole("agent");
+    vi.spyOn(Session, "findOne").mockResolvedValue(new Session({ tokenHash: "h", userId: user._id, expiresAt: new Date() }));
+    vi.spyOn(User, "findById").mockResolvedValue(user);
+
+    const { req, passed } = await call(authenticate, { headers: { Cookie: "wc_session=abc" } });
+    expect(passed).toBe(true);
+    expect(req.user).toBe(user);
+  });
+
+  it("answers 401 without a valid session", async () => {
+    vi.spyOn(Session, "findOne").mockResolvedValue(null);
+    const { res, passed } = await call(authenticate, { headers: { Cookie: "wc_session=expired" } });
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(401);
+    expect((await call(authenticate)).res.statusCode).toBe(401);
+  });
+});
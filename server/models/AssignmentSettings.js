@@ -0,0 +1,66 @@
+const mongoose = require('mongoose');
+
+const STRATEGIES = ['round-robin', 'least-loaded'];
+
+// How new and reopened conversations are given to agents, edited in Settings.
+// There is a single document; see services/assignment for how it is applied.
+const assignmentSettingsSchema = new mongoose.Schema({
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  strategy: {
+    type: String,
+    enum: STRATEGIES,
+    default: 'round-robin'
+  },
+  // Open conversations an agent can hold before being skipped, 0 for no limit
+  maxConcurrent: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // Per-agent exceptions to maxConcurrent
+  agentLimits: [{
+    _id: false,
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    max: { type: Number, min: 0, required: true }
+  }],
+  // Conversations with any of `tags` only go to `agents`; the first matching
+  // route wins, the others go to everyone
+  routes: [{
+    _id: false,
+    name: { type: String, trim: true },
+    tags: [{ type: String, trim: true }],
+    agents: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }]
+  }],
+  // Online agents who do not use the app this long go away, 0 for never
+  awayAfterMinutes: {
+    type: Number,
+    min: 0,
+    default: 10
+  },
+  // Last agent picked by round-robin
+  lastAssignedUserId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+assignmentSettingsSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+// The settings, with the defaults when they were never saved
+assignmentSettingsSchema.statics.current = async function() {
+  return (await this.findOne()) || new this();
+};
+
+const AssignmentSettings = mongoose.model('AssignmentSettings', assignmentSettingsSchema);
+AssignmentSettings.STRATEGIES = STRATEGIES;
+
+module.exports = AssignmentSettings;
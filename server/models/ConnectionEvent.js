@@ -0,0 +1,33 @@
+const mongoose = require('mongoose');
+
+// Lifecycle of a WhatsApp session (QR issued, paired, dropped, retried...), kept
+// for the diagnostics panel in Settings. Entries expire after 30 days.
+const connectionEventSchema = new mongoose.Schema({
+  sessionId: {
+    type: String,
+    default: 'default'
+  },
+  type: {
+    type: String,
+    enum: ['qr', 'authenticated', 'ready', 'auth_failure', 'disconnected', 'error', 'retry'],
+    required: true
+  },
+  // Disconnect reason, error message or retry details
+  reason: {
+    type: String,
+    default: null
+  },
+  retryCount: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: 60 * 60 * 24 * 30
+  }
+});
+
+connectionEventSchema.index({ sessionId: 1, createdAt: -1 });
+
+module.exports = mongoose.model('ConnectionEvent', connectionEventSchema);
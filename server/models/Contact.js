@@ -6,12 +6,25 @@ const contactSchema = new mongoose.Schema({
     required: true,
     trim: true
   },
+  // Phone number, or the group id for group chats
   phone: {
     type: String,
     required: true,
     unique: true,
     trim: true
   },
+  chatType: {
+    type: String,
+    enum: ['individual', 'group'],
+    default: 'individual'
+  },
+  // Members of a group chat, refreshed from WhatsApp as messages come in
+  participants: [{
+    _id: false,
+    phone: String,
+    name: String,
+    isAdmin: Boolean
+  }],
   email: {
     type: String,
     trim: true,
@@ -29,11 +42,42 @@ const contactSchema = new mongoose.Schema({
     type: String,
     trim: true
   },
+  // Status of the current ticket, kept here for the inbox filters; change it
+  // through services/tickets
   queryStatus: {
     type: String,
     enum: ['new', 'in-progress', 'resolved', 'closed'],
     default: 'new'
   },
+  ticketId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Ticket'
+  },
+  // Who last changed queryStatus, and when
+  statusChangedBy: {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    name: String
+  },
+  statusChangedAt: {
+    type: Date
+  },
+  // Agent who owns the conversation, see services/assignment
+  assignedTo: {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    name: String
+  },
+  assignedAt: {
+    type: Date
+  },
+  // Assignment changes, oldest first; `by` is empty for automatic ones
+  assignmentHistory: [{
+    _id: false,
+    from: { userId: mongoose.Schema.Types.ObjectId, name: String },
+    to: { userId: mongoose.Schema.Types.ObjectId, name: String },
+    by: { userId: mongoose.Schema.Types.ObjectId, name: String },
+    reason: String,
+    at: Date
+  }],
   unreadCount: {
     type: Number,
     default: 0
@@ -41,6 +85,23 @@ const contactSchema = new mongoose.Schema({
   lastContacted: {
     type: Date
   },
+  // Conversation summary for the inbox, kept up to date as messages are stored
+  // (see recordMessage): time of the last message and of our last reply, and the
+  // oldest customer message not answered yet, which the SLA counts from
+  lastMessageAt: {
+    type: Date
+  },
+  lastOutboundAt: {
+    type: Date
+  },
+  awaitingReplySince: {
+    type: Date
+  },
+  // WhatsApp number (session) the conversation last went through
+  sessionId: {
+    type: String,
+    default: 'default'
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -51,6 +112,42 @@ const contactSchema = new mongoose.Schema({
   }
 });
 
+// Sort orders and filters of the contacts list (GET /api/contacts)
+contactSchema.index({ updatedAt: -1, _id: -1 });
+contactSchema.index({ lastContacted: -1, _id: -1 });
+contactSchema.index({ createdAt: -1, _id: -1 });
+contactSchema.index({ queryStatus: 1 });
+contactSchema.index({ tags: 1 });
+contactSchema.index({ lastMessageAt: -1, _id: -1 });
+contactSchema.index({ awaitingReplySince: 1 });
+// "Mine" and "Unassigned" inboxes
+contactSchema.index({ 'assignedTo.userId': 1, lastMessageAt: -1 });
+
+// Update the conversation summary for a new message, in one atomic update so
+// concurrent messages cannot overwrite each other
+contactSchema.statics.recordMessage = function(contactId, { direction, timestamp }) {
+  const at = new Date(timestamp);
+  const awaiting = { $ifNull: ['$awaitingReplySince', null] };
+  const set = direction === 'outbound'
+    ? {
+      lastMessageAt: { $max: ['$lastMessageAt', at] },
+      lastOutboundAt: { $max: ['$lastOutboundAt', at] },
+      // Answered, unless this is an older message arriving late (history import)
+      awaitingReplySince: { $cond: [{ $and: [{ $ne: [awaiting, null] }, { $gte: [at, awaiting] }] }, null, awaiting] }
+    }
+    : {
+      lastMessageAt: { $max: ['$lastMessageAt', at] },
+      awaitingReplySince: {
+        $cond: [
+          { $or: [{ $eq: [{ $ifNull: ['$lastOutboundAt', null] }, null] }, { $gt: [at, '$lastOutboundAt'] }] },
+          { $min: [{ $ifNull: ['$awaitingReplySince', at] }, at] },
+          awaiting
+        ]
+      }
+    };
+  return this.updateOne({ _id: contactId }, [{ $set: set }]);
+};
+
 contactSchema.pre('save', function(next) {
   this.updatedAt = Date.now();
   next();
@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// Progress of the chat history import for one WhatsApp number (see
+// services/historyBackfill). Chats listed in processedChatIds are skipped when
+// an interrupted import resumes.
+const historyImportSchema = new mongoose.Schema({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    default: 'running'
+  },
+  totalChats: {
+    type: Number,
+    default: 0
+  },
+  processedChats: {
+    type: Number,
+    default: 0
+  },
+  processedChatIds: {
+    type: [String],
+    default: []
+  },
+  importedMessages: {
+    type: Number,
+    default: 0
+  },
+  // Messages that were already stored, e.g. by an earlier run
+  skippedMessages: {
+    type: Number,
+    default: 0
+  },
+  failedChats: {
+    type: Number,
+    default: 0
+  },
+  lastError: {
+    type: String
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  finishedAt: {
+    type: Date
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+historyImportSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+module.exports = mongoose.model('HistoryImport', historyImportSchema);
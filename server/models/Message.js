@@ -6,28 +6,134 @@ const messageSchema = new mongoose.Schema({
     ref: 'Contact',
     required: false // Allow messages without contact (will be linked later)
   },
+  // Phone number, or the group id for group chats
   phone: {
     type: String,
     required: true
   },
+  chatType: {
+    type: String,
+    enum: ['individual', 'group'],
+    default: 'individual'
+  },
+  // Group member who wrote an inbound group message
+  author: {
+    phone: String,
+    name: String
+  },
   direction: {
     type: String,
     enum: ['inbound', 'outbound'],
     required: true
   },
+  // Agent who sent an outbound message from the app
+  sentBy: {
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    name: String
+  },
+  // Text of the message, or the caption of a media message
   message: {
     type: String,
-    required: true
+    default: '',
+    required: function() {
+      return this.type === 'text';
+    }
+  },
+  type: {
+    type: String,
+    enum: ['text', 'image', 'video', 'audio', 'document', 'sticker'],
+    default: 'text'
+  },
+  media: {
+    key: String, // storage key, see server/storage
+    mimeType: String,
+    size: Number,
+    filename: String
+  },
+  // Earlier message this one replies to, with a snippet of its text at the time
+  quoted: {
+    messageId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Message'
+    },
+    whatsappId: String,
+    message: String,
+    // Declared as an object, a bare `type` key would make all of `quoted` a String
+    type: { type: String },
+    direction: String
+  },
+  // Emoji reactions, one per person; `from` is the reacting phone, empty for our own
+  reactions: [{
+    _id: false,
+    emoji: String,
+    from: String,
+    fromMe: Boolean,
+    timestamp: Date
+  }],
+  // Texts the message had before it was edited, oldest first
+  editHistory: [{
+    _id: false,
+    message: String,
+    editedAt: Date
+  }],
+  editedAt: {
+    type: Date
+  },
+  // Deleted for everyone on WhatsApp. The text is kept for the record.
+  deletedAt: {
+    type: Date
   },
   timestamp: {
     type: Date,
     default: Date.now
   },
+  // queued/sending: waiting in the outbound queue (see services/outboundQueue)
+  // failed: dead letter, will not be retried automatically
   status: {
     type: String,
-    enum: ['sent', 'delivered', 'read', 'failed'],
+    enum: ['queued', 'sending', 'sent', 'delivered', 'read', 'failed'],
     default: 'sent'
   },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  nextAttemptAt: {
+    type: Date
+  },
+  lockedAt: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  sentAt: {
+    type: Date
+  },
+  // WhatsApp number (session) the message came in on or goes out through
+  sessionId: {
+    type: String,
+    default: 'default'
+  },
+  // WhatsApp's own id for the message (msg.id._serialized), used to match acks.
+  // Unique, so a message WhatsApp re-emits after a reconnect is only stored once
+  whatsappId: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
+  // Key sent by the client with /api/whatsapp/send, so a retried request is only queued once
+  idempotencyKey: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
+  deliveredAt: {
+    type: Date
+  },
+  readAt: {
+    type: Date
+  },
   sentiment: {
     type: String,
     enum: ['positive', 'neutral', 'negative'],
@@ -39,5 +145,80 @@ const messageSchema = new mongoose.Schema({
   }
 });
 
+// What a reply keeps of the message it quotes
+messageSchema.methods.toQuote = function() {
+  return {
+    messageId: this._id,
+    whatsappId: this.whatsappId,
+    message: (this.message || '').slice(0, 200),
+    type: this.type,
+    direction: this.direction
+  };
+};
+
+// Add, change or (with an empty emoji) remove one person's reaction in a single
+// update, since WhatsApp echoes our own reactions back while we save them
+messageSchema.statics.setReaction = function(query, { emoji, from = null, fromMe = false, timestamp = new Date() }) {
+  const sameReactor = fromMe ? { $ne: ['$$this.fromMe', true] } : { $ne: ['$$this.from', from] };
+  const added = emoji ? [{ emoji, from: fromMe ? null : from, fromMe, timestamp }] : [];
+  return this.findOneAndUpdate(query, [{
+    $set: {
+      reactions: {
+        $concatArrays: [
+          { $filter: { input: { $ifNull: ['$reactions', []] }, cond: sameReactor } },
+          { $literal: added }
+        ]
+      }
+    }
+  }], { new: true });
+};
+
+// Keep the contact's conversation summary current (Contact.recordMessage).
+// Messages count once when stored, not on status updates, except our own: they
+// answer the customer only once the outbound queue has sent them, so one that
+// fails for good leaves the conversation waiting for a reply.
+const UNSENT_STATUSES = ['queued', 'sending', 'failed'];
+
+messageSchema.pre('save', function(next) {
+  const sent = !(this.direction === 'outbound' && UNSENT_STATUSES.includes(this.status));
+  this.$locals.counts = sent && (this.isNew || (this.isModified('status') && UNSENT_STATUSES.includes(this.$locals.savedStatus)));
+  next();
+});
+
+// Status as stored, to notice the queue's sent transition
+messageSchema.post('init', function(doc) {
+  doc.$locals.savedStatus = doc.status;
+});
+
+messageSchema.statics.recordInConversation = async function(messages) {
+  const Contact = mongoose.model('Contact');
+  for (const message of messages) {
+    if (!message.contactId) continue;
+    if (message.direction === 'outbound' && UNSENT_STATUSES.includes(message.status)) continue;
+    try {
+      await Contact.recordMessage(message.contactId, message);
+    } catch (error) {
+      console.error('Could not update the conversation summary:', error.message || error);
+    }
+  }
+};
+
+messageSchema.post('save', function(doc) {
+  doc.$locals.savedStatus = doc.status;
+  if (doc.$locals.counts) return doc.constructor.recordInConversation([doc]);
+});
+
+// Not called when insertMany fails part way; callers record error.insertedDocs
+messageSchema.post('insertMany', function(docs) {
+  return this.recordInConversation(docs);
+});
+
+// Lets the outbound queue find due messages quickly
+messageSchema.index({ status: 1, nextAttemptAt: 1 });
+// A conversation's messages, newest first
+messageSchema.index({ contactId: 1, timestamp: -1 });
+// Full-text search over message bodies (a collection has at most one text index)
+messageSchema.index({ message: 'text' }, { name: 'message_text', default_language: 'english' });
+
 module.exports = mongoose.model('Message', messageSchema);
 
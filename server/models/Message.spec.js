@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import mongoose from "mongoose";
+import Message from "./Message";
+import Contact from "./Contact";
+import SimulatorTransport from "../transports/simulator";
+
+// Builds replies the way the connector (inbound) and POST /api/whatsapp/send
+// (outbound) do, from messages going through the simulator, and runs the
+// validation save() runs before writing.
+describe("quoted replies", () => {
+  const connectedSimulator = () => {
+    const transport = new SimulatorTransport({ sessionId: "spec" });
+    transport.scan();
+    return transport;
+  };
+
+  const original = new Message({
+    phone: "447700900123",
+    direction: "outbound",
+    message: "Your order has shipped",
+    type: "text",
+    whatsappId: "true_447700900123@c.us_SIM1",
+  });
+
+  it("keeps the quote of an inbound reply", async () => {
+    const transport = connectedSimulator();
+    const received = new Promise((resolve) => transport.once("message", resolve));
+    transport.injectInbound({ from: "447700900123", body: "Thanks!", quotedId: original.whatsappId });
+    const msg = await received;
+
+    const reply = new Message({
+      phone: "447700900123",
+      direction: "inbound",
+      message: msg.body,
+      whatsappId: msg.id,
+      quoted: msg.quotedId === original.whatsappId ? original.toQuote() : { whatsappId: msg.quotedId },
+    });
+
+    await expect(reply.validate()).resolves.toBeUndefined();
+    expect(reply.quoted.whatsappId).toBe(original.whatsappId);
+    expect(reply.quoted.type).toBe("text");
+    expect(reply.quoted.direction).toBe("outbound");
+  });
+
+  it("keeps the quote of an outbound reply and sends it", async () => {
+    const transport = connectedSimulator();
+    const reply = new Message({
+      phone: "447700900123",
+      direction: "outbound",
+      message: "You're welcome",
+      quoted: original.toQuote(),
+    });
+
+    await expect(reply.validate()).resolves.toBeUndefined();
+    expect(reply.quoted.messageId.equals(original._id)).toBe(true);
+    expect(reply.quoted.message).toBe("Your order has shipped");
+
+    await transport.sendMessage("447700900123@c.us", reply.message, null, { quotedId: reply.quoted.whatsappId });
+    expect(transport.outbox[0].quotedId).toBe(original.whatsappId);
+  });
+});
+
+// Writes go to a stubbed collection; what matters is which saves update the
+// contact's conversation summary
+describe("conversation summary", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  const stubWrites = () => {
+    vi.spyOn(Message.collection, "insertOne").mockResolvedValue({ acknowledged: true });
+    vi.spyOn(Message.collection, "updateOne").mockResolvedValue({ acknowledged: true, matchedCount: 1, modifiedCount: 1 });
+    return vi.spyOn(Contact, "recordMessage").mockResolvedValue({});
+  };
+  const fields = { contactId: new mongoose.Types.ObjectId(), phone: "447700900123", message: "Hello" };
+
+  it("counts an inbound message once, when stored", async () => {
+    const recordMessage = stubWrites();
+    const message = new Message({ ...fields, direction: "inbound", status: "delivered" });
+    await message.save();
+    message.status = "read";
+    await message.save();
+
+    expect(recordMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("counts a queued reply only once the queue has sent it", async () => {
+    const recordMessage = stubWrites();
+    await new Message({ ...fields, direction: "outbound", status: "queued" }).save();
+    expect(recordMessage).not.toHaveBeenCalled();
+
+    // As the queue claims it and then delivers it
+    const claimed = Message.hydrate({ ...fields, _id: new mongoose.Types.ObjectId(), direction: "outbound", status: "sending" });
+    claimed.status = "sent";
+    await claimed.save();
+    claimed.status = "delivered";
+    await claimed.save();
+
+    expect(recordMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not count a reply that failed for good", async () => {
+    const recordMessage = stubWrites();
+    const claimed = Message.hydrate({ ...fields, _id: new mongoose.Types.ObjectId(), direction: "outbound", status: "sending" });
+    claimed.status = "failed";
+    await claimed.save();
+
+    expect(recordMessage).not.toHaveBeenCalled();
+  });
+});
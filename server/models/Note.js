@@ -11,10 +11,15 @@ const noteSchema = new mongoose.Schema({
     required: true,
     trim: true
   },
+  // Display name of the author; notes from before accounts existed say 'Agent'
   author: {
     type: String,
     default: 'Agent'
   },
+  authorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
   createdAt: {
     type: Date,
     default: Date.now
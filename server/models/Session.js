@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+
+// A signed-in browser. The cookie holds a random token; only its hash is stored,
+// so a database leak does not hand out sessions.
+const sessionSchema = new mongoose.Schema({
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  userAgent: String,
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// MongoDB removes sessions once they expire
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+sessionSchema.index({ userId: 1 });
+
+module.exports = mongoose.model('Session', sessionSchema);
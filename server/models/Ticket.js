@@ -0,0 +1,81 @@
+const mongoose = require('mongoose');
+
+const TICKET_STATUSES = ['new', 'in-progress', 'resolved', 'closed'];
+// Why a ticket was resolved; one is required to resolve or close it
+const DISPOSITIONS = ['answered', 'fixed', 'duplicate', 'no-response', 'spam', 'other'];
+
+const actor = {
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  name: String
+};
+
+// One customer issue. A contact gets a new ticket when they write again after
+// the last one was resolved or closed; Contact.queryStatus mirrors the status
+// of the current one (Contact.ticketId). See services/tickets.
+const ticketSchema = new mongoose.Schema({
+  contactId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Contact',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: TICKET_STATUSES,
+    default: 'new'
+  },
+  openedAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Our first reply after the ticket was opened
+  firstResponseAt: {
+    type: Date
+  },
+  resolvedAt: {
+    type: Date
+  },
+  closedAt: {
+    type: Date
+  },
+  disposition: {
+    type: String,
+    enum: DISPOSITIONS
+  },
+  resolutionNote: {
+    type: String,
+    trim: true
+  },
+  // Status changes, oldest first; `by` is empty for automatic ones
+  history: [{
+    _id: false,
+    from: { type: String, enum: TICKET_STATUSES },
+    to: { type: String, enum: TICKET_STATUSES },
+    by: actor,
+    disposition: String,
+    note: String,
+    at: { type: Date, default: Date.now }
+  }],
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// A contact's tickets, newest first
+ticketSchema.index({ contactId: 1, openedAt: -1 });
+ticketSchema.index({ status: 1, openedAt: -1 });
+
+ticketSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+const Ticket = mongoose.model('Ticket', ticketSchema);
+Ticket.STATUSES = TICKET_STATUSES;
+Ticket.DISPOSITIONS = DISPOSITIONS;
+
+module.exports = Ticket;
@@ -0,0 +1,97 @@
+const mongoose = require('mongoose');
+
+// Roles from least to most access; see middleware/auth for what each may do
+const ROLES = ['read-only', 'agent', 'supervisor', 'admin'];
+const AVAILABILITY = ['online', 'away', 'offline'];
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const userSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  role: {
+    type: String,
+    enum: ROLES,
+    default: 'agent'
+  },
+  // scrypt hash, see services/auth
+  passwordHash: {
+    type: String,
+    required: true
+  },
+  // Deactivated accounts cannot sign in; their notes and messages keep their name
+  active: {
+    type: Boolean,
+    default: true
+  },
+  lastLoginAt: {
+    type: Date
+  },
+  // Status set in the sidebar; `idle` when the server set away after inactivity
+  availability: {
+    status: { type: String, enum: AVAILABILITY, default: 'offline' },
+    changedAt: Date,
+    idle: { type: Boolean, default: false }
+  },
+  // Last time the app was used, for the idle timeout
+  lastActiveAt: {
+    type: Date
+  },
+  // Weekly working hours in `timezone`, "HH:MM"; day 0 is Sunday. No shifts
+  // means always on shift. See services/availability.
+  shifts: [{
+    _id: false,
+    day: { type: Number, min: 0, max: 6, required: true },
+    start: { type: String, match: TIME, required: true },
+    end: { type: String, match: TIME, required: true }
+  }],
+  timezone: {
+    type: String,
+    default: 'UTC'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  toJSON: {
+    transform(doc, ret) {
+      delete ret.passwordHash;
+      return ret;
+    }
+  }
+});
+
+userSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+// Whether the user has `role` or a higher one
+userSchema.methods.hasRole = function(role) {
+  return ROLES.indexOf(this.role) >= ROLES.indexOf(role);
+};
+
+// Who did something, as stored on notes, messages and contacts
+userSchema.methods.toActor = function() {
+  return { userId: this._id, name: this.name };
+};
+
+const User = mongoose.model('User', userSchema);
+User.ROLES = ROLES;
+User.AVAILABILITY = AVAILABILITY;
+
+module.exports = User;
@@ -0,0 +1,34 @@
+const mongoose = require('mongoose');
+
+// A WhatsApp number connected to the app. The 'default' session always exists
+// and is not stored here.
+const whatsAppSessionSchema = new mongoose.Schema({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: /^[a-z0-9_-]{1,32}$/
+  },
+  label: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+whatsAppSessionSchema.pre('save', function(next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+module.exports = mongoose.model('WhatsAppSession', whatsAppSessionSchema);
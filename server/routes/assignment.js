@@ -0,0 +1,102 @@
+const express = require('express');
+const router = express.Router();
+const User = require('../models/User');
+const AssignmentSettings = require('../models/AssignmentSettings');
+const { openConversationCounts, capacityOf } = require('../services/assignment');
+const { isOnShift, isAvailable } = require('../services/availability');
+const { badRequest, isId } = require('../services/http');
+
+// Auto-assignment settings; changing them is for supervisors (see index.js)
+
+const parseLimit = (value, label) => {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw badRequest(`${label} must be a whole number, 0 for no limit`);
+  }
+  return limit;
+};
+
+// The changes in a PUT body, checked
+function settingsChanges(body) {
+  const changes = {};
+  if (body.enabled !== undefined) changes.enabled = Boolean(body.enabled);
+  if (body.strategy !== undefined) {
+    if (!AssignmentSettings.STRATEGIES.includes(body.strategy)) {
+      throw badRequest(`strategy must be one of ${AssignmentSettings.STRATEGIES.join(', ')}`);
+    }
+    changes.strategy = body.strategy;
+  }
+  if (body.maxConcurrent !== undefined) {
+    changes.maxConcurrent = parseLimit(body.maxConcurrent, 'Maximum conversations');
+  }
+  if (body.awayAfterMinutes !== undefined) {
+    changes.awayAfterMinutes = parseLimit(body.awayAfterMinutes, 'Minutes before away');
+  }
+  if (body.agentLimits !== undefined) {
+    if (!Array.isArray(body.agentLimits)) throw badRequest('agentLimits must be a list');
+    changes.agentLimits = body.agentLimits.map((limit) => {
+      if (!isId(limit.userId)) throw badRequest('Every agent limit needs a userId');
+      return { userId: limit.userId, max: parseLimit(limit.max, 'Maximum conversations') };
+    });
+  }
+  if (body.routes !== undefined) {
+    if (!Array.isArray(body.routes)) throw badRequest('routes must be a list');
+    changes.routes = body.routes.map((route) => {
+      const tags = (Array.isArray(route.tags) ? route.tags : []).map((tag) => String(tag).trim()).filter(Boolean);
+      const agents = Array.isArray(route.agents) ? route.agents : [];
+      if (tags.length === 0 || agents.length === 0) {
+        throw badRequest('Every route needs at least one tag and one agent');
+      }
+      if (!agents.every(isId)) throw badRequest('Route agents must be user ids');
+      return { name: String(route.name || '').trim(), tags, agents };
+    });
+  }
+  return changes;
+}
+
+router.get('/settings', async (req, res) => {
+  try {
+    res.json(await AssignmentSettings.current());
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.put('/settings', async (req, res) => {
+  try {
+    const settings = await AssignmentSettings.current();
+    settings.set(settingsChanges(req.body));
+    await settings.save();
+    res.json(settings);
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Everyone who can take conversations, with their status, whether they are on
+// shift and get conversations now, how many open conversations they hold and
+// how many they may hold (0 for no limit)
+router.get('/agents', async (req, res) => {
+  try {
+    const [settings, users] = await Promise.all([
+      AssignmentSettings.current(),
+      User.find({ active: true, role: { $ne: 'read-only' } }).sort({ name: 1 })
+    ]);
+    const loads = await openConversationCounts(users.map((user) => user._id));
+    const now = new Date();
+    res.json(users.map((user) => ({
+      _id: user._id,
+      name: user.name,
+      role: user.role,
+      status: user.availability.status,
+      onShift: isOnShift(user, now),
+      available: isAvailable(user, now),
+      openConversations: loads.get(String(user._id)) || 0,
+      capacity: capacityOf(settings, user._id)
+    })));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,97 @@
+const express = require('express');
+const router = express.Router();
+const User = require('../models/User');
+const { authenticate } = require('../middleware/auth');
+const { setAvailability, recordActivity } = require('../services/availability');
+const {
+  SESSION_COOKIE,
+  authenticateUser,
+  createSession,
+  endSession,
+  endUserSessions,
+  readSessionToken,
+  cookieOptions,
+  verifyPassword,
+  hashPassword,
+  userForToken
+} = require('../services/auth');
+
+// Sign in with email and password; sets the session cookie
+router.post('/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+    const user = await authenticateUser(email, password);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+    const { token, expiresAt } = await createSession(user, { userAgent: req.get('User-Agent') });
+    res.cookie(SESSION_COOKIE, token, cookieOptions(expiresAt));
+    res.json(user);
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Signing out also sets the user offline
+router.post('/logout', async (req, res) => {
+  try {
+    const token = readSessionToken(req);
+    const user = await userForToken(token);
+    if (user && user.availability.status !== 'offline') await setAvailability(user, 'offline');
+    await endSession(token);
+    res.clearCookie(SESSION_COOKIE, cookieOptions());
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The signed-in user, or 401
+router.get('/me', authenticate, (req, res) => {
+  res.json(req.user);
+});
+
+// Change your own password; other sessions of the account are signed out
+router.put('/me/password', authenticate, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    if (!(await verifyPassword(currentPassword, req.user.passwordHash))) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+    req.user.passwordHash = await hashPassword(newPassword);
+    await req.user.save();
+    await endUserSessions(req.user._id, { except: readSessionToken(req) });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Set your own status: online, away or offline
+router.put('/me/availability', authenticate, async (req, res) => {
+  try {
+    const { status } = req.body;
+    if (!User.AVAILABILITY.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${User.AVAILABILITY.join(', ')}` });
+    }
+    req.user.lastActiveAt = new Date();
+    res.json(await setAvailability(req.user, status));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// The app is being used; sent by the client while the user is active, so
+// idle agents can be set away (see services/availability)
+router.post('/me/activity', authenticate, async (req, res) => {
+  try {
+    res.json(await recordActivity(req.user));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -1,14 +1,119 @@
 const express = require('express');
 const router = express.Router();
 const Contact = require('../models/Contact');
+const User = require('../models/User');
+const { publish } = require('../services/realtime');
+const { previewImport, importExport } = require('../services/chatExport');
+const { normalizePhone } = require('../services/phone');
+const { parseLimit, findPage, escapeRegex } = require('../services/pagination');
+const { contactSearchFilter } = require('../services/search');
+const { requireRole } = require('../middleware/auth');
+const { assignConversation } = require('../services/assignment');
+const { changeTicketStatus } = require('../services/tickets');
+const { badRequest, isId } = require('../services/http');
 
-// Get all contacts
+const QUERY_STATUSES = ['new', 'in-progress', 'resolved', 'closed'];
+// Changed through their own endpoints, which keep their history
+const MANAGED_FIELDS = [
+  'queryStatus', 'ticketId', 'statusChangedBy', 'statusChangedAt', 'assignedTo', 'assignedAt', 'assignmentHistory'
+];
+
+// ?sort= values: field and direction
+const SORTS = {
+  recent: { field: 'updatedAt', direction: -1, isDate: true },
+  'last-contacted': { field: 'lastContacted', direction: -1, isDate: true },
+  newest: { field: 'createdAt', direction: -1, isDate: true },
+  oldest: { field: 'createdAt', direction: 1, isDate: true },
+  name: { field: 'name', direction: 1, collation: { locale: 'en', strength: 2 } },
+  unread: { field: 'unreadCount', direction: -1 }
+};
+
+const listParam = (value) => (value ? String(value).split(',').map((v) => v.trim()).filter(Boolean) : []);
+
+function dateParam(query, name) {
+  if (!query[name]) return undefined;
+  const date = new Date(query[name]);
+  if (isNaN(date.getTime())) {
+    throw badRequest(`${name} must be a date`);
+  }
+  return date;
+}
+
+// Filter for the list query parameters
+function listFilter(query) {
+  const and = [];
+
+  const statuses = listParam(query.status);
+  if (statuses.some((s) => !QUERY_STATUSES.includes(s))) {
+    throw badRequest(`status must be one of ${QUERY_STATUSES.join(', ')}`);
+  }
+  if (statuses.length > 0) and.push({ queryStatus: { $in: statuses } });
+
+  const tags = listParam(query.tags);
+  if (tags.length > 0) and.push({ tags: { $all: tags } });
+
+  if (query.company) {
+    and.push({ company: { $regex: `^${escapeRegex(query.company.trim())}$`, $options: 'i' } });
+  }
+  if (query.chatType) {
+    and.push({ chatType: query.chatType });
+  }
+  if (query.unread === 'true') and.push({ unreadCount: { $gt: 0 } });
+  if (query.unread === 'false') and.push({ unreadCount: { $in: [0, null] } });
+
+  const ranges = [
+    ['createdAt', 'createdAfter', 'createdBefore'],
+    ['lastContacted', 'contactedAfter', 'contactedBefore']
+  ];
+  for (const [field, after, before] of ranges) {
+    const from = dateParam(query, after);
+    const to = dateParam(query, before);
+    if (from || to) {
+      and.push({ [field]: { ...(from && { $gte: from }), ...(to && { $lte: to }) } });
+    }
+  }
+
+  if (query.q && query.q.trim()) {
+    and.push(contactSearchFilter(query.q.trim()));
+  }
+  return and.length > 0 ? { $and: and } : {};
+}
+
+// List contacts, a page at a time. Query parameters, all optional:
+//   q          search in name, phone, email and company
+//   status     queryStatus, comma separated (new,in-progress)
+//   tags       contacts with all of these tags, comma separated
+//   company    exact company name, case insensitive
+//   chatType   individual or group
+//   unread     true or false
+//   createdAfter, createdBefore, contactedAfter, contactedBefore   dates
+//   sort       recent (default), last-contacted, newest, oldest, name, unread
+//   limit      page size, default 50, at most 200
+//   cursor     nextCursor of the previous page
+// Responds { contacts, nextCursor, total }; nextCursor is null on the last page.
 router.get('/', async (req, res) => {
   try {
-    const contacts = await Contact.find().sort({ updatedAt: -1 });
-    res.json(contacts);
+    const sort = SORTS[req.query.sort || 'recent'];
+    if (!sort) {
+      return res.status(400).json({ error: `sort must be one of ${Object.keys(SORTS).join(', ')}` });
+    }
+    const filter = listFilter(req.query);
+    const limit = parseLimit(req.query.limit);
+
+    const [page, total] = await Promise.all([
+      findPage(Contact, filter, {
+        sortField: sort.field,
+        direction: sort.direction,
+        isDate: sort.isDate,
+        collation: sort.collation,
+        cursor: req.query.cursor,
+        limit
+      }),
+      Contact.countDocuments(filter)
+    ]);
+    res.json({ contacts: page.items, nextCursor: page.nextCursor, total });
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    res.status(error.status || 500).json({ error: error.message });
   }
 });
 
@@ -28,7 +133,17 @@ router.get('/:id', async (req, res) => {
 // Create contact
 router.post('/', async (req, res) => {
   try {
-    const contact = new Contact(req.body);
+    const fields = { ...req.body };
+    MANAGED_FIELDS.forEach((field) => delete fields[field]);
+    if (fields.chatType !== 'group') {
+      fields.phone = normalizePhone(fields.phone);
+    }
+    const existing = await Contact.findOne({ phone: fields.phone });
+    if (existing) {
+      return res.status(409).json({ error: `This number already belongs to ${existing.name}`, contact: existing });
+    }
+
+    const contact = new Contact(fields);
     await contact.save();
     res.status(201).json(contact);
   } catch (error) {
@@ -39,14 +154,28 @@ router.post('/', async (req, res) => {
 // Update contact
 router.put('/:id', async (req, res) => {
   try {
+    const update = { ...req.body };
+    MANAGED_FIELDS.forEach((field) => delete update[field]);
+    if (update.phone !== undefined) {
+      const current = await Contact.findById(req.params.id);
+      if (current && current.chatType !== 'group') {
+        update.phone = normalizePhone(update.phone);
+        const existing = await Contact.findOne({ phone: update.phone, _id: { $ne: current._id } });
+        if (existing) {
+          return res.status(409).json({ error: `This number already belongs to ${existing.name}` });
+        }
+      }
+    }
+
     const contact = await Contact.findByIdAndUpdate(
       req.params.id,
-      req.body,
+      update,
       { new: true, runValidators: true }
     );
     if (!contact) {
       return res.status(404).json({ error: 'Contact not found' });
     }
+    publish('contact-updated', contact);
     res.json(contact);
   } catch (error) {
     res.status(400).json({ error: error.message });
@@ -54,7 +183,7 @@ router.put('/:id', async (req, res) => {
 });
 
 // Delete contact
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireRole('supervisor'), async (req, res) => {
   try {
     const contact = await Contact.findByIdAndDelete(req.params.id);
     if (!contact) {
@@ -69,42 +198,83 @@ router.delete('/:id', async (req, res) => {
 // Search contacts
 router.get('/search/:query', async (req, res) => {
   try {
-    const query = req.params.query;
-    const contacts = await Contact.find({
-      $or: [
-        { name: { $regex: query, $options: 'i' } },
-        { phone: { $regex: query, $options: 'i' } },
-        { email: { $regex: query, $options: 'i' } },
-        { company: { $regex: query, $options: 'i' } }
-      ]
-    });
+    const contacts = await Contact.find(contactSearchFilter(req.params.query));
     res.json(contacts);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// Update query status
+// Change the status of the current ticket: { status, disposition, note }.
+// Resolving needs a disposition (see services/tickets).
 router.patch('/:id/status', async (req, res) => {
   try {
-    const { status } = req.body;
-    if (!['new', 'in-progress', 'resolved', 'closed'].includes(status)) {
-      return res.status(400).json({ error: 'Invalid status' });
-    }
-    
-    const contact = await Contact.findByIdAndUpdate(
-      req.params.id,
-      { queryStatus: status },
-      { new: true }
-    );
+    const { status, disposition, note } = req.body;
+    const contact = await Contact.findById(req.params.id);
     
     if (!contact) {
       return res.status(404).json({ error: 'Contact not found' });
     }
     
+    const previous = contact.queryStatus;
+    await changeTicketStatus(contact, status, { user: req.user, disposition, note });
+    
+    if (previous !== contact.queryStatus) {
+      publish('status-change', { contactId: contact._id, queryStatus: contact.queryStatus, previous, by: contact.statusChangedBy });
+    }
+    publish('contact-updated', contact);
     res.json(contact);
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Assign the conversation to an agent: { userId }, yourself when left out.
+// Agents can take unassigned conversations; giving a conversation to someone
+// else, or taking one from someone else, is for supervisors.
+router.post('/:id/assign', async (req, res) => {
+  try {
+    const contact = await Contact.findById(req.params.id);
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+    const userId = req.body.userId || String(req.user._id);
+    const current = contact.assignedTo && contact.assignedTo.userId;
+    const supervisor = req.user.hasRole('supervisor');
+    if (!supervisor && (userId !== String(req.user._id) || (current && !current.equals(req.user._id)))) {
+      return res.status(403).json({
+        error: current ? `Assigned to ${contact.assignedTo.name}; ask a supervisor to reassign it` : 'Only supervisors can assign conversations to others'
+      });
+    }
+
+    const assignee = isId(userId) ? await User.findById(userId) : null;
+    if (!assignee || !assignee.active || !assignee.hasRole('agent')) {
+      return res.status(400).json({ error: 'Conversations can only be assigned to active agents' });
+    }
+
+    const updated = await assignConversation(contact._id, assignee, { by: req.user, expected: current || null });
+    res.json(updated);
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Unassign the conversation; agents can only give up their own
+router.post('/:id/unassign', async (req, res) => {
+  try {
+    const contact = await Contact.findById(req.params.id);
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+    const current = contact.assignedTo && contact.assignedTo.userId;
+    if (current && !current.equals(req.user._id) && !req.user.hasRole('supervisor')) {
+      return res.status(403).json({ error: `Assigned to ${contact.assignedTo.name}; ask a supervisor to unassign it` });
+    }
+
+    const updated = await assignConversation(contact._id, null, { by: req.user, expected: current || null });
+    res.json(updated);
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
   }
 });
 
@@ -121,6 +291,7 @@ router.post('/:id/read', async (req, res) => {
       return res.status(404).json({ error: 'Contact not found' });
     }
     
+    publish('contact-updated', contact);
     res.json(contact);
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -174,6 +345,7 @@ router.post('/:id/tags', async (req, res) => {
     if (!contact.tags.includes(tag)) {
       contact.tags.push(tag);
       await contact.save();
+      publish('contact-updated', contact);
     }
     
     res.json(contact);
@@ -193,6 +365,7 @@ router.delete('/:id/tags/:tag', async (req, res) => {
     if (contact.tags) {
       contact.tags = contact.tags.filter(t => t !== req.params.tag);
       await contact.save();
+      publish('contact-updated', contact);
     }
     
     res.json(contact);
@@ -204,19 +377,45 @@ router.delete('/:id/tags/:tag', async (req, res) => {
 // Get all unique tags
 router.get('/tags/all', async (req, res) => {
   try {
-    const contacts = await Contact.find({ tags: { $exists: true, $ne: [] } });
-    const allTags = new Set();
-    contacts.forEach(contact => {
-      if (contact.tags) {
-        contact.tags.forEach(tag => allTags.add(tag));
-      }
-    });
-    res.json(Array.from(allTags));
+    const tags = await Contact.aggregate([
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags' } },
+      { $sort: { _id: 1 } }
+    ]);
+    res.json(tags.map((tag) => tag._id));
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// Preview a WhatsApp "Export chat" file (.txt or .zip) before importing it
+router.post('/:id/import-chat/preview', async (req, res) => {
+  try {
+    const contact = await Contact.findById(req.params.id);
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+    res.json(await previewImport(contact, req.body));
+  } catch (error) {
+    if (!error.status) console.error('Error previewing chat export:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Import a WhatsApp "Export chat" file into the contact's history
+router.post('/:id/import-chat', async (req, res) => {
+  try {
+    const contact = await Contact.findById(req.params.id);
+    if (!contact) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+    res.json(await importExport(contact, req.body));
+  } catch (error) {
+    if (!error.status) console.error('Error importing chat export:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
 // Get contact insights
 router.get('/:id/insights', async (req, res) => {
   try {
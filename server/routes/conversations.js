@@ -1,7 +1,11 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const router = express.Router();
 const Message = require('../models/Message');
 const Contact = require('../models/Contact');
+const { parseLimit, encodeCursor, afterCursor, escapeRegex } = require('../services/pagination');
+const { SLA_HOURS } = require('../services/conversations');
+const { badRequest, isId } = require('../services/http');
 
 // Helper to calculate SLA time
 function calculateSLATime(lastMessageTime, slaHours = 2) {
@@ -40,68 +44,130 @@ function calculateSLATime(lastMessageTime, slaHours = 2) {
   }
 }
 
-// Get all conversations (grouped by contact)
+const QUERY_STATUSES = ['new', 'in-progress', 'resolved', 'closed'];
+
+const listParam = (value) => (value ? String(value).split(',').map((v) => v.trim()).filter(Boolean) : []);
+
+// Contact filter for the list query parameters
+function conversationFilter(query, user) {
+  const and = [{ lastMessageAt: { $ne: null } }];
+
+  if (query.assigned === 'me') {
+    and.push({ 'assignedTo.userId': user._id });
+  } else if (query.assigned === 'none') {
+    and.push({ 'assignedTo.userId': null });
+  } else if (query.assigned) {
+    if (!isId(query.assigned)) {
+      throw badRequest('assigned must be me, none or a user id');
+    }
+    and.push({ 'assignedTo.userId': new mongoose.Types.ObjectId(query.assigned) });
+  }
+
+  const statuses = listParam(query.status);
+  if (statuses.some((s) => !QUERY_STATUSES.includes(s))) {
+    throw badRequest(`status must be one of ${QUERY_STATUSES.join(', ')}`);
+  }
+  if (statuses.length > 0) and.push({ queryStatus: { $in: statuses } });
+
+  const tags = listParam(query.tags);
+  if (tags.length > 0) and.push({ tags: { $all: tags } });
+
+  if (query.chatType) and.push({ chatType: query.chatType });
+  if (query.unread === 'true') and.push({ unreadCount: { $gt: 0 } });
+  if (query.overdue === 'true') {
+    and.push({ awaitingReplySince: { $ne: null, $lte: new Date(Date.now() - SLA_HOURS * 3600000) } });
+  }
+
+  if (query.q && query.q.trim()) {
+    const text = query.q.trim();
+    const conditions = [{ name: { $regex: escapeRegex(text), $options: 'i' } }];
+    const digits = text.replace(/\D/g, '');
+    if (digits) conditions.push({ phone: { $regex: digits } });
+    and.push({ $or: conditions });
+  }
+  return { $and: and };
+}
+
+// List conversations, most recent first, a page at a time. Query parameters,
+// all optional:
+//   assigned   me, none (unassigned) or a user id
+//   status     queryStatus, comma separated
+//   tags       contacts with all of these tags, comma separated
+//   overdue    true for conversations past the reply SLA
+//   unread     true for conversations with unread messages
+//   chatType   individual or group
+//   q          name or number
+//   limit      page size, default 50, at most 200
+//   cursor     nextCursor of the previous page
+// Responds { conversations, nextCursor }. Everything comes from one aggregation
+// over contacts and their conversation summary; the last message and the
+// message count are looked up for the page only.
 router.get('/', async (req, res) => {
   try {
-    const conversations = await Message.aggregate([
+    const filter = conversationFilter(req.query, req.user);
+    const limit = parseLimit(req.query.limit);
+    if (req.query.cursor) {
+      filter.$and.push(afterCursor(req.query.cursor, 'lastMessageAt', -1, { isDate: true }));
+    }
+
+    const page = await Contact.aggregate([
+      { $match: filter },
+      { $sort: { lastMessageAt: -1, _id: -1 } },
+      { $limit: limit + 1 },
+      // The history is for the conversation view, GET /api/contacts/:id
+      { $project: { assignmentHistory: 0 } },
       {
-        $group: {
-          _id: '$contactId',
-          lastMessage: { $max: '$timestamp' },
-          messageCount: { $sum: 1 },
-          unreadCount: {
-            $sum: {
-              $cond: [{ $eq: ['$direction', 'inbound'] }, 1, 0]
-            }
-          }
+        $lookup: {
+          from: Message.collection.name,
+          localField: '_id',
+          foreignField: 'contactId',
+          pipeline: [
+            { $sort: { timestamp: -1 } },
+            { $limit: 1 },
+            { $project: { message: 1, type: 1, author: 1, timestamp: 1, direction: 1, sentiment: 1, deletedAt: 1 } }
+          ],
+          as: 'lastMessages'
         }
       },
-      { $sort: { lastMessage: -1 } }
+      {
+        $lookup: {
+          from: Message.collection.name,
+          localField: '_id',
+          foreignField: 'contactId',
+          pipeline: [{ $count: 'count' }],
+          as: 'messageCounts'
+        }
+      }
     ]);
 
-    // Populate contact details with SLA info
-    const populatedConversations = await Promise.all(
-      conversations.map(async (conv) => {
-        const contact = await Contact.findById(conv._id);
-        const lastMessage = await Message.findOne({ contactId: conv._id })
-          .sort({ timestamp: -1 });
-        
-        // Calculate SLA
-        let slaInfo = null;
-        if (contact && contact.lastContacted) {
-          slaInfo = calculateSLATime(contact.lastContacted);
-        }
-        
-        // Get sentiment of last message
-        let sentiment = 'neutral';
-        if (lastMessage && lastMessage.direction === 'inbound') {
-          const lowerMsg = lastMessage.message.toLowerCase();
-          const negativeWords = ['bad', 'terrible', 'worst', 'angry', 'frustrated', 'disappointed', 'hate', 'problem', 'issue', 'error'];
-          const positiveWords = ['thank', 'great', 'good', 'excellent', 'happy', 'satisfied', 'love', 'perfect'];
-          const negCount = negativeWords.filter(w => lowerMsg.includes(w)).length;
-          const posCount = positiveWords.filter(w => lowerMsg.includes(w)).length;
-          if (negCount > posCount) sentiment = 'negative';
-          else if (posCount > negCount) sentiment = 'positive';
-        }
-        
-        return {
-          contact,
-          lastMessage: lastMessage ? {
-            message: lastMessage.message,
-            timestamp: lastMessage.timestamp,
-            direction: lastMessage.direction
-          } : null,
-          messageCount: conv.messageCount,
-          unreadCount: conv.unreadCount || 0,
-          sla: slaInfo,
-          sentiment: sentiment
-        };
-      })
-    );
-
-    res.json(populatedConversations);
+    const hasMore = page.length > limit;
+    if (hasMore) page.pop();
+
+    const conversations = page.map(({ lastMessages, messageCounts, ...contact }) => {
+      const lastMessage = lastMessages[0] || null;
+      return {
+        contact,
+        lastMessage: lastMessage ? {
+          message: lastMessage.message,
+          type: lastMessage.type,
+          author: lastMessage.author && lastMessage.author.phone ? lastMessage.author : undefined,
+          timestamp: lastMessage.timestamp,
+          direction: lastMessage.direction,
+          deleted: Boolean(lastMessage.deletedAt)
+        } : null,
+        messageCount: messageCounts[0] ? messageCounts[0].count : 0,
+        unreadCount: contact.unreadCount || 0,
+        sla: contact.awaitingReplySince ? calculateSLATime(contact.awaitingReplySince, SLA_HOURS) : null,
+        sentiment: lastMessage && lastMessage.direction === 'inbound' ? lastMessage.sentiment || 'neutral' : 'neutral'
+      };
+    });
+
+    res.json({
+      conversations,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1], 'lastMessageAt') : null
+    });
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    res.status(error.status || 500).json({ error: error.message });
   }
 });
 
@@ -2,6 +2,44 @@ const express = require('express');
 const router = express.Router();
 const Message = require('../models/Message');
 const Contact = require('../models/Contact');
+const { getStorage } = require('../storage');
+const { normalizePhone } = require('../services/phone');
+const { parseLimit, findPage } = require('../services/pagination');
+const { queryTerms, snippet } = require('../services/search');
+const { badRequest, isId } = require('../services/http');
+
+// A position in a thread: a message id (exact) or a date
+async function threadAnchor(contactId, value) {
+  if (isId(value)) {
+    const message = await Message.findOne({ _id: value, contactId }, 'timestamp');
+    if (!message) throw badRequest('That message is not part of this conversation');
+    return { timestamp: message.timestamp, id: message._id };
+  }
+  const timestamp = new Date(value);
+  if (isNaN(timestamp.getTime())) {
+    throw badRequest('Expected a message id or a date');
+  }
+  return { timestamp, id: null };
+}
+
+// Up to `limit` messages before (older) or after (newer) an anchor, plus whether
+// there are more. `inclusive` keeps messages at exactly the anchor's date.
+async function threadPage(contactId, anchor, older, limit, { inclusive = false } = {}) {
+  const beyond = older ? '$lt' : '$gt';
+  let position = {};
+  if (anchor && anchor.id) {
+    position = { $or: [{ timestamp: { [beyond]: anchor.timestamp } }, { timestamp: anchor.timestamp, _id: { [beyond]: anchor.id } }] };
+  } else if (anchor) {
+    position = { timestamp: { [inclusive ? `${beyond}e` : beyond]: anchor.timestamp } };
+  }
+  const direction = older ? -1 : 1;
+  const messages = await Message.find({ contactId, ...position })
+    .sort({ timestamp: direction, _id: direction })
+    .limit(limit + 1);
+  const more = messages.length > limit;
+  if (more) messages.pop();
+  return { messages: older ? messages.reverse() : messages, more };
+}
 
 // Get all messages
 router.get('/', async (req, res) => {
@@ -18,26 +56,121 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Get messages for a contact
-router.get('/contact/:contactId', async (req, res) => {
+// Outbound messages that have not gone out: waiting in the queue or dead-lettered
+router.get('/outbox', async (req, res) => {
   try {
-    const messages = await Message.find({ contactId: req.params.contactId })
-      .sort({ timestamp: 1 });
+    const messages = await Message.find({
+      direction: 'outbound',
+      status: { $in: ['queued', 'sending', 'failed'] }
+    })
+      .populate('contactId', 'name phone')
+      .sort({ timestamp: -1 })
+      .limit(200);
     res.json(messages);
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// Messages of a contact, a page at a time, oldest first within the page:
+//   (nothing)          the latest messages
+//   before=<id|date>   older messages, for scrolling up
+//   after=<id|date>    newer messages, for scrolling down
+//   around=<date>      messages on both sides of a date, for jumping to it
+//   limit              page size, default 50, at most 200
+// Responds { messages, hasOlder, hasNewer }.
+router.get('/contact/:contactId', async (req, res) => {
+  try {
+    const { contactId } = req.params;
+    const { before, after, around } = req.query;
+    const limit = parseLimit(req.query.limit);
+
+    if (around) {
+      const anchor = await threadAnchor(contactId, around);
+      const half = Math.max(1, Math.floor(limit / 2));
+      const [older, newer] = await Promise.all([
+        threadPage(contactId, { timestamp: anchor.timestamp, id: null }, true, half),
+        threadPage(contactId, { timestamp: anchor.timestamp, id: null }, false, limit - half, { inclusive: true })
+      ]);
+      return res.json({ messages: [...older.messages, ...newer.messages], hasOlder: older.more, hasNewer: newer.more });
+    }
+    if (after) {
+      const page = await threadPage(contactId, await threadAnchor(contactId, after), false, limit);
+      return res.json({ messages: page.messages, hasOlder: true, hasNewer: page.more });
+    }
+
+    const anchor = before ? await threadAnchor(contactId, before) : null;
+    const page = await threadPage(contactId, anchor, true, limit);
+    res.json({ messages: page.messages, hasOlder: page.more, hasNewer: Boolean(before) });
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Full-text search over message bodies, newest first:
+//   q                      words to find (required); "quoted phrases" and -excluded words work
+//   contactId              only this conversation
+//   direction              inbound | outbound
+//   from, to               date range
+//   sentiment              positive | neutral | negative
+//   limit, cursor          paging, as for contacts
+// Responds { results, nextCursor }; each result has the contact, a snippet of
+// the text and the [start, end) offsets of the matched words in it.
+router.get('/search', async (req, res) => {
+  try {
+    const { q, contactId, direction, from, to, sentiment } = req.query;
+    if (!q || !String(q).trim()) throw badRequest('q is required');
+    const limit = parseLimit(req.query.limit, { fallback: 30, max: 100 });
+
+    const conditions = [{ $text: { $search: String(q) } }];
+    if (contactId) {
+      if (!isId(contactId)) throw badRequest('Invalid contactId');
+      conditions.push({ contactId });
+    }
+    if (direction) {
+      if (!['inbound', 'outbound'].includes(direction)) throw badRequest('direction must be inbound or outbound');
+      conditions.push({ direction });
+    }
+    if (sentiment) {
+      if (!['positive', 'neutral', 'negative'].includes(sentiment)) throw badRequest('sentiment must be positive, neutral or negative');
+      conditions.push({ sentiment });
+    }
+    for (const [field, value, operator] of [['from', from, '$gte'], ['to', to, '$lte']]) {
+      if (!value) continue;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) throw badRequest(`${field} must be a date`);
+      conditions.push({ timestamp: { [operator]: date } });
+    }
+
+    const { items, nextCursor } = await findPage(Message, { $and: conditions }, {
+      sortField: 'timestamp',
+      direction: -1,
+      cursor: req.query.cursor,
+      limit,
+      isDate: true,
+      projection: 'contactId phone chatType author direction type message timestamp sentiment'
+    });
+    await Message.populate(items, { path: 'contactId', select: 'name phone chatType' });
+
+    const terms = queryTerms(q);
+    const results = items.map((item) => {
+      const { contactId: contact, ...message } = item.toObject();
+      return { ...message, contact, ...snippet(item.message, terms) };
+    });
+    res.json({ results, nextCursor });
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
 // Get messages by phone number
 router.get('/phone/:phone', async (req, res) => {
   try {
-    const cleanedPhone = req.params.phone.replace(/\D/g, '');
-    const messages = await Message.find({ phone: cleanedPhone })
+    const messages = await Message.find({ phone: normalizePhone(req.params.phone, { stored: true }) })
       .sort({ timestamp: 1 });
     res.json(messages);
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    res.status(error.status || 500).json({ error: error.message });
   }
 });
 
@@ -97,6 +230,45 @@ router.post('/', async (req, res) => {
   }
 });
 
+// Download or display a message attachment
+// Media the browser may show in the page; the type comes from the sender, so
+// anything else (HTML, SVG, scripts) is only ever downloaded
+const INLINE_MEDIA_TYPE = /^(image\/(png|jpeg|gif|webp|bmp)|video\/[\w.+-]+|audio\/[\w.+-]+|application\/pdf)$/;
+
+router.get('/:id/media', async (req, res) => {
+  try {
+    const message = await Message.findById(req.params.id);
+    if (!message || !message.media || !message.media.key) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const storage = getStorage();
+    if (!(await storage.exists(message.media.key))) {
+      return res.status(404).json({ error: 'Attachment file is missing' });
+    }
+
+    const filename = message.media.filename || `attachment-${message._id}`;
+    // Plain ASCII fallback for old browsers, UTF-8 name for everyone else
+    const asciiName = filename.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, '');
+    const mimeType = String(message.media.mimeType || '').split(';')[0].trim().toLowerCase();
+    const inline = !req.query.download && INLINE_MEDIA_TYPE.test(mimeType);
+    res.set({
+      'Content-Type': mimeType || 'application/octet-stream',
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      'Cache-Control': 'private, max-age=86400',
+      // Never run as a page of ours, whatever the file holds
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': 'sandbox'
+    });
+    if (message.media.size) {
+      res.set('Content-Length', String(message.media.size));
+    }
+    storage.createReadStream(message.media.key).pipe(res);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get message statistics
 router.get('/stats/summary', async (req, res) => {
   try {
@@ -3,6 +3,9 @@ const router = express.Router();
 const Note = require('../models/Note');
 const Contact = require('../models/Contact');
 
+// Notes can be changed by their author, and by supervisors and admins
+const canChange = (user, note) => (note.authorId && note.authorId.equals(user._id)) || user.hasRole('supervisor');
+
 // Get all notes for a contact
 router.get('/contact/:contactId', async (req, res) => {
   try {
@@ -17,7 +20,12 @@ router.get('/contact/:contactId', async (req, res) => {
 // Create note
 router.post('/', async (req, res) => {
   try {
-    const note = new Note(req.body);
+    const note = new Note({
+      contactId: req.body.contactId,
+      content: req.body.content,
+      author: req.user.name,
+      authorId: req.user._id
+    });
     await note.save();
     res.status(201).json(note);
   } catch (error) {
@@ -28,14 +36,15 @@ router.post('/', async (req, res) => {
 // Update note
 router.put('/:id', async (req, res) => {
   try {
-    const note = await Note.findByIdAndUpdate(
-      req.params.id,
-      req.body,
-      { new: true, runValidators: true }
-    );
+    const note = await Note.findById(req.params.id);
     if (!note) {
       return res.status(404).json({ error: 'Note not found' });
     }
+    if (!canChange(req.user, note)) {
+      return res.status(403).json({ error: 'Only the author can edit this note' });
+    }
+    note.content = req.body.content;
+    await note.save();
     res.json(note);
   } catch (error) {
     res.status(400).json({ error: error.message });
@@ -45,10 +54,14 @@ router.put('/:id', async (req, res) => {
 // Delete note
 router.delete('/:id', async (req, res) => {
   try {
-    const note = await Note.findByIdAndDelete(req.params.id);
+    const note = await Note.findById(req.params.id);
     if (!note) {
       return res.status(404).json({ error: 'Note not found' });
     }
+    if (!canChange(req.user, note)) {
+      return res.status(403).json({ error: 'Only the author can delete this note' });
+    }
+    await note.deleteOne();
     res.json({ message: 'Note deleted successfully' });
   } catch (error) {
     res.status(500).json({ error: error.message });
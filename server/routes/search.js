@@ -0,0 +1,69 @@
+const express = require('express');
+const router = express.Router();
+const Contact = require('../models/Contact');
+const Message = require('../models/Message');
+const Note = require('../models/Note');
+const Template = require('../models/Template');
+const { parseLimit, escapeRegex } = require('../services/pagination');
+const { contactSearchFilter, queryTerms, snippet } = require('../services/search');
+
+// Documents where every word of the query appears in one of `fields`
+function wordsFilter(terms, fields) {
+  return {
+    $and: terms.map((term) => ({
+      $or: fields.map((field) => ({ [field]: { $regex: escapeRegex(term), $options: 'i' } }))
+    }))
+  };
+}
+
+// One search over everything, for the command palette:
+//   q       text to find (required)
+//   limit   results per kind, default 5, at most 20
+// Responds { contacts, messages, notes, templates }. Messages use the text
+// index like /api/messages/search; messages and notes carry a highlighted
+// snippet as { snippet, highlights }.
+router.get('/', async (req, res) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    if (!q) {
+      return res.status(400).json({ error: 'q is required' });
+    }
+    const limit = parseLimit(req.query.limit, { fallback: 5, max: 20 });
+    const terms = queryTerms(q);
+    const words = terms.length > 0 ? terms : [q];
+
+    const [contacts, messages, notes, templates] = await Promise.all([
+      Contact.find(contactSearchFilter(q), 'name phone chatType queryStatus unreadCount company')
+        .sort({ lastMessageAt: -1, _id: -1 })
+        .limit(limit),
+      Message.find({ $text: { $search: q } }, 'contactId direction type message timestamp')
+        .sort({ timestamp: -1, _id: -1 })
+        .limit(limit)
+        .populate('contactId', 'name phone chatType'),
+      Note.find(wordsFilter(words, ['content']))
+        .sort({ updatedAt: -1 })
+        .limit(limit)
+        .populate('contactId', 'name phone chatType'),
+      Template.find(wordsFilter(words, ['name', 'message', 'category']))
+        .sort({ name: 1 })
+        .limit(limit)
+    ]);
+
+    res.json({
+      contacts,
+      messages: messages.map((item) => {
+        const { contactId: contact, ...message } = item.toObject();
+        return { ...message, contact, ...snippet(item.message, terms) };
+      }),
+      notes: notes.map((item) => {
+        const { contactId: contact, ...note } = item.toObject();
+        return { ...note, contact, ...snippet(item.content, words) };
+      }),
+      templates
+    });
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
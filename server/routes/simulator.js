@@ -0,0 +1,107 @@
+const express = require('express');
+const router = express.Router();
+const { DEFAULT_SESSION } = require('../transports');
+const { getConnector } = require('../connector');
+const { normalizePhone } = require('../services/phone');
+
+// Only works when the WhatsApp sessions run with WHATSAPP_TRANSPORT=simulator.
+// Pick the simulated number with ?session= (defaults to the default session).
+const simulate = (req, action, payload) =>
+  getConnector().simulate(req.query.session || DEFAULT_SESSION, action, payload);
+
+// Numbers as WhatsApp would send them: E.164 digits pass through like a chat id
+// (see services/phone), raw WhatsApp ids too
+const senderOf = (phone) => (phone && !String(phone).includes('@') ? normalizePhone(phone, { stored: true }) : phone);
+
+// Complete the fake QR pairing
+router.post('/scan', async (req, res) => {
+  try {
+    res.json(await simulate(req, 'scan'));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Inject an inbound message from a customer, optionally into a group (groupId, groupName)
+// or as a reply to an earlier message (quotedId, its WhatsApp id)
+router.post('/inbound', async (req, res) => {
+  try {
+    const { phone, message, name, media, groupId, groupName, quotedId } = req.body;
+    if (!phone || (!message && !media)) {
+      return res.status(400).json({ error: 'Phone and message or media are required' });
+    }
+    if (media && (!media.mimeType || !media.data)) {
+      return res.status(400).json({ error: 'Media needs a mimeType and base64 data' });
+    }
+
+    const injected = await simulate(req, 'inbound', { from: senderOf(phone), body: message, pushname: name, media, groupId, groupName, quotedId });
+    res.status(201).json(injected);
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Inject a delivery/read receipt for a sent message
+router.post('/ack', async (req, res) => {
+  try {
+    const { messageId, ack } = req.body;
+    if (!messageId || ack === undefined) {
+      return res.status(400).json({ error: 'messageId and ack are required' });
+    }
+
+    res.json(await simulate(req, 'ack', { messageId, ack }));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Inject a customer's reaction to a message (WhatsApp id), an empty emoji removes it
+router.post('/reaction', async (req, res) => {
+  try {
+    const { messageId, emoji, phone } = req.body;
+    res.json(await simulate(req, 'reaction', { messageId, emoji, from: senderOf(phone) }));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Inject an edit of a customer's message (WhatsApp id)
+router.post('/edit', async (req, res) => {
+  try {
+    const { messageId, message } = req.body;
+    res.json(await simulate(req, 'edit', { messageId, body: message }));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Inject a "deleted for everyone" of a message (WhatsApp id)
+router.post('/revoke', async (req, res) => {
+  try {
+    res.json(await simulate(req, 'revoke', { messageId: req.body.messageId }));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Add messages a chat had before the phone was linked, for the history import:
+// { phone, name, messages: [{ body, fromMe, minutesAgo }] }
+router.post('/history', async (req, res) => {
+  try {
+    const { phone, name, messages } = req.body;
+    res.status(201).json(await simulate(req, 'history', { from: senderOf(phone), pushname: name, messages }));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Messages "sent" through the simulator
+router.get('/outbox', async (req, res) => {
+  try {
+    res.json(await simulate(req, 'outbox'));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,33 @@
+const express = require('express');
+const router = express.Router();
+const { subscribe } = require('../services/realtime');
+
+const HEARTBEAT_MS = 25000;
+
+// Server-Sent Events stream of live CRM updates
+router.get('/', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // Ask the browser to wait 5s before reconnecting after a drop
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribe(({ event, data }) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  });
+
+  // Comment lines keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+module.exports = router;
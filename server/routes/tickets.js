@@ -0,0 +1,56 @@
+const express = require('express');
+const router = express.Router();
+const Ticket = require('../models/Ticket');
+const { parseLimit, findPage } = require('../services/pagination');
+const { badRequest, isId } = require('../services/http');
+
+// Tickets are read here; their status changes through PATCH
+// /api/contacts/:id/status, which acts on the contact's current ticket
+
+// List tickets, newest first, a page at a time. Query parameters, all optional:
+//   contactId  tickets of one contact
+//   status     new, in-progress, resolved or closed, comma separated
+//   limit      page size (default 20, max 100)
+//   cursor     nextCursor of the previous page
+// Returns { tickets, nextCursor }.
+router.get('/', async (req, res) => {
+  try {
+    const and = [];
+    if (req.query.contactId) {
+      if (!isId(req.query.contactId)) throw badRequest('contactId must be an id');
+      and.push({ contactId: req.query.contactId });
+    }
+    if (req.query.status) {
+      const statuses = String(req.query.status).split(',').map((s) => s.trim()).filter(Boolean);
+      if (statuses.some((s) => !Ticket.STATUSES.includes(s))) {
+        throw badRequest(`status must be one of ${Ticket.STATUSES.join(', ')}`);
+      }
+      and.push({ status: { $in: statuses } });
+    }
+
+    const { items, nextCursor } = await findPage(Ticket, and.length ? { $and: and } : {}, {
+      sortField: 'openedAt',
+      direction: -1,
+      cursor: req.query.cursor,
+      limit: parseLimit(req.query.limit, { fallback: 20, max: 100 }),
+      isDate: true
+    });
+    res.json({ tickets: items, nextCursor });
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const ticket = isId(req.params.id) ? await Ticket.findById(req.params.id) : null;
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+    res.json(ticket);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
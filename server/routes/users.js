@@ -0,0 +1,113 @@
+const express = require('express');
+const router = express.Router();
+const User = require('../models/User');
+const { hashPassword, endUserSessions, readSessionToken } = require('../services/auth');
+const { requireRole } = require('../middleware/auth');
+const { badRequest } = require('../services/http');
+
+// Agent accounts. Everyone signed in can list the team; the rest is for admins.
+
+function checkRole(role) {
+  if (role !== undefined && !User.ROLES.includes(role)) {
+    throw badRequest(`role must be one of ${User.ROLES.join(', ')}`);
+  }
+}
+
+// An admin cannot lock themselves out by demoting or deactivating their own account
+function checkNotSelf(req, user, changes) {
+  if (!user._id.equals(req.user._id)) return;
+  if ((changes.role && changes.role !== 'admin') || changes.active === false) {
+    throw badRequest('You cannot remove your own admin access');
+  }
+}
+
+// Active users who can work conversations and their status, for assignment pickers
+router.get('/directory', async (req, res) => {
+  try {
+    const users = await User.find({ active: true, role: { $ne: 'read-only' } }, 'name role availability').sort({ name: 1 });
+    res.json(users);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.use(requireRole('admin'));
+
+router.get('/', async (req, res) => {
+  try {
+    const users = await User.find().sort({ name: 1 });
+    res.json(users);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { name, email, role, password } = req.body;
+    if (!name || !email) {
+      return res.status(400).json({ error: 'Name and email are required' });
+    }
+    checkRole(role);
+    if (await User.exists({ email: String(email).trim().toLowerCase() })) {
+      return res.status(409).json({ error: 'A user with this email already exists' });
+    }
+    const user = await User.create({ name, email, role, passwordHash: await hashPassword(password) });
+    res.status(201).json(user);
+  } catch (error) {
+    res.status(error.status || 400).json({ error: error.message });
+  }
+});
+
+// Weekly shifts from a PUT body: [{ day, start, end }], checked by the model
+function parseShifts(shifts) {
+  if (!Array.isArray(shifts)) throw badRequest('shifts must be a list');
+  return shifts.map(({ day, start, end }) => ({ day: Number(day), start, end }));
+}
+
+function checkTimezone(timezone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw badRequest(`Unknown time zone ${timezone}`);
+  }
+}
+
+// Change name, email, role, active, shifts or timezone; a new password resets
+// it. Deactivating or resetting the password signs the user out everywhere.
+router.put('/:id', async (req, res) => {
+  try {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const { name, email, role, active, password, shifts, timezone } = req.body;
+    checkRole(role);
+    if (timezone !== undefined) checkTimezone(timezone);
+    checkNotSelf(req, user, { role, active });
+
+    if (email !== undefined && String(email).trim().toLowerCase() !== user.email) {
+      if (await User.exists({ email: String(email).trim().toLowerCase() })) {
+        return res.status(409).json({ error: 'A user with this email already exists' });
+      }
+      user.email = email;
+    }
+    if (name !== undefined) user.name = name;
+    if (role !== undefined) user.role = role;
+    if (active !== undefined) user.active = Boolean(active);
+    if (shifts !== undefined) user.shifts = parseShifts(shifts);
+    if (timezone !== undefined) user.timezone = timezone;
+    if (password) user.passwordHash = await hashPassword(password);
+    await user.save();
+
+    if (user.active === false || password) {
+      // Admins resetting their own password stay signed in here
+      await endUserSessions(user._id, user._id.equals(req.user._id) ? { except: readSessionToken(req) } : {});
+    }
+    res.json(user);
+  } catch (error) {
+    res.status(error.status || 400).json({ error: error.message });
+  }
+});
+
+module.exports = router;
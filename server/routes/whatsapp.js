@@ -1,7 +1,5 @@
 const express = require('express');
 const router = express.Router();
-const { Client, LocalAuth } = require('whatsapp-web.js');
-const qrcodeTerminal = require('qrcode-terminal');
 let qrcode = null;
 try {
   qrcode = require('qrcode');
@@ -10,245 +8,88 @@ try {
 }
 const Message = require('../models/Message');
 const Contact = require('../models/Contact');
+const ConnectionEvent = require('../models/ConnectionEvent');
+const { DEFAULT_SESSION, SESSION_ID_PATTERN } = require('../transports');
+const { getConnector } = require('../connector');
+const { publish } = require('../services/realtime');
+const { mediaTypeFromMime, storeMedia } = require('../services/media');
+const { normalizePhone } = require('../services/phone');
+const { isId } = require('../services/http');
+const outboundQueue = require('../services/outboundQueue');
+const historyBackfill = require('../services/historyBackfill');
+const { ticketForReply } = require('../services/tickets');
+const { requireRole } = require('../middleware/auth');
+
+const connector = getConnector();
 
-// Helper function for sentiment analysis
-function analyzeSentiment(message) {
-  const lowerMsg = message.toLowerCase();
-  
-  const positiveWords = ['thank', 'thanks', 'great', 'good', 'excellent', 'happy', 'satisfied', 'love', 'perfect', 'awesome', 'amazing', 'wonderful', 'pleased'];
-  const negativeWords = ['bad', 'terrible', 'worst', 'angry', 'frustrated', 'disappointed', 'hate', 'problem', 'issue', 'error', 'wrong', 'broken', 'refund', 'cancel', 'complaint'];
-  
-  const positiveCount = positiveWords.filter(word => lowerMsg.includes(word)).length;
-  const negativeCount = negativeWords.filter(word => lowerMsg.includes(word)).length;
-  
-  if (negativeCount > positiveCount) return { sentiment: 'negative', score: 0.7 };
-  if (positiveCount > negativeCount) return { sentiment: 'positive', score: 0.7 };
-  return { sentiment: 'neutral', score: 0.5 };
-}
-
-let whatsappClient = null;
-let qrCodeData = null;
-let isReady = false;
-let isInitializing = false;
-let retryCount = 0;
-const MAX_RETRIES = 3;
-
-// Initialize WhatsApp client
-function initWhatsApp(resetRetryCount = true) {
-  // Prevent multiple simultaneous initializations
-  if (whatsappClient || isInitializing) {
-    return;
-  }
-
-  isInitializing = true;
-  if (resetRetryCount) {
-    retryCount = 0;
-  }
-
-  whatsappClient = new Client({
-    authStrategy: new LocalAuth(),
-    puppeteer: {
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-        '--disable-gpu'
-      ],
-      timeout: 60000
-    }
-  });
+// Initialize on module load
+connector.start();
 
-  whatsappClient.on('qr', (qr) => {
-    console.log('QR Code received - available in Settings page');
-    console.log('QR Code length:', qr.length); // Debug: verify QR code is received
-    qrCodeData = qr;
-    // QR code is now displayed in the Settings page, not in terminal
-    // Uncomment the line below if you want to see QR in terminal for debugging
-    // qrcode.generate(qr, { small: true });
-  });
+// Session a request is about: /sessions/:sessionId/... or ?session= on the legacy routes
+const sessionIdFrom = (req) => req.params.sessionId || req.query.session || DEFAULT_SESSION;
 
-  whatsappClient.on('ready', () => {
-    console.log('WhatsApp client is ready!');
-    isReady = true;
-    qrCodeData = null;
-    isInitializing = false;
-    retryCount = 0;
-  });
+// Managing the numbers themselves (QR codes, logins, history imports) is for admins
+const adminOnly = requireRole('admin');
 
-  whatsappClient.on('authenticated', () => {
-    console.log('WhatsApp authenticated');
-  });
+const notFound = (res, sessionId) => res.status(404).json({ error: `WhatsApp number "${sessionId}" not found` });
 
-  whatsappClient.on('auth_failure', (msg) => {
-    console.error('WhatsApp authentication failure:', msg);
-    isReady = false;
-  });
+// List connected numbers with their status
+router.get('/sessions', async (req, res) => {
+  try {
+    res.json(await connector.listSessions());
+  } catch (error) {
+    console.error('Error listing WhatsApp numbers:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
 
-  whatsappClient.on('disconnected', (reason) => {
-    console.log('WhatsApp disconnected:', reason);
-    isReady = false;
-    isInitializing = false;
-    // Delay cleanup to avoid Windows file locking issues
-    setTimeout(() => {
-      whatsappClient = null;
-    }, 2000);
-  });
+// Add a WhatsApp number; it starts waiting for its own QR scan
+router.post('/sessions', adminOnly, async (req, res) => {
+  try {
+    const label = (req.body.label || '').trim();
+    const sessionId = (req.body.sessionId || label).trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
 
-  // Handle client errors gracefully
-  whatsappClient.on('error', (error) => {
-    // Ignore EBUSY errors (Windows file locking issue)
-    if (error.message && error.message.includes('EBUSY')) {
-      console.warn('WhatsApp file locking warning (safe to ignore):', error.message);
-      return;
+    if (!label) {
+      return res.status(400).json({ error: 'A label is required, e.g. "Sales"' });
     }
-    // Handle ProtocolError - browser context destroyed
-    if (error.message && (error.message.includes('Protocol error') || error.message.includes('Execution context was destroyed'))) {
-      console.warn('WhatsApp ProtocolError detected - will retry initialization');
-      isInitializing = false;
-      retryWithBackoff();
-      return;
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return res.status(400).json({ error: 'Session id may only contain letters, numbers, "-" and "_" (max 32)' });
     }
-    console.error('WhatsApp client error:', error);
-  });
 
-  // Listen for incoming messages
-  whatsappClient.on('message', async (msg) => {
-    try {
-      const phone = msg.from.replace('@c.us', '');
-      
-      // Find or create contact
-      let contact = await Contact.findOne({ phone });
-      
-      if (!contact) {
-        // Auto-create contact from incoming message
-        // Try to get contact name from WhatsApp
-        let contactName = 'Customer';
-        try {
-          const contactInfo = await whatsappClient.getContactById(msg.from);
-          if (contactInfo && contactInfo.pushname) {
-            contactName = contactInfo.pushname;
-          } else if (contactInfo && contactInfo.name) {
-            contactName = contactInfo.name;
-          }
-        } catch (e) {
-          console.log('Could not fetch contact name, using default');
-        }
-        
-        // Create new contact
-        contact = await Contact.create({
-          name: contactName,
-          phone: phone,
-          queryStatus: 'new',
-          unreadCount: 1,
-          lastContacted: new Date(msg.timestamp * 1000)
-        });
-        console.log(`Auto-created contact: ${contactName} (${phone})`);
-      } else {
-        // Update existing contact
-        contact.unreadCount = (contact.unreadCount || 0) + 1;
-        if (contact.queryStatus === 'resolved' || contact.queryStatus === 'closed') {
-          contact.queryStatus = 'new'; // Reopen if customer messages again
-        }
-        contact.lastContacted = new Date(msg.timestamp * 1000);
-        await contact.save();
-      }
-      
-      // Analyze sentiment
-      const sentiment = analyzeSentiment(msg.body);
-      
-      // Save incoming message with sentiment
-      await Message.create({
-        contactId: contact._id,
-        phone: phone,
-        direction: 'inbound',
-        message: msg.body,
-        timestamp: new Date(msg.timestamp * 1000),
-        status: 'delivered',
-        sentiment: sentiment.sentiment,
-        sentimentScore: sentiment.score
-      });
-      
-      console.log(`Incoming message from ${contact.name} (${phone}) [${sentiment.sentiment}]: ${msg.body.substring(0, 50)}...`);
-    } catch (error) {
-      console.error('Error saving incoming message:', error);
-    }
-  });
+    res.status(201).json(await connector.addSession({ sessionId, label }));
+  } catch (error) {
+    if (!error.status) console.error('Error adding WhatsApp number:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
 
-  // Retry function with exponential backoff
-  const retryWithBackoff = () => {
-    if (retryCount >= MAX_RETRIES) {
-      console.error('WhatsApp initialization failed after maximum retries');
-      isInitializing = false;
-      whatsappClient = null;
-      return;
+// Log out and remove a WhatsApp number. Its conversations are kept.
+router.delete('/sessions/:sessionId', adminOnly, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    if (!(await connector.removeSession(sessionId))) {
+      return notFound(res, sessionId);
     }
+    res.json({ success: true });
+  } catch (error) {
+    if (!error.status) console.error('Error removing WhatsApp number:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
 
-    retryCount++;
-    const delay = Math.min(1000 * Math.pow(2, retryCount - 1), 10000); // Exponential backoff, max 10s
-    
-    console.log(`Retrying WhatsApp initialization (attempt ${retryCount}/${MAX_RETRIES}) in ${delay}ms...`);
-    
-    setTimeout(() => {
-      // Clean up existing client if it exists
-      if (whatsappClient) {
-        try {
-          whatsappClient.destroy().catch(() => {
-            // Ignore destroy errors
-          });
-        } catch (e) {
-          // Ignore destroy errors
-        }
-        whatsappClient = null;
-      }
-      
-      // Recreate and reinitialize (don't reset retry count)
-      isInitializing = false;
-      initWhatsApp(false);
-    }, delay);
-  };
-
+// Get QR code
+const getQR = async (req, res) => {
+  const sessionId = sessionIdFrom(req);
+  let state;
   try {
-    whatsappClient.initialize().catch((error) => {
-      isInitializing = false;
-      
-      // Handle initialization errors
-      if (error.message && error.message.includes('EBUSY')) {
-        console.warn('WhatsApp initialization warning (file locking):', error.message);
-        retryWithBackoff();
-      } else if (error.message && (error.message.includes('Protocol error') || error.message.includes('Execution context was destroyed'))) {
-        console.warn('WhatsApp ProtocolError during initialization - retrying...');
-        retryWithBackoff();
-      } else {
-        console.error('WhatsApp initialization error:', error.message || error);
-        // Still retry for other errors
-        retryWithBackoff();
-      }
-    });
+    state = await connector.getQR(sessionId);
   } catch (error) {
-    isInitializing = false;
-    // Handle synchronous errors
-    if (error.message && error.message.includes('EBUSY')) {
-      console.warn('WhatsApp initialization warning (file locking):', error.message);
-      retryWithBackoff();
-    } else if (error.message && (error.message.includes('Protocol error') || error.message.includes('Execution context was destroyed'))) {
-      console.warn('WhatsApp ProtocolError during initialization - retrying...');
-      retryWithBackoff();
-    } else {
-      console.error('WhatsApp initialization error:', error.message || error);
-      retryWithBackoff();
-    }
+    console.error('Error loading QR code:', error);
+    return res.status(error.status || 500).json({ error: error.message });
   }
-}
-
-// Initialize on module load
-initWhatsApp();
+  if (!state) return notFound(res, sessionId);
 
-// Get QR code
-router.get('/qr', async (req, res) => {
+  const qrCodeData = state.qr;
   if (qrCodeData) {
     // Check if client wants image format and qrcode package is available
     if (req.query.format === 'image' && qrcode) {
@@ -266,53 +107,65 @@ router.get('/qr', async (req, res) => {
     } else {
       res.json({ qr: qrCodeData });
     }
-  } else if (isReady) {
+  } else if (state.connected) {
     res.json({ status: 'connected' });
   } else {
     res.json({ status: 'initializing' });
   }
-});
+};
+router.get('/qr', adminOnly, getQR);
+router.get('/sessions/:sessionId/qr', adminOnly, getQR);
 
 // Get connection status
-router.get('/status', (req, res) => {
-  res.json({
-    connected: isReady,
-    hasQR: !!qrCodeData
-  });
-});
-// ✅ ADD DISCONNECT ROUTE RIGHT HERE ⬇⬇⬇
-
-// Disconnect / Logout WhatsApp
-router.post('/disconnect', async (req, res) => {
+const getStatus = async (req, res) => {
+  const sessionId = sessionIdFrom(req);
   try {
-    if (whatsappClient) {
-      try {
-        await whatsappClient.logout();
-      } catch (e) {
-        console.warn('Logout warning:', e.message);
-      }
+    const session = await connector.getSession(sessionId);
+    if (!session) return notFound(res, sessionId);
+    res.json(session);
+  } catch (error) {
+    console.error('Error checking WhatsApp status:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+};
+router.get('/status', getStatus);
+router.get('/sessions/:sessionId/status', getStatus);
 
-      try {
-        await whatsappClient.destroy();
-      } catch (e) {
-        if (
-          !e.message.includes('EBUSY') &&
-          !e.message.includes('Protocol error')
-        ) {
-          console.error('Destroy error:', e.message);
-        }
+// Connection history (QR issued, paired, dropped, retries), newest first.
+// ?session= narrows /events to one number, ?before= pages back, ?limit= up to 200.
+const getEvents = async (req, res) => {
+  try {
+    const sessionId = req.params.sessionId || req.query.session;
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), 200);
+    const filter = {};
+    if (sessionId) filter.sessionId = sessionId;
+    if (req.query.type) filter.type = req.query.type;
+    if (req.query.before) {
+      const before = new Date(req.query.before);
+      if (isNaN(before.getTime())) {
+        return res.status(400).json({ error: '"before" must be a date' });
       }
+      filter.createdAt = { $lt: before };
     }
 
-    whatsappClient = null;
-    qrCodeData = null;
-    isReady = false;
-    isInitializing = false;
-    retryCount = 0;
+    const events = await ConnectionEvent.find(filter).sort({ createdAt: -1 }).limit(limit);
+    res.json(events);
+  } catch (error) {
+    console.error('Error loading WhatsApp connection events:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
+router.get('/events', getEvents);
+router.get('/sessions/:sessionId/events', getEvents);
+// ✅ ADD DISCONNECT ROUTE RIGHT HERE ⬇⬇⬇
 
-    setTimeout(() => {
-      initWhatsApp();
-    }, 1500);
+// Disconnect / Logout WhatsApp
+const disconnect = async (req, res) => {
+  const sessionId = sessionIdFrom(req);
+  try {
+    if (!(await connector.disconnect(sessionId))) {
+      return notFound(res, sessionId);
+    }
 
     res.json({
       success: true,
@@ -325,176 +178,162 @@ router.post('/disconnect', async (req, res) => {
       error: 'Failed to disconnect WhatsApp',
     });
   }
-});
+};
+router.post('/disconnect', adminOnly, disconnect);
+router.post('/sessions/:sessionId/disconnect', adminOnly, disconnect);
+
 
+// Answer a send that was already accepted under the same idempotency key
+const replaySend = (res, existing, contactId) => {
+  if (contactId && existing.contactId && String(existing.contactId) !== String(contactId)) {
+    return res.status(422).json({ error: 'This idempotency key was already used for another conversation' });
+  }
+  res.json({
+    success: true,
+    queued: existing.status === 'queued' || existing.status === 'sending',
+    duplicate: true,
+    messageId: existing._id,
+    data: existing,
+    message: 'Message was already accepted'
+  });
+};
 
-// Send message
+// Queue a message for sending. The message is persisted first and delivered by
+// the outbound queue, so it survives client disconnects and server restarts.
+// Send an Idempotency-Key header (or idempotencyKey field) to make retries safe.
 router.post('/send', async (req, res) => {
+  const idempotencyKey = req.get('Idempotency-Key') || req.body.idempotencyKey;
   try {
-    if (!isReady || !whatsappClient) {
-      return res.status(400).json({ error: 'WhatsApp not connected. Please check your connection in Settings.' });
-    }
+    const { phone, message, contactId, media, sessionId, quotedMessageId } = req.body;
 
-    const { phone, message, contactId } = req.body;
-    
-    if (!phone || !message) {
-      return res.status(400).json({ error: 'Phone and message are required' });
+    if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || !idempotencyKey.trim() || idempotencyKey.length > 128)) {
+      return res.status(400).json({ error: 'Idempotency key must be a non-empty string of at most 128 characters' });
     }
-
-    // Validate and format phone number
-    let cleanedPhone = phone.replace(/\D/g, ''); // Remove all non-digits
-    
-    // Phone number validation
-    if (!cleanedPhone || cleanedPhone.length === 0) {
-      return res.status(400).json({ error: 'Phone number is required and cannot be empty.' });
+    if (idempotencyKey) {
+      const existing = await Message.findOne({ idempotencyKey });
+      if (existing) return replaySend(res, existing, contactId);
     }
     
-    // Phone number should be at least 10 digits and at most 15 digits (E.164 standard)
-    if (cleanedPhone.length < 10) {
-      return res.status(400).json({ 
-        error: `Phone number is too short (${cleanedPhone.length} digits). Please include country code.\nExample: 1234567890 (US) or 911234567890 (India)` 
-      });
+    if (!phone || (!message && !media)) {
+      return res.status(400).json({ error: 'Phone and message are required' });
     }
-    
-    if (cleanedPhone.length > 15) {
-      return res.status(400).json({ 
-        error: `Phone number is too long (${cleanedPhone.length} digits). Maximum is 15 digits with country code.` 
-      });
+
+    if (media && (!media.mimeType || !media.data)) {
+      return res.status(400).json({ error: 'Attachment must include a mimeType and base64 data' });
     }
-    
-    // Log the phone number being used (for debugging)
-    console.log(`Processing phone number: Original: ${phone}, Cleaned: ${cleanedPhone}`);
-
-    // Format phone number for WhatsApp (must include country code)
-    // WhatsApp format: [country code][number]@c.us
-    let formattedPhone = cleanedPhone;
-    if (!formattedPhone.includes('@')) {
-      formattedPhone = formattedPhone + '@c.us';
+
+    // Replies go to the contact's stored number: E.164 already, or the group id of a
+    // group chat. Only a number typed in for a new chat is normalized, to the same form.
+    let contact = isId(contactId) ? await Contact.findById(contactId) : null;
+    let cleanedPhone;
+    try {
+      cleanedPhone = contact ? contact.phone : normalizePhone(phone);
+    } catch (phoneError) {
+      return res.status(400).json({ error: phoneError.message });
     }
-    
-    console.log(`Formatted phone for WhatsApp: ${formattedPhone}`);
 
     // Validate message
-    if (message.trim().length === 0) {
+    const text = (message || '').trim();
+    if (text.length === 0 && !media) {
       return res.status(400).json({ error: 'Message cannot be empty' });
     }
 
-    // Send message with better error handling
-    let sentMessage;
-    try {
-      console.log(`Attempting to send message to: ${formattedPhone} (cleaned: ${cleanedPhone})`);
-      sentMessage = await whatsappClient.sendMessage(formattedPhone, message.trim());
-      console.log(`Message sent successfully to ${formattedPhone}`);
-    } catch (sendError) {
-      // Log full error for debugging
-      console.error('WhatsApp send error details:', {
-        error: sendError,
-        message: sendError.message,
-        stack: sendError.stack,
-        phone: cleanedPhone,
-        formattedPhone: formattedPhone
-      });
-      
-      // Handle specific WhatsApp errors
-      const errorMsg = (sendError.message || sendError.toString() || '').toLowerCase();
-      const errorString = String(sendError);
-      
-      // Check for various error patterns
-      if (errorMsg.includes('t: t') || 
-          errorMsg.includes('not registered') || 
-          errorMsg.includes('invalid number') ||
-          errorMsg.includes('number not registered') ||
-          errorString.includes('not registered')) {
-        return res.status(400).json({ 
-          error: `Phone number ${cleanedPhone} is not registered on WhatsApp or is invalid. Please verify:\n- The number includes country code (e.g., 1234567890 for US)\n- The number is correct\n- The contact has WhatsApp installed` 
-        });
-      }
-      
-      if (errorMsg.includes('protocol error') || 
-          errorMsg.includes('execution context') ||
-          errorMsg.includes('target closed') ||
-          errorMsg.includes('session closed')) {
-        return res.status(503).json({ 
-          error: 'WhatsApp connection lost. Please go to Settings and reconnect your WhatsApp account.' 
-        });
-      }
-      
-      if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
-        return res.status(504).json({ 
-          error: 'Request timed out. Please check your internet connection and try again.' 
-        });
-      }
-      
-      if (errorMsg.includes('rate limit') || errorMsg.includes('too many')) {
-        return res.status(429).json({ 
-          error: 'Too many messages sent. Please wait a few minutes before sending more messages.' 
-        });
+    // Reply to a specific message of the same chat
+    let quoted;
+    if (quotedMessageId) {
+      const original = await Message.findById(quotedMessageId).catch(() => null);
+      if (!original || original.phone !== cleanedPhone) {
+        return res.status(400).json({ error: 'The message you are replying to is not part of this conversation' });
       }
-      
-      // Check if it's a connection issue
-      if (!isReady || !whatsappClient) {
-        return res.status(400).json({ 
-          error: 'WhatsApp is not connected. Please go to Settings and connect your WhatsApp account first.' 
-        });
+      quoted = original.toQuote();
+    }
+
+    // Keep our own copy of the attachment (also enforces the size limit)
+    let storedMedia = null;
+    if (media) {
+      try {
+        storedMedia = await storeMedia(media);
+      } catch (mediaError) {
+        return res.status(400).json({ error: mediaError.message });
       }
-      
-      // Generic error with more context
-      const detailedError = sendError.message || sendError.toString() || 'Unknown error';
-      return res.status(500).json({ 
-        error: `Failed to send message: ${detailedError}. Please verify:\n- Phone number format is correct (include country code)\n- WhatsApp is connected\n- The number is registered on WhatsApp` 
-      });
     }
-    
+
     // Save to database
-    let contact = null;
-    if (contactId) {
-      contact = await Contact.findById(contactId);
-    } else {
+    if (!contact) {
       contact = await Contact.findOne({ phone: cleanedPhone });
     }
 
+    // Send through the chosen number, else the one the conversation already uses
+    const sendingSessionId = sessionId || (contact && contact.sessionId) || DEFAULT_SESSION;
+    // The queue keeps the message even when the worker is down, so only reject unknown numbers
+    let sendingSession = null;
+    try {
+      sendingSession = await connector.getSession(sendingSessionId);
+      if (!sendingSession) {
+        return res.status(400).json({ error: `WhatsApp number "${sendingSessionId}" does not exist` });
+      }
+    } catch (connectorError) {
+      console.warn('Could not check WhatsApp number before queueing:', connectorError.message);
+    }
+
     // Save message even if contact doesn't exist yet
     const messageData = {
       phone: cleanedPhone,
-      direction: 'outbound',
-      message: message.trim(),
-      timestamp: new Date(),
-      status: 'sent'
+      message: text,
+      type: storedMedia ? mediaTypeFromMime(storedMedia.mimeType) : 'text',
+      media: storedMedia || undefined,
+      quoted,
+      chatType: contact && contact.chatType === 'group' ? 'group' : 'individual',
+      sessionId: sendingSessionId,
+      idempotencyKey: idempotencyKey || undefined,
+      sentBy: req.user.toActor(),
+      timestamp: new Date()
     };
 
+    let savedMessage;
     if (contact) {
       messageData.contactId = contact._id;
-      await Message.create(messageData);
-
-      // Update contact - mark as in-progress if was new, update last contacted
-      const updateData = {
-        lastContacted: new Date()
-      };
-      
-      // If query was new and we're responding, mark as in-progress
-      if (contact.queryStatus === 'new') {
-        updateData.queryStatus = 'in-progress';
+      savedMessage = await outboundQueue.enqueue(messageData);
+
+      // Update last contacted; replying to a new ticket puts it in progress
+      contact.lastContacted = new Date();
+      contact.sessionId = sendingSessionId;
+      const previousStatus = contact.queryStatus;
+      await ticketForReply(contact, req.user, messageData.timestamp);
+      if (previousStatus !== contact.queryStatus) {
+        publish('status-change', { contactId: contact._id, queryStatus: contact.queryStatus, previous: previousStatus });
       }
-      
-      await Contact.findByIdAndUpdate(contact._id, updateData);
     } else {
       // Create contact if doesn't exist
       contact = await Contact.create({
         name: `Customer ${cleanedPhone.substring(cleanedPhone.length - 4)}`,
         phone: cleanedPhone,
         queryStatus: 'new',
-        unreadCount: 0
+        unreadCount: 0,
+        sessionId: sendingSessionId
       });
       messageData.contactId = contact._id;
-      await Message.create(messageData);
+      savedMessage = await outboundQueue.enqueue(messageData);
     }
 
-    res.json({
+    publish('new-message', { message: savedMessage, contact });
+    publish('contact-updated', contact);
+
+    res.status(202).json({
       success: true,
-      messageId: sentMessage.id._serialized,
-      message: 'Message sent successfully'
+      queued: true,
+      messageId: savedMessage._id,
+      data: savedMessage,
+      message: sendingSession && sendingSession.connected
+        ? 'Message queued for sending'
+        : 'WhatsApp is not connected. The message will be sent once the connection is restored.'
     });
   } catch (error) {
+    // A concurrent request with the same key won the race
+    if (error.code === 11000 && idempotencyKey) {
+      const existing = await Message.findOne({ idempotencyKey }).catch(() => null);
+      if (existing) return replaySend(res, existing, req.body.contactId);
+    }
     console.error('Error sending message:', error);
     
     // Provide user-friendly error messages
@@ -514,36 +353,108 @@ router.post('/send', async (req, res) => {
   }
 });
 
+// Put a failed (dead-lettered) outbound message back in the queue
+router.post('/messages/:id/retry', async (req, res) => {
+  try {
+    const message = await Message.findById(req.params.id);
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+    if (message.direction !== 'outbound' || message.status !== 'failed') {
+      return res.status(400).json({ error: 'Only failed outbound messages can be retried' });
+    }
+
+    await outboundQueue.requeue(message);
+
+    publish('message-updated', message);
+    res.json(message);
+  } catch (error) {
+    console.error('Error retrying message:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// React to a message with an emoji, or remove our reaction with an empty one
+router.post('/messages/:id/react', async (req, res) => {
+  try {
+    const emoji = typeof req.body.emoji === 'string' ? req.body.emoji.trim() : '';
+    const message = await Message.findById(req.params.id);
+    if (!message) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+    if (!message.whatsappId || message.deletedAt) {
+      return res.status(400).json({ error: 'Only messages delivered through WhatsApp can be reacted to' });
+    }
+
+    const sessionId = message.sessionId || DEFAULT_SESSION;
+    if (!(await connector.react(sessionId, message.whatsappId, emoji))) {
+      return notFound(res, sessionId);
+    }
+
+    const updated = await Message.setReaction({ _id: message._id }, { emoji, fromMe: true });
+
+    publish('message-updated', updated);
+    res.json(updated);
+  } catch (error) {
+    if (!error.status) console.error('Error reacting to message:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
 // Reinitialize WhatsApp
-router.post('/reconnect', async (req, res) => {
+const reconnect = async (req, res) => {
+  const sessionId = sessionIdFrom(req);
   try {
-    isInitializing = false;
-    retryCount = 0;
-    
-    if (whatsappClient) {
-      try {
-        await whatsappClient.destroy();
-      } catch (destroyError) {
-        // Ignore EBUSY errors on Windows (file locking issue)
-        if (!destroyError.message.includes('EBUSY') && !destroyError.message.includes('Protocol error')) {
-          console.error('Error destroying WhatsApp client:', destroyError.message);
-        }
-      }
-      whatsappClient = null;
+    if (!(await connector.reconnect(sessionId))) {
+      return notFound(res, sessionId);
     }
-    isReady = false;
-    qrCodeData = null;
-    
-    // Longer delay before reinitializing to allow browser processes to fully terminate
-    setTimeout(() => {
-      initWhatsApp();
-    }, 2000);
     
     res.json({ message: 'Reinitializing WhatsApp connection' });
   } catch (error) {
     console.error('Error reconnecting WhatsApp:', error);
     res.status(500).json({ error: error.message });
   }
+};
+router.post('/reconnect', adminOnly, reconnect);
+router.post('/sessions/:sessionId/reconnect', adminOnly, reconnect);
+
+// Progress of the chat history import of a number
+router.get('/sessions/:sessionId/backfill', async (req, res) => {
+  try {
+    const progress = await historyBackfill.getProgress(req.params.sessionId);
+    res.json(progress || { sessionId: req.params.sessionId, status: 'idle' });
+  } catch (error) {
+    console.error('Error loading history import progress:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Import the chat history again; messages already stored are skipped
+router.post('/sessions/:sessionId/backfill', adminOnly, async (req, res) => {
+  const { sessionId } = req.params;
+  try {
+    if (!(await connector.backfill(sessionId))) {
+      return notFound(res, sessionId);
+    }
+    res.status(202).json({ success: true, message: 'History import started' });
+  } catch (error) {
+    if (!error.status) console.error('Error starting history import:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Forget the saved WhatsApp login (stored in MongoDB or on disk); a new QR scan is needed
+router.post('/sessions/:sessionId/reset-auth', adminOnly, async (req, res) => {
+  const { sessionId } = req.params;
+  try {
+    if (!(await connector.resetAuth(sessionId))) {
+      return notFound(res, sessionId);
+    }
+    res.json({ success: true, message: 'Saved WhatsApp login removed. Scan the QR code to connect again.' });
+  } catch (error) {
+    console.error('Error resetting WhatsApp login:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
 });
 
 module.exports = router;
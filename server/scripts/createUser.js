@@ -0,0 +1,57 @@
+// Create an account, or reset the password and role of an existing one. The
+// first admin of a deployment is made with this (or INITIAL_ADMIN_EMAIL).
+//
+//   npm run create-user -- --email ana@example.com --name "Ana" --role admin
+//
+// The password is asked for, or taken from --password.
+const path = require('path');
+require('dotenv').config({ path: path.join(__dirname, '..', '.env') });
+const readline = require('readline');
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const { hashPassword } = require('../services/auth');
+
+function option(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function ask(question) {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) => rl.question(question, (answer) => {
+    rl.close();
+    resolve(answer);
+  }));
+}
+
+async function main() {
+  const email = option('email');
+  const role = option('role') || 'agent';
+  if (!email) throw new Error('--email is required');
+  if (!User.ROLES.includes(role)) throw new Error(`--role must be one of ${User.ROLES.join(', ')}`);
+  const password = option('password') || (await ask('Password: '));
+  const passwordHash = await hashPassword(password);
+
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/whatsconnect';
+  await mongoose.connect(mongoURI);
+
+  const existing = await User.findOne({ email: email.trim().toLowerCase() });
+  if (existing) {
+    existing.passwordHash = passwordHash;
+    existing.role = role;
+    existing.active = true;
+    if (option('name')) existing.name = option('name');
+    await existing.save();
+    console.log(`Updated ${existing.email} (${existing.role})`);
+  } else {
+    const user = await User.create({ email, name: option('name') || email.split('@')[0], role, passwordHash });
+    console.log(`Created ${user.email} (${user.role})`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Could not create the user:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,141 @@
+// One-off migration to the E.164 phone format of services/phone: rewrites the
+// phone of every individual contact and message, and merges contacts that turn
+// out to be the same number ("+91 98765 43210" and "09876543210"). The oldest
+// contact is kept; messages, notes and tickets of the others move to it, and the
+// most recent conversation goes on with its ticket and assignee.
+//
+//   npm run migrate:phones -- --dry-run   show what would change
+//   npm run migrate:phones                apply
+//
+// Local numbers need DEFAULT_PHONE_REGION, as for the app. Numbers that are digits
+// only already (from WhatsApp chat ids) are E.164 and kept; numbers that cannot be
+// normalized are listed and left as they are.
+const path = require('path');
+require('dotenv').config({ path: path.join(__dirname, '..', '.env') });
+const mongoose = require('mongoose');
+const Contact = require('../models/Contact');
+const Message = require('../models/Message');
+const Note = require('../models/Note');
+const Ticket = require('../models/Ticket');
+const { tryNormalizePhone, DEFAULT_REGION } = require('../services/phone');
+const { HISTORY_LIMIT } = require('../services/assignment');
+
+const dryRun = process.argv.includes('--dry-run');
+
+// Auto-created contacts are named after their number until someone renames them
+const hasRealName = (contact) => contact.name && contact.name.replace(/\D/g, '') !== contact.phone.replace(/\D/g, '');
+
+const isAssigned = (contact) => !!(contact.assignedTo && contact.assignedTo.userId);
+
+// The current ticket (see services/tickets), mirrored in queryStatus
+function takeTicket(keep, other) {
+  keep.ticketId = other.ticketId;
+  keep.queryStatus = other.queryStatus;
+  keep.statusChangedBy = other.statusChangedBy;
+  keep.statusChangedAt = other.statusChangedAt;
+}
+
+function takeAssignee(keep, other) {
+  keep.assignedTo = other.assignedTo;
+  keep.assignedAt = other.assignedAt;
+}
+
+function mergeInto(keep, others) {
+  for (const other of others) {
+    if (!hasRealName(keep) && hasRealName(other)) keep.name = other.name;
+    keep.email = keep.email || other.email;
+    keep.company = keep.company || other.company;
+    keep.tags = Array.from(new Set([...(keep.tags || []), ...(other.tags || [])]));
+    if (other.notes && other.notes !== keep.notes) {
+      keep.notes = keep.notes ? `${keep.notes}\n\n${other.notes}` : other.notes;
+    }
+    keep.unreadCount = (keep.unreadCount || 0) + (other.unreadCount || 0);
+    if (other.lastContacted && (!keep.lastContacted || other.lastContacted > keep.lastContacted)) {
+      keep.lastContacted = other.lastContacted;
+      keep.sessionId = other.sessionId;
+      // The most recent conversation goes on with its ticket and assignee
+      if (other.ticketId) takeTicket(keep, other);
+      if (isAssigned(other)) takeAssignee(keep, other);
+    } else {
+      if (!keep.ticketId && other.ticketId) takeTicket(keep, other);
+      if (!isAssigned(keep) && isAssigned(other)) takeAssignee(keep, other);
+    }
+    keep.assignmentHistory = [...(keep.assignmentHistory || []), ...(other.assignmentHistory || [])]
+      .sort((a, b) => a.at - b.at)
+      .slice(-HISTORY_LIMIT);
+  }
+}
+
+async function migrateContacts() {
+  const contacts = await Contact.find({ chatType: { $ne: 'group' } }).sort({ createdAt: 1 });
+  const byPhone = new Map();
+  for (const contact of contacts) {
+    const phone = tryNormalizePhone(contact.phone, { stored: true });
+    if (!phone) {
+      console.warn(`  cannot normalize ${contact.phone} (${contact.name}), left as is`);
+      continue;
+    }
+    if (!byPhone.has(phone)) byPhone.set(phone, []);
+    byPhone.get(phone).push(contact);
+  }
+
+  let renamed = 0;
+  let merged = 0;
+  for (const [phone, variants] of byPhone) {
+    if (variants.length === 1 && variants[0].phone === phone) continue;
+
+    const [keep, ...others] = variants;
+    console.log(`  ${variants.map((c) => `${c.phone} (${c.name})`).join(', ')} -> ${phone}`);
+    renamed += 1;
+    merged += others.length;
+    if (dryRun) continue;
+
+    if (others.length > 0) {
+      const otherIds = others.map((c) => c._id);
+      mergeInto(keep, others);
+      await Message.updateMany({ contactId: { $in: otherIds } }, { contactId: keep._id });
+      await Note.updateMany({ contactId: { $in: otherIds } }, { contactId: keep._id });
+      await Ticket.updateMany({ contactId: { $in: otherIds } }, { contactId: keep._id });
+      await Contact.deleteMany({ _id: { $in: otherIds } });
+      // The API server rebuilds the conversation summary with the moved messages
+      keep.lastMessageAt = undefined;
+    }
+    keep.phone = phone;
+    await keep.save();
+  }
+  return { renamed, merged };
+}
+
+// Messages keep their own copy of the number, including those without a contact
+async function migrateMessages() {
+  const phones = await Message.distinct('phone', { chatType: { $ne: 'group' } });
+  let updated = 0;
+  for (const original of phones) {
+    const phone = tryNormalizePhone(original, { stored: true });
+    if (!phone || phone === original) continue;
+    if (dryRun) {
+      updated += await Message.countDocuments({ phone: original, chatType: { $ne: 'group' } });
+      continue;
+    }
+    const result = await Message.updateMany({ phone: original, chatType: { $ne: 'group' } }, { phone });
+    updated += result.modifiedCount;
+  }
+  return updated;
+}
+
+async function main() {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/whatsconnect';
+  await mongoose.connect(mongoURI);
+  console.log(`Normalizing phone numbers${dryRun ? ' (dry run)' : ''}, default region: ${DEFAULT_REGION || 'none'}`);
+
+  const { renamed, merged } = await migrateContacts();
+  const messages = await migrateMessages();
+  console.log(`${dryRun ? 'Would update' : 'Updated'} ${renamed} contacts (${merged} duplicates merged) and ${messages} messages`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Phone migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,179 @@
+const mongoose = require('mongoose');
+const Contact = require('../models/Contact');
+const AssignmentSettings = require('../models/AssignmentSettings');
+const { publish } = require('./realtime');
+const { availableAgents, markIdleAgentsAway } = require('./availability');
+const { SLA_HOURS } = require('./conversations');
+const { httpError } = require('./http');
+
+// Entries of Contact.assignmentHistory kept per conversation
+const HISTORY_LIMIT = 50;
+// Conversations that count towards an agent's load
+const OPEN_STATUSES = ['new', 'in-progress'];
+// Waiting conversations handed out per sweep, and how often it runs
+const REQUEUE_BATCH = 50;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let started = false;
+
+// Give a conversation to `assignee` (a User), or take it from whoever has it
+// with null. `by` is the User doing it, null for the system. The change only
+// applies while the conversation is still assigned as `expected` (a user id,
+// null for unassigned) when given, so two people cannot both take the same
+// conversation. Records the change in the history and publishes the contact.
+async function assignConversation(contactId, assignee, { by = null, expected, reason } = {}) {
+  const contact = await Contact.findById(contactId);
+  if (!contact) return null;
+
+  const current = contact.assignedTo && contact.assignedTo.userId ? contact.assignedTo : null;
+  const previousId = current ? current.userId : null;
+  if (expected !== undefined && String(previousId) !== String(expected)) {
+    throw httpError(409, current ? `Already assigned to ${current.name}` : 'This conversation was unassigned meanwhile');
+  }
+  if (String(previousId) === String(assignee ? assignee._id : null)) return contact;
+
+  const entry = {
+    from: current ? { userId: current.userId, name: current.name } : undefined,
+    to: assignee ? assignee.toActor() : undefined,
+    by: by ? by.toActor() : undefined,
+    reason,
+    at: new Date()
+  };
+  const update = {
+    $push: { assignmentHistory: { $each: [entry], $slice: -HISTORY_LIMIT } },
+    ...(assignee
+      ? { $set: { assignedTo: assignee.toActor(), assignedAt: entry.at } }
+      : { $unset: { assignedTo: '', assignedAt: '' } })
+  };
+
+  // Someone else may have changed the assignment since it was read
+  const updated = await Contact.findOneAndUpdate(
+    { _id: contact._id, 'assignedTo.userId': previousId ? new mongoose.Types.ObjectId(previousId) : null },
+    update,
+    { new: true }
+  );
+  if (!updated) throw httpError(409, 'The conversation was reassigned meanwhile, reload and try again');
+
+  publish('contact-updated', updated);
+  if (assignee) {
+    publish('conversation-assigned', { contact: updated, to: entry.to, by: entry.by || null, reason });
+  }
+  return updated;
+}
+
+// Open conversations per user id
+async function openConversationCounts(userIds) {
+  const counts = await Contact.aggregate([
+    { $match: { 'assignedTo.userId': { $in: userIds }, queryStatus: { $in: OPEN_STATUSES } } },
+    { $group: { _id: '$assignedTo.userId', count: { $sum: 1 } } }
+  ]);
+  return new Map(counts.map((c) => [String(c._id), c.count]));
+}
+
+// Open conversations an agent may hold, 0 for no limit
+function capacityOf(settings, userId) {
+  const own = settings.agentLimits.find((limit) => String(limit.userId) === String(userId));
+  return own ? own.max : settings.maxConcurrent;
+}
+
+// The agent to give the next conversation to, from agents with room for it
+function pickAgent(settings, agents, loads) {
+  const byId = agents.slice().sort((a, b) => String(a._id).localeCompare(String(b._id)));
+  if (settings.strategy === 'least-loaded') {
+    return byId.reduce((best, agent) =>
+      (loads.get(String(agent._id)) || 0) < (loads.get(String(best._id)) || 0) ? agent : best
+    );
+  }
+  // Round-robin: the next one after the last agent picked
+  const last = String(settings.lastAssignedUserId || '');
+  return byId.find((agent) => String(agent._id) > last) || byId[0];
+}
+
+// Give a conversation to an available agent (online and on shift) following
+// the assignment settings. A conversation whose agent is available stays with
+// them. `reason` is recorded in the history before the strategy. Returns the
+// updated contact, or null when nobody was assigned (auto-assignment off, or
+// no agent available with room).
+async function autoAssign(contact, { reason: why } = {}) {
+  const settings = await AssignmentSettings.current();
+  if (!settings.enabled) return null;
+
+  let agents = await availableAgents();
+  const current = contact.assignedTo && contact.assignedTo.userId ? contact.assignedTo.userId : null;
+  if (current && agents.some((agent) => agent._id.equals(current))) return null;
+
+  const tags = contact.tags || [];
+  const route = settings.routes.find((r) => r.tags.some((tag) => tags.includes(tag)));
+  if (route) {
+    agents = agents.filter((agent) => route.agents.some((id) => id.equals(agent._id)));
+  }
+
+  const loads = await openConversationCounts(agents.map((agent) => agent._id));
+  const available = agents.filter((agent) => {
+    const capacity = capacityOf(settings, agent._id);
+    return !capacity || (loads.get(String(agent._id)) || 0) < capacity;
+  });
+  if (available.length === 0) return null;
+
+  const agent = pickAgent(settings, available, loads);
+  if (settings.strategy === 'round-robin') {
+    await AssignmentSettings.updateOne({ _id: settings._id }, { lastAssignedUserId: agent._id });
+  }
+
+  const reason = [why, settings.strategy, route && (route.name || route.tags.join(', '))].filter(Boolean).join(', ');
+  try {
+    return await assignConversation(contact._id, agent, { expected: current, reason });
+  } catch (error) {
+    // Someone took it by hand meanwhile
+    if (error.status === 409) return null;
+    throw error;
+  }
+}
+
+// Hand out the conversations waiting for a reply that no available agent
+// holds: unassigned ones (nobody was available when they came in) and, once
+// past the reply SLA, those of agents who are away, offline or off shift
+async function requeueConversations() {
+  const agents = await availableAgents();
+  if (agents.length === 0) return 0;
+
+  const waiting = await Contact.find({
+    queryStatus: { $in: OPEN_STATUSES },
+    awaitingReplySince: { $ne: null },
+    $or: [
+      { 'assignedTo.userId': null },
+      {
+        'assignedTo.userId': { $nin: agents.map((agent) => agent._id) },
+        awaitingReplySince: { $lte: new Date(Date.now() - SLA_HOURS * 3600000) }
+      }
+    ]
+  }).sort({ awaitingReplySince: 1 }).limit(REQUEUE_BATCH);
+
+  let assigned = 0;
+  for (const contact of waiting) {
+    const holder = contact.assignedTo && contact.assignedTo.userId ? contact.assignedTo.name : null;
+    if (await autoAssign(contact, { reason: holder ? `escalated, ${holder} unavailable` : undefined })) assigned++;
+  }
+  return assigned;
+}
+
+// Every minute: agents idle past the timeout go away, then waiting
+// conversations are handed out to whoever is available
+async function sweep() {
+  if (mongoose.connection.readyState !== 1) return;
+  try {
+    const settings = await AssignmentSettings.current();
+    await markIdleAgentsAway(settings.awayAfterMinutes);
+    if (settings.enabled) await requeueConversations();
+  } catch (error) {
+    console.error('Assignment sweep failed:', error);
+  }
+}
+
+function start() {
+  if (started) return;
+  started = true;
+  setInterval(sweep, SWEEP_INTERVAL_MS);
+}
+
+module.exports = { assignConversation, autoAssign, requeueConversations, openConversationCounts, capacityOf, start, HISTORY_LIMIT };
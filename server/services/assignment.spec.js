@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createRequire } from "module";
+
+// Loaded through Node's require so the spec and the service share the models
+const require = createRequire(import.meta.url);
+const mongoose = require("mongoose");
+const User = require("../models/User");
+const Contact = require("../models/Contact");
+const AssignmentSettings = require("../models/AssignmentSettings");
+const { autoAssign, capacityOf } = require("./assignment");
+
+const id = (n) => new mongoose.Types.ObjectId(String(n).padStart(24, "0"));
+
+const agent = (n, name) =>
+  new User({ _id: id(n), name, email: `${name.toLowerCase()}@example.com`, role: "agent", passwordHash: "x", availability: { status: "online" } });
+
+const ana = agent(1, "Ana");
+const ben = agent(2, "Ben");
+const cho = agent(3, "Cho");
+
+describe("capacityOf", () => {
+  it("uses an agent's own limit over the shared one", () => {
+    const settings = new AssignmentSettings({ maxConcurrent: 5, agentLimits: [{ userId: ben._id, max: 2 }] });
+    expect(capacityOf(settings, ana._id)).toBe(5);
+    expect(capacityOf(settings, String(ben._id))).toBe(2);
+  });
+});
+
+describe("autoAssign", () => {
+  let contact;
+
+  // Assign `contact` with these settings, online agents and open conversation
+  // counts; returns the agent it went to, or null
+  async function assign(settingsFields, agents, loads = {}) {
+    const settings = new AssignmentSettings({ enabled: true, ...settingsFields });
+    vi.spyOn(AssignmentSettings, "current").mockResolvedValue(settings);
+    vi.spyOn(AssignmentSettings, "updateOne").mockResolvedValue({ modifiedCount: 1 });
+    vi.spyOn(User, "find").mockResolvedValue(agents);
+    vi.spyOn(Contact, "aggregate").mockResolvedValue(
+      Object.entries(loads).map(([userId, count]) => ({ _id: id(userId), count }))
+    );
+    vi.spyOn(Contact, "findById").mockResolvedValue(contact);
+    vi.spyOn(Contact, "findOneAndUpdate").mockImplementation(async (filter, update) => {
+      contact.assignedTo = update.$set.assignedTo;
+      return contact;
+    });
+
+    const updated = await autoAssign(contact);
+    return updated ? updated.assignedTo.name : null;
+  }
+
+  beforeEach(() => {
+    contact = new Contact({ name: "Sam", phone: "447700900123", queryStatus: "new" });
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it("does nothing while auto-assignment is off", async () => {
+    expect(await assign({ enabled: false }, [ana, ben])).toBeNull();
+    expect(User.find).not.toHaveBeenCalled();
+  });
+
+  it("takes turns in round-robin, starting over after the last agent", async () => {
+    expect(await assign({ lastAssignedUserId: ana._id }, [cho, ana, ben])).toBe("Ben");
+    expect(AssignmentSettings.updateOne).toHaveBeenCalledWith(expect.anything(), { lastAssignedUserId: ben._id });
+
+    vi.restoreAllMocks();
+    contact.assignedTo = undefined;
+    expect(await assign({ lastAssignedUserId: cho._id }, [cho, ana, ben])).toBe("Ana");
+  });
+
+  it("gives least-loaded conversations to the agent with the fewest open ones", async () => {
+    expect(await assign({ strategy: "least-loaded" }, [ana, ben, cho], { 1: 4, 2: 1, 3: 2 })).toBe("Ben");
+    expect(AssignmentSettings.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("skips agents at capacity", async () => {
+    const limits = { maxConcurrent: 3, lastAssignedUserId: ana._id };
+    expect(await assign(limits, [ana, ben, cho], { 2: 3, 3: 1 })).toBe("Cho");
+  });
+
+  it("honours an agent's own limit", async () => {
+    const limits = { maxConcurrent: 3, agentLimits: [{ userId: ben._id, max: 1 }], lastAssignedUserId: ana._id };
+    expect(await assign(limits, [ana, ben, cho], { 2: 1 })).toBe("Cho");
+  });
+
+  it("leaves the conversation waiting when every agent is full", async () => {
+    expect(await assign({ maxConcurrent: 1 }, [ana, ben], { 1: 1, 2: 3 })).toBeNull();
+    expect(Contact.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("keeps conversations with an agent who is still available", async () => {
+    contact.assignedTo = ana.toActor();
+    expect(await assign({}, [ana, ben])).toBeNull();
+  });
+
+  it("only routes tagged conversations to the route's agents", async () => {
+    contact.tags = ["billing"];
+    const routes = [{ name: "Billing", tags: ["billing"], agents: [cho._id] }];
+    expect(await assign({ routes, lastAssignedUserId: ana._id }, [ana, ben, cho])).toBe("Cho");
+    expect(Contact.findOneAndUpdate.mock.calls[0][1].$push.assignmentHistory.$each[0].reason).toBe("round-robin, Billing");
+  });
+});
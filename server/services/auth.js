@@ -0,0 +1,137 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const { badRequest } = require('./http');
+
+const scrypt = promisify(crypto.scrypt);
+
+// Sign-in settings, from the environment
+const SESSION_COOKIE = 'wc_session';
+const SESSION_TTL_DAYS = parseInt(process.env.SESSION_TTL_DAYS, 10) || 7;
+const MIN_PASSWORD_LENGTH = 8;
+// How often a session's lastSeenAt is written, at most
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+function validatePassword(password) {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw badRequest(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+// "scrypt$<salt>$<hash>", both hex
+async function hashPassword(password) {
+  validatePassword(password);
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password, stored) {
+  const [scheme, salt, expected] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !expected || typeof password !== 'string') return false;
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  return expectedBuffer.length === hash.length && crypto.timingSafeEqual(hash, expectedBuffer);
+}
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// The user with these credentials, or null; inactive accounts cannot sign in
+async function authenticateUser(email, password) {
+  const user = await User.findOne({ email: String(email || '').trim().toLowerCase() });
+  // Hash anyway so unknown emails take as long as wrong passwords
+  const valid = await verifyPassword(password, user ? user.passwordHash : `scrypt$${'0'.repeat(32)}$${'0'.repeat(KEY_LENGTH * 2)}`);
+  return user && valid && user.active ? user : null;
+}
+
+// Start a session for the user: { token, expiresAt }
+async function createSession(user, { userAgent } = {}) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  await Session.create({ tokenHash: hashToken(token), userId: user._id, userAgent, expiresAt });
+  user.lastLoginAt = new Date();
+  await user.save();
+  return { token, expiresAt };
+}
+
+// The active user of a session token, or null
+async function userForToken(token) {
+  if (!token) return null;
+  const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+  if (!session) return null;
+  const user = await User.findById(session.userId);
+  if (!user || !user.active) return null;
+
+  if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    Session.updateOne({ _id: session._id }, { lastSeenAt: new Date() }).catch((error) =>
+      console.error('Could not update session:', error.message)
+    );
+  }
+  return user;
+}
+
+async function endSession(token) {
+  if (token) await Session.deleteOne({ tokenHash: hashToken(token) });
+}
+
+// Sign a user out everywhere, e.g. after a password change or deactivation
+async function endUserSessions(userId, { except } = {}) {
+  const filter = { userId };
+  if (except) filter.tokenHash = { $ne: hashToken(except) };
+  await Session.deleteMany(filter);
+}
+
+function readSessionToken(req) {
+  const header = req.get('Cookie') || '';
+  for (const part of header.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+// The session cookie is HTTP-only, so page scripts cannot read it. In production
+// the client is served from another site (GitHub Pages), which needs SameSite=None.
+function cookieOptions(expiresAt) {
+  return {
+    httpOnly: true,
+    sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    ...(expiresAt && { expires: expiresAt })
+  };
+}
+
+// With INITIAL_ADMIN_EMAIL and INITIAL_ADMIN_PASSWORD set, create that admin when
+// there are no users yet, so a new deployment can be signed in to
+async function ensureInitialAdmin() {
+  const email = process.env.INITIAL_ADMIN_EMAIL;
+  const password = process.env.INITIAL_ADMIN_PASSWORD;
+  if (!email || !password || (await User.exists({}))) return null;
+
+  const user = await User.create({
+    name: process.env.INITIAL_ADMIN_NAME || 'Admin',
+    email,
+    role: 'admin',
+    passwordHash: await hashPassword(password)
+  });
+  console.log(`Created the initial admin account ${user.email}`);
+  return user;
+}
+
+module.exports = {
+  SESSION_COOKIE,
+  validatePassword,
+  hashPassword,
+  verifyPassword,
+  authenticateUser,
+  createSession,
+  userForToken,
+  endSession,
+  endUserSessions,
+  readSessionToken,
+  cookieOptions,
+  ensureInitialAdmin
+};
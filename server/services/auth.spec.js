@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createRequire } from "module";
+
+// Loaded through Node's require so the spec and the service share the models
+const require = createRequire(import.meta.url);
+const User = require("../models/User");
+const Session = require("../models/Session");
+const auth = require("./auth");
+
+const newUser = (fields = {}) =>
+  new User({ name: "Priya", email: "priya@example.com", role: "agent", passwordHash: "x", ...fields });
+
+describe("passwords", () => {
+  it("verifies the password a hash was made from", async () => {
+    const stored = await auth.hashPassword("correct horse");
+    expect(stored).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    await expect(auth.verifyPassword("correct horse", stored)).resolves.toBe(true);
+    await expect(auth.verifyPassword("correct horsf", stored)).resolves.toBe(false);
+  });
+
+  it("salts every hash", async () => {
+    expect(await auth.hashPassword("correct horse")).not.toBe(await auth.hashPassword("correct horse"));
+  });
+
+  it("rejects short passwords", async () => {
+    await expect(auth.hashPassword("short")).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("never matches a malformed or missing hash", async () => {
+    await expect(auth.verifyPassword("anything", undefined)).resolves.toBe(false);
+    await expect(auth.verifyPassword("anything", "md5$abc")).resolves.toBe(false);
+    await expect(auth.verifyPassword(undefined, await auth.hashPassword("correct horse"))).resolves.toBe(false);
+  });
+});
+
+describe("authenticateUser", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("signs in active users with the right password", async () => {
+    const user = newUser({ passwordHash: await auth.hashPassword("correct horse") });
+    vi.spyOn(User, "findOne").mockResolvedValue(user);
+
+    await expect(auth.authenticateUser(" Priya@Example.com ", "correct horse")).resolves.toBe(user);
+    expect(User.findOne).toHaveBeenCalledWith({ email: "priya@example.com" });
+    await expect(auth.authenticateUser("priya@example.com", "wrong password")).resolves.toBeNull();
+  });
+
+  it("refuses deactivated accounts and unknown emails", async () => {
+    const user = newUser({ active: false, passwordHash: await auth.hashPassword("correct horse") });
+    vi.spyOn(User, "findOne").mockResolvedValueOnce(user).mockResolvedValueOnce(null);
+
+    await expect(auth.authenticateUser("priya@example.com", "correct horse")).resolves.toBeNull();
+    await expect(auth.authenticateUser("nobody@example.com", "correct horse")).resolves.toBeNull();
+  });
+});
+
+describe("sessions", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  // Starts a session for `user` and returns its token and the stored session
+  async function signIn(user) {
+    vi.spyOn(Session, "create").mockImplementation(async (fields) => new Session(fields));
+    vi.spyOn(user, "save").mockResolvedValue(user);
+    const { token, expiresAt } = await auth.createSession(user, { userAgent: "spec" });
+    const session = await Session.create.mock.results[0].value;
+    return { token, expiresAt, session };
+  }
+
+  it("stores only a hash of the token", async () => {
+    const user = newUser();
+    const { token, expiresAt, session } = await signIn(user);
+
+    expect(session.tokenHash).not.toContain(token);
+    expect(session.userId).toEqual(user._id);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+    expect(user.lastLoginAt).toBeInstanceOf(Date);
+  });
+
+  it("finds the user of a live session", async () => {
+    const user = newUser();
+    const { token, session } = await signIn(user);
+    vi.spyOn(Session, "findOne").mockResolvedValue(session);
+    vi.spyOn(User, "findById").mockResolvedValue(user);
+
+    await expect(auth.userForToken(token)).resolves.toBe(user);
+    const [filter] = Session.findOne.mock.calls[0];
+    expect(filter.tokenHash).toBe(session.tokenHash);
+    expect(filter.expiresAt.$gt).toBeInstanceOf(Date);
+  });
+
+  it("ends the sessions of deactivated users", async () => {
+    const user = newUser({ active: false });
+    const { token, session } = await signIn(user);
+    vi.spyOn(Session, "findOne").mockResolvedValue(session);
+    vi.spyOn(User, "findById").mockResolvedValue(user);
+
+    await expect(auth.userForToken(token)).resolves.toBeNull();
+    await expect(auth.userForToken(null)).resolves.toBeNull();
+  });
+
+  it("writes lastSeenAt at most every few minutes", async () => {
+    const user = newUser();
+    const { token, session } = await signIn(user);
+    vi.spyOn(Session, "findOne").mockResolvedValue(session);
+    vi.spyOn(User, "findById").mockResolvedValue(user);
+    vi.spyOn(Session, "updateOne").mockResolvedValue({ modifiedCount: 1 });
+
+    await auth.userForToken(token);
+    expect(Session.updateOne).not.toHaveBeenCalled();
+
+    session.lastSeenAt = new Date(Date.now() - 10 * 60 * 1000);
+    await auth.userForToken(token);
+    expect(Session.updateOne).toHaveBeenCalledWith({ _id: session._id }, { lastSeenAt: expect.any(Date) });
+  });
+
+  it("can keep the current session when signing a user out everywhere", async () => {
+    const user = newUser();
+    const { token, session } = await signIn(user);
+    vi.spyOn(Session, "deleteMany").mockResolvedValue({ deletedCount: 2 });
+
+    await auth.endUserSessions(user._id, { except: token });
+    expect(Session.deleteMany).toHaveBeenCalledWith({ userId: user._id, tokenHash: { $ne: session.tokenHash } });
+  });
+
+  it("reads the token from the session cookie", () => {
+    const req = (cookie) => ({ get: () => cookie });
+    expect(auth.readSessionToken(req(`theme=dark; ${auth.SESSION_COOKIE}=abc%3D%3D; other=1`))).toBe("abc==");
+    expect(auth.readSessionToken(req("theme=dark"))).toBeNull();
+    expect(auth.readSessionToken(req(undefined))).toBeNull();
+  });
+});
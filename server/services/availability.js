@@ -0,0 +1,89 @@
+const User = require('../models/User');
+const { publish } = require('./realtime');
+
+// Whether agents are working right now: the status they set in the sidebar
+// (online, away, offline) and the weekly shifts admins give them. Only agents
+// who are online and on shift get conversations (see services/assignment).
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Day of the week (0 = Sunday) and minutes since midnight at `at` in `timezone`
+function localTime(at, timezone) {
+  let parts;
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'UTC',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+  } catch {
+    // Unknown time zone
+    return localTime(at, 'UTC');
+  }
+  const part = (type) => parts.find((p) => p.type === type).value;
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'));
+  return { day, minutes: Number(part('hour')) * 60 + Number(part('minute')) };
+}
+
+// Whether `at` falls in one of the user's shifts. Users without shifts are
+// always on shift; a shift ending before it starts runs past midnight.
+function isOnShift(user, at = new Date()) {
+  if (!user.shifts || user.shifts.length === 0) return true;
+  const { day, minutes } = localTime(at, user.timezone);
+  const yesterday = (day + 6) % 7;
+  return user.shifts.some((shift) => {
+    const start = toMinutes(shift.start);
+    const end = toMinutes(shift.end);
+    if (start < end) return shift.day === day && minutes >= start && minutes < end;
+    return (shift.day === day && minutes >= start) || (shift.day === yesterday && minutes < end);
+  });
+}
+
+function isAvailable(user, at = new Date()) {
+  return user.active && user.role !== 'read-only' && user.availability.status === 'online' && isOnShift(user, at);
+}
+
+// Users who can take conversations right now
+async function availableAgents() {
+  const now = new Date();
+  const online = await User.find({ active: true, role: { $ne: 'read-only' }, 'availability.status': 'online' });
+  return online.filter((user) => isAvailable(user, now));
+}
+
+// Set a user's status; `idle` when the server sets away after inactivity
+async function setAvailability(user, status, { idle = false } = {}) {
+  user.availability = { status, changedAt: new Date(), idle };
+  await user.save();
+  publish('availability-changed', { userId: user._id, name: user.name, status, idle, changedAt: user.availability.changedAt });
+  return user;
+}
+
+// The user used the app: an agent set away for being idle is back online
+async function recordActivity(user) {
+  user.lastActiveAt = new Date();
+  if (user.availability.status === 'away' && user.availability.idle) {
+    return setAvailability(user, 'online');
+  }
+  await user.save();
+  return user;
+}
+
+// Online agents who have not used the app for `minutes` go away
+async function markIdleAgentsAway(minutes) {
+  if (!minutes) return 0;
+  const idle = await User.find({
+    'availability.status': 'online',
+    $or: [{ lastActiveAt: null }, { lastActiveAt: { $lt: new Date(Date.now() - minutes * 60 * 1000) } }]
+  });
+  for (const user of idle) {
+    await setAvailability(user, 'away', { idle: true });
+  }
+  return idle.length;
+}
+
+module.exports = { isOnShift, isAvailable, availableAgents, setAvailability, recordActivity, markIdleAgentsAway };
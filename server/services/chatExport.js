@@ -0,0 +1,346 @@
+const zlib = require('zlib');
+const Message = require('../models/Message');
+const { publish } = require('./realtime');
+const { analyzeSentiment } = require('./chats');
+const { MAX_MEDIA_BYTES, mediaTypeFromMime, mimeTypeFromFilename, storeMedia } = require('./media');
+const { badRequest } = require('./http');
+
+// Parser for WhatsApp's "Export chat" files: the .txt, or the .zip that also
+// holds the attachments. Lines look like, depending on phone and locale:
+//
+//   Android  31/12/2020, 22:15 - Ann: Hello        12/31/20, 10:15 PM - Ann: Hello
+//            31.12.20, 22:15 - Ann: Hello          2020-12-31 22:15 - Ann: Hello
+//   iOS      [31/12/2020, 22:15:03] Ann: Hello     [12/31/20, 10:15:03 PM] Ann: Hello
+//
+// Lines without a date continue the previous message. Lines without "Name:" are
+// notices (encryption banner, group changes) and are skipped. Times are the
+// exporting phone's local time.
+//
+// Importing is two steps on the contacts page: a preview, where the user picks
+// the date order when it cannot be told and which sender is them, then the
+// import itself. Messages already stored for the contact (same direction, text
+// and minute) are skipped, so an export can be imported again safely.
+
+const LINE_PATTERN = /^\[?(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*(?:([ap])\.?\s?m\.?)?\]?\s*(?:[-–]\s+)?(.*)$/i;
+// "IMG-20201231-WA0001.jpg (file attached)" on Android, "<attached: 00000012-PHOTO.jpg>" on iOS
+const ANDROID_ATTACHMENT = /^(\S.*\.\w{2,5}) \([^)]+\)$/;
+const IOS_ATTACHMENT = /^<\w+: (.+\.\w{2,5})>$/;
+// "<Media omitted>" and its translations
+const MEDIA_OMITTED = /^<[^<>:]+>$/;
+
+const DATE_ORDERS = ['DMY', 'MDY', 'YMD'];
+
+// Largest chat text unpacked from a zip; years of a busy chat are a few MB
+const MAX_CHAT_TEXT_BYTES = 64 * 1024 * 1024;
+
+// Name -> function unpacking that entry. It refuses entries over `maxBytes`
+// unpacked, by their stated size and while inflating, since the stated size
+// can be made up.
+function readZipEntries(buffer) {
+  // End of central directory record, searched from the end (it may be followed by a comment)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a valid zip file');
+  }
+
+  const entries = new Map();
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) break;
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name.split('/').pop(), (maxBytes) => {
+      const tooLarge = () => new Error(`${name} is too large (over ${Math.round(maxBytes / 1024 / 1024)} MB)`);
+      if (size > maxBytes) throw tooLarge();
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        if (data.length > maxBytes) throw tooLarge();
+        return data;
+      }
+      if (method === 8) {
+        try {
+          return zlib.inflateRawSync(data, { maxOutputLength: maxBytes });
+        } catch (error) {
+          throw error.code === 'ERR_BUFFER_TOO_LARGE' ? tooLarge() : error;
+        }
+      }
+      throw new Error(`Unsupported zip compression in ${name}`);
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// The chat text and, for a zip, a lookup for its attachments
+function openExport(buffer, filename = '') {
+  const isZip = buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+  if (!isZip) {
+    return { text: buffer.toString('utf8'), attachments: new Map() };
+  }
+
+  const attachments = readZipEntries(buffer);
+  const chatName = Array.from(attachments.keys()).find((name) => name.toLowerCase().endsWith('.txt'));
+  if (!chatName) {
+    throw new Error(`${filename || 'The zip file'} does not contain a WhatsApp chat (.txt)`);
+  }
+  const text = attachments.get(chatName)(MAX_CHAT_TEXT_BYTES).toString('utf8');
+  attachments.delete(chatName);
+  return { text, attachments };
+}
+
+// DMY or MDY: a first part above 12 can only be a day, a second part above 12 too
+function detectDateOrder(lines) {
+  if (lines.length > 0 && lines[0][0].length === 4) {
+    return { dateOrder: 'YMD', ambiguous: false };
+  }
+  let dayFirst = false;
+  let monthFirst = false;
+  for (const [a, b] of lines) {
+    if (parseInt(a, 10) > 12) dayFirst = true;
+    if (parseInt(b, 10) > 12) monthFirst = true;
+  }
+  if (dayFirst !== monthFirst) {
+    return { dateOrder: dayFirst ? 'DMY' : 'MDY', ambiguous: false };
+  }
+  return { dateOrder: 'DMY', ambiguous: true };
+}
+
+// Wall-clock time on the exporting phone -> Date. timezoneOffset is in minutes,
+// as returned by Date.prototype.getTimezoneOffset() on that side.
+function toDate([a, b, c, hours, minutes, seconds, meridiem], dateOrder, timezoneOffset) {
+  let year;
+  let month;
+  let day;
+  if (dateOrder === 'YMD') {
+    [year, month, day] = [a, b, c];
+  } else if (dateOrder === 'MDY') {
+    [month, day, year] = [a, b, c];
+  } else {
+    [day, month, year] = [a, b, c];
+  }
+  year = parseInt(year, 10);
+  if (year < 100) year += 2000;
+
+  let hour = parseInt(hours, 10);
+  if (meridiem) {
+    const pm = meridiem.toLowerCase() === 'p';
+    if (pm && hour < 12) hour += 12;
+    if (!pm && hour === 12) hour = 0;
+  }
+
+  const utc = Date.UTC(year, parseInt(month, 10) - 1, parseInt(day, 10), hour, parseInt(minutes, 10), parseInt(seconds || '0', 10));
+  return new Date(utc + timezoneOffset * 60000);
+}
+
+// Split an entry's text into the attachment it announces and the caption
+function parseBody(text) {
+  const [first, ...rest] = text.split('\n');
+  const match = first.match(IOS_ATTACHMENT) || first.match(ANDROID_ATTACHMENT);
+  if (match) {
+    return { text: rest.join('\n').trim(), attachment: match[1].trim(), mediaOmitted: false };
+  }
+  if (MEDIA_OMITTED.test(text.trim())) {
+    return { text: '', attachment: null, mediaOmitted: true };
+  }
+  return { text: text.trim(), attachment: null, mediaOmitted: false };
+}
+
+// Parse an export into [{ timestamp, sender, text, attachment, mediaOmitted }].
+// dateOrder is 'auto' or one of DMY, MDY, YMD.
+function parseChatExport(text, { dateOrder = 'auto', timezoneOffset = 0 } = {}) {
+  const lines = text.replace(/[\u200e\u200f\ufeff]/g, '').split(/\r?\n/);
+
+  const entries = [];
+  for (const line of lines) {
+    const match = line.match(LINE_PATTERN);
+    if (match) {
+      entries.push({ parts: match.slice(1, 8), body: match[8] });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].body += `\n${line}`;
+    }
+  }
+
+  const detected = detectDateOrder(entries.map((entry) => entry.parts));
+  const order = DATE_ORDERS.includes(dateOrder) ? dateOrder : detected.dateOrder;
+
+  const messages = [];
+  for (const entry of entries) {
+    const separator = entry.body.indexOf(': ');
+    if (separator <= 0) continue; // notice without a sender
+
+    const timestamp = toDate(entry.parts, order, timezoneOffset);
+    if (isNaN(timestamp.getTime())) continue;
+
+    const sender = entry.body.slice(0, separator).trim();
+    messages.push({ timestamp, sender, ...parseBody(entry.body.slice(separator + 2)) });
+  }
+
+  return { messages, dateOrder: order, ambiguous: dateOrder === 'auto' && detected.ambiguous };
+}
+
+// Minute precision: Android exports have no seconds
+function messageKey(direction, timestamp, text) {
+  return `${direction}|${Math.floor(new Date(timestamp).getTime() / 60000)}|${text}`;
+}
+
+// Parse an upload ({ filename, data (base64), dateOrder, me, timezoneOffset })
+// for a contact and mark each message outbound/inbound and new/already stored
+async function prepareImport(contact, { filename, data, dateOrder = 'auto', me, timezoneOffset } = {}) {
+  if (!data) {
+    throw badRequest('Choose a WhatsApp chat export (.txt or .zip)');
+  }
+  if (dateOrder !== 'auto' && !DATE_ORDERS.includes(dateOrder)) {
+    throw badRequest(`dateOrder must be auto, ${DATE_ORDERS.join(', ')}`);
+  }
+
+  let parsed;
+  let attachments;
+  try {
+    const file = openExport(Buffer.from(data, 'base64'), filename);
+    attachments = file.attachments;
+    parsed = parseChatExport(file.text, { dateOrder, timezoneOffset: parseInt(timezoneOffset, 10) || 0 });
+  } catch (error) {
+    throw badRequest(error.message);
+  }
+  if (parsed.messages.length === 0) {
+    throw badRequest('No messages found. Is this a WhatsApp "Export chat" file?');
+  }
+
+  const counts = new Map();
+  parsed.messages.forEach((m) => counts.set(m.sender, (counts.get(m.sender) || 0) + 1));
+  const senders = Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+
+  // In a one-to-one chat the sender that is not the contact is us
+  let self = me && counts.has(me) ? me : null;
+  if (me === undefined && contact.chatType !== 'group' && senders.length === 2) {
+    const others = senders.filter((s) => s.name.toLowerCase() !== (contact.name || '').toLowerCase() && !s.name.replace(/\D/g, '').endsWith(contact.phone));
+    if (others.length === 1) self = others[0].name;
+  }
+
+  const first = parsed.messages[0].timestamp;
+  const last = parsed.messages[parsed.messages.length - 1].timestamp;
+  const stored = await Message.find(
+    { contactId: contact._id, timestamp: { $gte: new Date(first.getTime() - 60000), $lte: new Date(last.getTime() + 60000) } },
+    'direction timestamp message'
+  );
+  const known = new Set(stored.map((m) => messageKey(m.direction, m.timestamp, m.message)));
+
+  const messages = parsed.messages.map((m) => {
+    const direction = m.sender === self ? 'outbound' : 'inbound';
+    return { ...m, direction, duplicate: known.has(messageKey(direction, m.timestamp, m.text)) };
+  });
+
+  return {
+    messages,
+    attachments,
+    summary: {
+      filename: filename || null,
+      dateOrder: parsed.dateOrder,
+      ambiguous: parsed.ambiguous,
+      senders,
+      me: self,
+      total: messages.length,
+      duplicates: messages.filter((m) => m.duplicate).length,
+      attachments: messages.filter((m) => m.attachment).length,
+      attachmentsIncluded: messages.filter((m) => m.attachment && attachments.has(m.attachment)).length,
+      first,
+      last
+    }
+  };
+}
+
+// What the preview shows: the summary and the first messages
+async function previewImport(contact, upload) {
+  const { messages, summary } = await prepareImport(contact, upload);
+  const sample = messages.slice(0, 20).map(({ timestamp, sender, text, attachment, mediaOmitted, direction, duplicate }) => ({
+    timestamp, sender, text, attachment, mediaOmitted, direction, duplicate
+  }));
+  return { ...summary, sample };
+}
+
+// Store the new messages of an export with their original timestamps
+async function importExport(contact, upload) {
+  const { messages, attachments, summary } = await prepareImport(contact, upload);
+  const fresh = messages.filter((m) => !m.duplicate);
+
+  let storedAttachments = 0;
+  let missingAttachments = 0;
+  const docs = [];
+  for (const m of fresh) {
+    const doc = {
+      contactId: contact._id,
+      phone: contact.phone,
+      chatType: contact.chatType,
+      direction: m.direction,
+      message: m.text,
+      type: 'text',
+      sessionId: contact.sessionId,
+      timestamp: m.timestamp,
+      status: m.direction === 'outbound' ? 'sent' : 'delivered'
+    };
+
+    if (m.attachment || m.mediaOmitted) {
+      const mimeType = m.attachment ? mimeTypeFromFilename(m.attachment) : 'application/octet-stream';
+      doc.type = mediaTypeFromMime(mimeType);
+      doc.media = { mimeType, filename: m.attachment || null };
+      const file = m.attachment && attachments.get(m.attachment);
+      if (file) {
+        try {
+          const buffer = file(MAX_MEDIA_BYTES);
+          doc.media = await storeMedia({ mimeType, data: buffer.toString('base64'), filename: m.attachment });
+          storedAttachments += 1;
+        } catch (error) {
+          // Kept as an unavailable attachment
+          console.error(`Chat import could not store ${m.attachment}:`, error.message || error);
+        }
+      }
+      if (m.attachment && !doc.media.key) missingAttachments += 1;
+    } else if (!m.text) {
+      continue;
+    }
+
+    if (m.direction === 'outbound') {
+      doc.sentAt = m.timestamp;
+    } else {
+      const sentiment = analyzeSentiment(doc.message);
+      doc.sentiment = sentiment.sentiment;
+      doc.sentimentScore = sentiment.score;
+      if (contact.chatType === 'group') doc.author = { name: m.sender };
+    }
+    docs.push(doc);
+  }
+
+  if (docs.length > 0) {
+    await Message.insertMany(docs);
+    if (!contact.lastContacted || contact.lastContacted < summary.last) {
+      contact.lastContacted = summary.last;
+      await contact.save();
+    }
+  }
+  publish('contact-updated', contact);
+  console.log(`Imported ${docs.length} messages from a chat export into ${contact.name} (${contact.phone})`);
+
+  return {
+    imported: docs.length,
+    duplicates: summary.duplicates,
+    attachments: storedAttachments,
+    missingAttachments
+  };
+}
+
+module.exports = { openExport, parseChatExport, previewImport, importExport, DATE_ORDERS };
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createRequire } from "module";
+import zlib from "zlib";
+
+// Loaded through Node's require so the spec and the service share the models
+const require = createRequire(import.meta.url);
+const Contact = require("../models/Contact");
+const Message = require("../models/Message");
+const { openExport, parseChatExport, previewImport } = require("./chatExport");
+
+// A zip holding `files` (name -> string), deflated, the way phones export chats
+function zip(files) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = Buffer.from(content);
+    const compressed = zlib.deflateRawSync(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + compressed.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe("parseChatExport", () => {
+  it("reads Android exports", () => {
+    const { messages, dateOrder, ambiguous } = parseChatExport(
+      [
+        "31/12/2020, 22:15 - Messages and calls are end-to-end encrypted.",
+        "31/12/2020, 22:15 - Ann: Hello",
+        "31/12/2020, 22:16 - Me: Hi Ann",
+        "how can I help?",
+      ].join("\n")
+    );
+    expect(dateOrder).toBe("DMY");
+    expect(ambiguous).toBe(false);
+    expect(messages).toEqual([
+      { timestamp: new Date("2020-12-31T22:15:00Z"), sender: "Ann", text: "Hello", attachment: null, mediaOmitted: false },
+      { timestamp: new Date("2020-12-31T22:16:00Z"), sender: "Me", text: "Hi Ann\nhow can I help?", attachment: null, mediaOmitted: false },
+    ]);
+  });
+
+  it("reads iOS exports with seconds and a 12-hour clock", () => {
+    const { messages, dateOrder } = parseChatExport("\u200e[12/31/20, 10:15:03 PM] Ann: Hello\n[1/2/21, 12:05:00 AM] Ann: Still there?");
+    expect(dateOrder).toBe("MDY");
+    expect(messages.map((m) => m.timestamp)).toEqual([new Date("2020-12-31T22:15:03Z"), new Date("2021-01-02T00:05:00Z")]);
+  });
+
+  it("reads year-first dates", () => {
+    const { messages, dateOrder } = parseChatExport("2020-12-31 22:15 - Ann: Hello");
+    expect(dateOrder).toBe("YMD");
+    expect(messages[0].timestamp).toEqual(new Date("2020-12-31T22:15:00Z"));
+  });
+
+  it("asks for the date order when it cannot be told", () => {
+    const text = "02/03/2021, 09:00 - Ann: Hello";
+    expect(parseChatExport(text)).toMatchObject({ dateOrder: "DMY", ambiguous: true });
+    const { messages, ambiguous } = parseChatExport(text, { dateOrder: "MDY" });
+    expect(ambiguous).toBe(false);
+    expect(messages[0].timestamp).toEqual(new Date("2021-02-03T09:00:00Z"));
+  });
+
+  it("shifts the phone's local time to UTC", () => {
+    const { messages } = parseChatExport("31/12/2020, 22:15 - Ann: Hello", { timezoneOffset: -330 });
+    expect(messages[0].timestamp).toEqual(new Date("2020-12-31T16:45:00Z"));
+  });
+
+  it("finds attachments and their captions", () => {
+    const { messages } = parseChatExport(
+      [
+        "31/12/2020, 22:15 - Ann: IMG-20201231-WA0001.jpg (file attached)",
+        "The receipt",
+        "[31/12/2020, 22:16:00] Ann: <attached: 00000012-PHOTO.jpg>",
+        "31/12/2020, 22:17 - Ann: <Media omitted>",
+      ].join("\n")
+    );
+    expect(messages.map(({ text, attachment, mediaOmitted }) => ({ text, attachment, mediaOmitted }))).toEqual([
+      { text: "The receipt", attachment: "IMG-20201231-WA0001.jpg", mediaOmitted: false },
+      { text: "", attachment: "00000012-PHOTO.jpg", mediaOmitted: false },
+      { text: "", attachment: null, mediaOmitted: true },
+    ]);
+  });
+});
+
+describe("openExport", () => {
+  it("reads a plain text export as is", () => {
+    const { text, attachments } = openExport(Buffer.from("31/12/2020, 22:15 - Ann: Hello"));
+    expect(text).toBe("31/12/2020, 22:15 - Ann: Hello");
+    expect(attachments.size).toBe(0);
+  });
+
+  it("takes the chat out of a zip and keeps the attachments", () => {
+    const { text, attachments } = openExport(
+      zip({ "WhatsApp Chat with Ann.txt": "31/12/2020, 22:15 - Ann: Hello", "IMG-20201231-WA0001.jpg": "jpeg bytes" })
+    );
+    expect(text).toBe("31/12/2020, 22:15 - Ann: Hello");
+    expect(Array.from(attachments.keys())).toEqual(["IMG-20201231-WA0001.jpg"]);
+    expect(attachments.get("IMG-20201231-WA0001.jpg")(1024).toString()).toBe("jpeg bytes");
+  });
+
+  it("refuses attachments over the size limit", () => {
+    const { attachments } = openExport(zip({ "chat.txt": "", "VID-1.mp4": "x".repeat(2048) }));
+    expect(() => attachments.get("VID-1.mp4")(1024)).toThrow(/too large/);
+  });
+
+  it("refuses a zip without a chat", () => {
+    expect(() => openExport(zip({ "photo.jpg": "jpeg bytes" }), "photos.zip")).toThrow("photos.zip does not contain a WhatsApp chat (.txt)");
+  });
+});
+
+describe("previewImport", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  const upload = (text) => ({ filename: "chat.txt", data: Buffer.from(text).toString("base64") });
+
+  it("tells us apart from the contact and spots messages already stored", async () => {
+    const contact = new Contact({ name: "Ann", phone: "447700900123" });
+    vi.spyOn(Message, "find").mockResolvedValue([
+      { direction: "outbound", timestamp: new Date("2020-12-31T22:16:30Z"), message: "Hi Ann" },
+    ]);
+
+    const preview = await previewImport(
+      contact,
+      upload(["31/12/2020, 22:15 - Ann: Hello", "31/12/2020, 22:16 - Sam: Hi Ann", "31/12/2020, 22:17 - Ann: Thanks"].join("\n"))
+    );
+    expect(preview.me).toBe("Sam");
+    expect(preview.total).toBe(3);
+    expect(preview.duplicates).toBe(1);
+    expect(preview.sample.map((m) => [m.direction, m.duplicate])).toEqual([
+      ["inbound", false],
+      ["outbound", true],
+      ["inbound", false],
+    ]);
+  });
+
+  it("answers 400 to files that are not chat exports", async () => {
+    const contact = new Contact({ name: "Ann", phone: "447700900123" });
+    await expect(previewImport(contact, upload("just some notes"))).rejects.toMatchObject({ status: 400 });
+    await expect(previewImport(contact, {})).rejects.toMatchObject({ status: 400 });
+  });
+});
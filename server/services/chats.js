@@ -0,0 +1,113 @@
+const Contact = require('../models/Contact');
+
+// Rules shared by everything that turns WhatsApp chats into CRM records: live
+// inbound messages (connector/embedded) and the history import (historyBackfill).
+
+// Helper function for sentiment analysis
+function analyzeSentiment(message) {
+  const lowerMsg = message.toLowerCase();
+  
+  const positiveWords = ['thank', 'thanks', 'great', 'good', 'excellent', 'happy', 'satisfied', 'love', 'perfect', 'awesome', 'amazing', 'wonderful', 'pleased'];
+  const negativeWords = ['bad', 'terrible', 'worst', 'angry', 'frustrated', 'disappointed', 'hate', 'problem', 'issue', 'error', 'wrong', 'broken', 'refund', 'cancel', 'complaint'];
+  
+  const positiveCount = positiveWords.filter(word => lowerMsg.includes(word)).length;
+  const negativeCount = negativeWords.filter(word => lowerMsg.includes(word)).length;
+  
+  if (negativeCount > positiveCount) return { sentiment: 'negative', score: 0.7 };
+  if (positiveCount > negativeCount) return { sentiment: 'positive', score: 0.7 };
+  return { sentiment: 'neutral', score: 0.5 };
+}
+
+// whatsapp-web.js message types that carry an attachment -> Message.type
+const WHATSAPP_MEDIA_TYPES = {
+  image: 'image',
+  video: 'video',
+  audio: 'audio',
+  ptt: 'audio', // voice note
+  document: 'document',
+  sticker: 'sticker'
+};
+
+// whatsapp-web.js ack levels: -1 error, 0 pending, 1 server, 2 device, 3 read, 4 played
+function statusFromAck(ack) {
+  if (ack === -1) return 'failed';
+  if (ack === 2) return 'delivered';
+  if (ack >= 3) return 'read';
+  return null;
+}
+
+// Chat ids look like 15551234567@c.us for people and 120363012345678901@g.us for groups
+function parseChatId(chatId = '') {
+  const [id, server] = chatId.split('@');
+  return { id, isGroup: server === 'g.us' };
+}
+
+// Name and members of a group as WhatsApp knows them
+async function loadGroupDetails(transport, chatId) {
+  try {
+    const info = await transport.getGroupInfo(chatId);
+    if (!info) return null;
+    return {
+      name: info.name,
+      participants: info.participants.map((participant) => ({
+        phone: parseChatId(participant.id).id,
+        isAdmin: participant.isAdmin
+      }))
+    };
+  } catch (e) {
+    console.log('Could not fetch group details, using defaults');
+    return null;
+  }
+}
+
+// Keep the group member list in step with who is actually writing
+function recordParticipant(contact, author) {
+  const participant = contact.participants.find((p) => p.phone === author.phone);
+  if (!participant) {
+    contact.participants.push({ phone: author.phone, name: author.name, isAdmin: false });
+  } else if (author.name && participant.name !== author.name) {
+    participant.name = author.name;
+  }
+}
+
+// Unsaved contact for a chat we have not seen before, named the way WhatsApp
+// knows the person or group. `fields` sets unreadCount, lastContacted, sessionId...
+async function newContactForChat(transport, chatId, fields = {}) {
+  const { id: phone, isGroup } = parseChatId(chatId);
+
+  // Try to get contact (or group) name from WhatsApp
+  let contactName = isGroup ? 'WhatsApp group' : 'Customer';
+  let participants = [];
+  if (isGroup) {
+    const group = await loadGroupDetails(transport, chatId);
+    if (group) {
+      contactName = group.name || contactName;
+      participants = group.participants;
+    }
+  } else {
+    try {
+      contactName = (await transport.getContactName(chatId)) || contactName;
+    } catch (e) {
+      console.log('Could not fetch contact name, using default');
+    }
+  }
+
+  return new Contact({
+    name: contactName,
+    phone,
+    chatType: isGroup ? 'group' : 'individual',
+    participants,
+    queryStatus: 'new',
+    ...fields
+  });
+}
+
+module.exports = {
+  analyzeSentiment,
+  WHATSAPP_MEDIA_TYPES,
+  parseChatId,
+  loadGroupDetails,
+  recordParticipant,
+  newContactForChat,
+  statusFromAck
+};
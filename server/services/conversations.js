@@ -0,0 +1,66 @@
+const Message = require('../models/Message');
+const Contact = require('../models/Contact');
+
+// Hours a customer message may wait for a reply
+const SLA_HOURS = parseFloat(process.env.CONVERSATION_SLA_HOURS || '2');
+
+// Contacts keep a summary of their conversation (Contact.recordMessage) that new
+// messages update as they are stored. Contacts from before the summary existed,
+// or whose messages were written around Mongoose, get it rebuilt from their
+// messages here; the API server does this once at startup.
+async function rebuildSummaries() {
+  const missing = await Contact.find({ lastMessageAt: null }, '_id');
+  if (missing.length === 0) return 0;
+
+  const groups = await Message.aggregate([
+    { $match: { contactId: { $in: missing.map((c) => c._id) } } },
+    {
+      $group: {
+        _id: '$contactId',
+        lastMessageAt: { $max: '$timestamp' },
+        // Our replies count once sent (see models/Message)
+        lastOutboundAt: {
+          $max: {
+            $cond: [
+              { $and: [{ $eq: ['$direction', 'outbound'] }, { $not: [{ $in: ['$status', ['queued', 'sending', 'failed']] }] }] },
+              '$timestamp',
+              null
+            ]
+          }
+        }
+      }
+    }
+  ]);
+
+  const updates = [];
+  for (const group of groups) {
+    // Oldest customer message after our last reply
+    const unanswered = await Message.findOne(
+      {
+        contactId: group._id,
+        direction: 'inbound',
+        ...(group.lastOutboundAt && { timestamp: { $gt: group.lastOutboundAt } })
+      },
+      'timestamp'
+    ).sort({ timestamp: 1 });
+
+    updates.push({
+      updateOne: {
+        filter: { _id: group._id },
+        update: {
+          lastMessageAt: group.lastMessageAt,
+          ...(group.lastOutboundAt && { lastOutboundAt: group.lastOutboundAt }),
+          awaitingReplySince: unanswered ? unanswered.timestamp : null
+        }
+      }
+    });
+  }
+
+  if (updates.length > 0) {
+    await Contact.bulkWrite(updates);
+    console.log(`Rebuilt the conversation summary of ${updates.length} contacts`);
+  }
+  return updates.length;
+}
+
+module.exports = { SLA_HOURS, rebuildSummaries };
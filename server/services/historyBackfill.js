@@ -0,0 +1,211 @@
+const Message = require('../models/Message');
+const Contact = require('../models/Contact');
+const HistoryImport = require('../models/HistoryImport');
+const { publish } = require('./realtime');
+const {
+  analyzeSentiment,
+  WHATSAPP_MEDIA_TYPES,
+  parseChatId,
+  recordParticipant,
+  newContactForChat,
+  statusFromAck
+} = require('./chats');
+
+// Chat history import. WhatsApp only pushes messages that arrive after `ready`,
+// so once a number is linked we pull its most recent chats and messages through
+// the transport and store them like live ones.
+//
+// Progress is kept in HistoryImport after every chat: an import interrupted by a
+// restart or a dropped connection resumes on the next `ready`, skipping finished
+// chats. Messages are matched on their unique WhatsApp id, so importing again
+// never creates duplicates. Attachments are not downloaded for old messages.
+//
+// WHATSAPP_BACKFILL=off disables the automatic import, WHATSAPP_BACKFILL_CHATS
+// and WHATSAPP_BACKFILL_MESSAGES set how far back it goes.
+
+const AUTO_BACKFILL = process.env.WHATSAPP_BACKFILL !== 'off';
+const CHAT_LIMIT = parseInt(process.env.WHATSAPP_BACKFILL_CHATS || '50', 10);
+const MESSAGE_LIMIT = parseInt(process.env.WHATSAPP_BACKFILL_MESSAGES || '100', 10);
+
+// Sessions being imported by this process
+const running = new Set();
+
+// What the Settings page shows, without the internal chat list
+function describe(job) {
+  if (!job) return null;
+  const { processedChatIds, ...progress } = job.toObject();
+  return progress;
+}
+
+function publishProgress(job) {
+  publish('backfill-progress', describe(job));
+}
+
+// Old outbound messages are never put back in the queue, so they cannot be 'failed'
+function historyStatus(ack) {
+  const status = statusFromAck(ack);
+  return status && status !== 'failed' ? status : 'sent';
+}
+
+// Store the recent messages of one chat; returns how many were new and how many known
+async function importChat(transport, chat) {
+  const { sessionId } = transport;
+  const { id: phone, isGroup } = parseChatId(chat.id);
+
+  const history = (await transport.fetchMessages(chat.id, { limit: MESSAGE_LIMIT }))
+    .filter((m) => m.id && ((m.type === 'chat' && m.body) || WHATSAPP_MEDIA_TYPES[m.type]));
+  if (history.length === 0) {
+    return { imported: 0, skipped: 0 };
+  }
+
+  const known = new Set(
+    (await Message.find({ whatsappId: { $in: history.map((m) => m.id) } }, 'whatsappId')).map((m) => m.whatsappId)
+  );
+  const fresh = history.filter((m) => !known.has(m.id));
+
+  // Match or create the contact the same way live messages do, without
+  // counting old messages as unread
+  const lastContacted = new Date(history[history.length - 1].timestamp * 1000);
+  let contact = await Contact.findOne({ phone });
+  if (!contact) {
+    contact = await newContactForChat(transport, chat.id, { unreadCount: 0, lastContacted, sessionId });
+    console.log(`History import created ${isGroup ? 'group' : 'contact'}: ${contact.name} (${phone})`);
+  } else if (!contact.lastContacted || contact.lastContacted < lastContacted) {
+    contact.lastContacted = lastContacted;
+  }
+
+  const docs = fresh.map((m) => {
+    const timestamp = new Date(m.timestamp * 1000);
+    const author = isGroup && !m.fromMe && m.author
+      ? { phone: parseChatId(m.author).id, name: m.authorName || null }
+      : undefined;
+    if (author) recordParticipant(contact, author);
+
+    const doc = {
+      contactId: contact._id,
+      phone,
+      chatType: contact.chatType,
+      author,
+      direction: m.fromMe ? 'outbound' : 'inbound',
+      message: m.body || '',
+      type: m.type === 'chat' ? 'text' : WHATSAPP_MEDIA_TYPES[m.type],
+      sessionId,
+      whatsappId: m.id,
+      timestamp,
+      status: m.fromMe ? historyStatus(m.ack) : 'delivered'
+    };
+    if (m.fromMe) {
+      doc.sentAt = timestamp;
+    } else {
+      const sentiment = analyzeSentiment(doc.message);
+      doc.sentiment = sentiment.sentiment;
+      doc.sentimentScore = sentiment.score;
+    }
+    return doc;
+  });
+
+  await contact.save();
+
+  let imported = 0;
+  if (docs.length > 0) {
+    try {
+      imported = (await Message.insertMany(docs, { ordered: false })).length;
+    } catch (error) {
+      // Some arrived live in the meantime (unique whatsappId), the rest is stored
+      if (error.code !== 11000) throw error;
+      imported = error.insertedDocs ? error.insertedDocs.length : (error.result && error.result.insertedCount) || 0;
+      if (error.insertedDocs) await Message.recordInConversation(error.insertedDocs);
+    }
+  }
+
+  publish('contact-updated', contact);
+  return { imported, skipped: history.length - imported };
+}
+
+// Import (or resume importing) the history of a connected session. `restart`
+// starts over from the first chat even when an earlier import completed.
+async function run(transport, { restart = false } = {}) {
+  const { sessionId } = transport;
+  if (running.has(sessionId)) return null;
+  running.add(sessionId);
+
+  let job = null;
+  try {
+    job = await HistoryImport.findOne({ sessionId });
+    if (job && job.status === 'completed' && !restart) return job;
+
+    if (!job) {
+      job = new HistoryImport({ sessionId });
+    } else if (restart) {
+      job.set({
+        processedChatIds: [],
+        processedChats: 0,
+        importedMessages: 0,
+        skippedMessages: 0,
+        failedChats: 0,
+        startedAt: new Date(),
+        finishedAt: undefined
+      });
+    }
+    const resuming = job.processedChatIds.length > 0;
+    job.status = 'running';
+    job.lastError = undefined;
+
+    const chats = await transport.listChats({ limit: CHAT_LIMIT });
+    job.totalChats = chats.length;
+    await job.save();
+    publishProgress(job);
+    console.log(`${resuming ? 'Resuming' : 'Starting'} history import for "${sessionId}": ${chats.length} chats`);
+
+    for (const chat of chats) {
+      if (job.processedChatIds.includes(chat.id)) continue;
+      if (!transport.isConnected()) {
+        throw new Error('WhatsApp disconnected during the import, it resumes once reconnected');
+      }
+
+      try {
+        const { imported, skipped } = await importChat(transport, chat);
+        job.importedMessages += imported;
+        job.skippedMessages += skipped;
+      } catch (error) {
+        // One unreadable chat should not stop the rest
+        console.error(`History import of chat ${chat.id} failed:`, error.message || error);
+        job.failedChats += 1;
+      }
+      job.processedChatIds.push(chat.id);
+      job.processedChats = job.processedChatIds.length;
+      await job.save();
+      publishProgress(job);
+    }
+
+    job.status = 'completed';
+    job.finishedAt = new Date();
+    await job.save();
+    publishProgress(job);
+    console.log(`History import for "${sessionId}" done: ${job.importedMessages} messages from ${job.processedChats} chats`);
+    return job;
+  } catch (error) {
+    console.error(`History import for "${sessionId}" stopped:`, error.message || error);
+    if (job) {
+      job.status = 'failed';
+      job.lastError = error.message || String(error);
+      await job.save().catch(() => {});
+      publishProgress(job);
+    }
+    return job;
+  } finally {
+    running.delete(sessionId);
+  }
+}
+
+// Start the import when a session connects, unless it already completed
+function watch(transport) {
+  if (!AUTO_BACKFILL) return;
+  transport.on('ready', () => run(transport));
+}
+
+async function getProgress(sessionId) {
+  return describe(await HistoryImport.findOne({ sessionId }));
+}
+
+module.exports = { run, watch, getProgress };
@@ -0,0 +1,15 @@
+// Errors carrying the HTTP status a route answers with
+// (res.status(error.status || 500)), and the check for ids sent in requests.
+
+function httpError(status, message) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+const badRequest = (message) => httpError(400, message);
+
+// A MongoDB ObjectId; anything else would make findById throw a CastError
+const isId = (value) => /^[a-f0-9]{24}$/i.test(String(value || ''));
+
+module.exports = { httpError, badRequest, isId };
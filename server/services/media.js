@@ -0,0 +1,71 @@
+const path = require('path');
+const { getStorage } = require('../storage');
+
+// 16 MB is WhatsApp's limit for photos, videos and voice notes
+const MAX_MEDIA_BYTES = parseInt(process.env.MAX_MEDIA_MB || '16', 10) * 1024 * 1024;
+
+const MIME_EXTENSIONS = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'application/pdf': '.pdf'
+};
+
+// Message.type for a mime type
+function mediaTypeFromMime(mimeType = '') {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  if (base.startsWith('image/')) return 'image';
+  if (base.startsWith('video/')) return 'video';
+  if (base.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+// Mime type for a file name, e.g. attachments of an exported chat
+function mimeTypeFromFilename(filename = '') {
+  const extension = path.extname(filename).toLowerCase();
+  if (extension === '.jpeg') return 'image/jpeg';
+  if (extension === '.opus') return 'audio/ogg';
+  const match = Object.keys(MIME_EXTENSIONS).find((mime) => MIME_EXTENSIONS[mime] === extension);
+  return match || 'application/octet-stream';
+}
+
+// Persist a base64 payload and return the Message.media sub-document
+async function storeMedia({ mimeType, data, filename }) {
+  const buffer = Buffer.from(data, 'base64');
+  if (buffer.length === 0) {
+    throw new Error('Media file is empty');
+  }
+  if (buffer.length > MAX_MEDIA_BYTES) {
+    throw new Error(`Media file is too large (max ${Math.round(MAX_MEDIA_BYTES / 1024 / 1024)} MB)`);
+  }
+
+  const baseMime = (mimeType || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+  const extension = (filename && path.extname(filename)) || MIME_EXTENSIONS[baseMime] || '';
+  const { key, size } = await getStorage().save(buffer, { extension: extension.toLowerCase() });
+
+  return {
+    key,
+    mimeType: mimeType || 'application/octet-stream',
+    size,
+    filename: filename || null
+  };
+}
+
+// Load a stored Message.media back into the { mimeType, data, filename } shape transports send
+async function loadMedia(media) {
+  const buffer = await getStorage().read(media.key);
+  return {
+    mimeType: media.mimeType,
+    data: buffer.toString('base64'),
+    filename: media.filename || null
+  };
+}
+
+module.exports = { MAX_MEDIA_BYTES, mediaTypeFromMime, mimeTypeFromFilename, storeMedia, loadMedia };
@@ -0,0 +1,303 @@
+const mongoose = require('mongoose');
+const Message = require('../models/Message');
+const { publish } = require('./realtime');
+const { loadMedia } = require('./media');
+const { DEFAULT_SESSION, getTransport, listTransports } = require('../transports');
+
+// Outbound messages are persisted as Message documents with status 'queued'
+// before anything is sent, and this worker delivers them through the transport.
+//   queued  -> sending -> sent            happy path
+//   sending -> queued (nextAttemptAt)      transient error, retried with exponential backoff
+//   sending -> failed                      permanent error or attempts exhausted (dead letter)
+// A message left in 'sending' by a worker that died may already have gone out,
+// so it is never sent again automatically: with a WhatsApp id it is marked
+// sent, without one it is failed for an agent to check and retry by hand.
+const POLL_INTERVAL_MS = 1000;
+const MAX_ATTEMPTS = parseInt(process.env.QUEUE_MAX_ATTEMPTS || '5', 10);
+// Minimum gap between two messages to the same number
+const PER_NUMBER_INTERVAL_MS = parseInt(process.env.QUEUE_PER_NUMBER_INTERVAL_MS || '3000', 10);
+// Cap per WhatsApp number, to stay well below WhatsApp's spam detection
+const MAX_PER_MINUTE = parseInt(process.env.QUEUE_MAX_PER_MINUTE || '30', 10);
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+// Pause everything for this long after WhatsApp reports throttling
+const RATE_LIMIT_PAUSE_MS = 60 * 1000;
+// A message stuck in 'sending' this long belonged to a worker that died
+const STALE_SENDING_MS = 2 * 60 * 1000;
+
+let started = false;
+let timer = null;
+let processing = false;
+const lastSentByPhone = new Map();
+// Per session: send timestamps over the last minute, and rate-limit pauses
+const recentSendsBySession = new Map();
+const pausedUntilBySession = new Map();
+
+// Classify a transport send failure and describe it in user-friendly terms
+function classifySendError(sendError, phone) {
+  const errorMsg = ((sendError && (sendError.message || sendError.toString())) || '').toLowerCase();
+  const errorString = String(sendError);
+
+  // Check for various error patterns
+  if (errorMsg.includes('t: t') ||
+      errorMsg.includes('not registered') ||
+      errorMsg.includes('invalid number') ||
+      errorMsg.includes('number not registered') ||
+      errorString.includes('not registered')) {
+    return {
+      transient: false,
+      error: `Phone number ${phone} is not registered on WhatsApp or is invalid. Please verify:\n- The number includes country code (e.g., 1234567890 for US)\n- The number is correct\n- The contact has WhatsApp installed`
+    };
+  }
+
+  if (errorMsg.includes('protocol error') ||
+      errorMsg.includes('execution context') ||
+      errorMsg.includes('target closed') ||
+      errorMsg.includes('session closed') ||
+      errorMsg.includes('not connected')) {
+    return {
+      transient: true,
+      error: 'WhatsApp connection lost. Please go to Settings and reconnect your WhatsApp account.'
+    };
+  }
+
+  if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
+    return {
+      transient: true,
+      error: 'Request timed out. Please check your internet connection and try again.'
+    };
+  }
+
+  if (errorMsg.includes('rate limit') || errorMsg.includes('too many')) {
+    return {
+      transient: true,
+      rateLimited: true,
+      error: 'Too many messages sent. Please wait a few minutes before sending more messages.'
+    };
+  }
+
+  // Generic error with more context
+  const detailedError = (sendError && (sendError.message || sendError.toString())) || 'Unknown error';
+  return {
+    transient: false,
+    error: `Failed to send message: ${detailedError}. Please verify:\n- Phone number format is correct (include country code)\n- WhatsApp is connected\n- The number is registered on WhatsApp`
+  };
+}
+
+function backoffDelay(attempts) {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+}
+
+// Numbers we sent to too recently to send again right now
+function throttledPhones(now) {
+  const phones = [];
+  lastSentByPhone.forEach((sentAt, phone) => {
+    if (now - sentAt < PER_NUMBER_INTERVAL_MS) {
+      phones.push(phone);
+    } else {
+      lastSentByPhone.delete(phone);
+    }
+  });
+  return phones;
+}
+
+function underSessionLimit(sessionId, now) {
+  const recentSends = recentSendsBySession.get(sessionId) || [];
+  while (recentSends.length && now - recentSends[0] > 60000) {
+    recentSends.shift();
+  }
+  return recentSends.length < MAX_PER_MINUTE;
+}
+
+// Sessions that can send right now
+function sendableSessions(now) {
+  return listTransports()
+    .filter((transport) => transport.isConnected())
+    .map((transport) => transport.sessionId)
+    .filter((sessionId) => now >= (pausedUntilBySession.get(sessionId) || 0) && underSessionLimit(sessionId, now));
+}
+
+function recordSend(sessionId, now) {
+  if (!recentSendsBySession.has(sessionId)) {
+    recentSendsBySession.set(sessionId, []);
+  }
+  recentSendsBySession.get(sessionId).push(now);
+}
+
+async function deliver(message) {
+  const sessionId = message.sessionId || DEFAULT_SESSION;
+  try {
+    const transport = getTransport(sessionId);
+    if (!transport) {
+      throw new Error(`WhatsApp number "${sessionId}" is not connected`);
+    }
+    const media = message.media && message.media.key ? await loadMedia(message.media) : undefined;
+    const chatId = `${message.phone}@${message.chatType === 'group' ? 'g.us' : 'c.us'}`;
+    const quotedId = message.quoted && message.quoted.whatsappId;
+    const sent = await transport.sendMessage(chatId, message.message, media, quotedId ? { quotedId } : {});
+
+    const now = Date.now();
+    lastSentByPhone.set(message.phone, now);
+    recordSend(sessionId, now);
+
+    message.status = 'sent';
+    message.whatsappId = sent.id;
+    message.sentAt = new Date(now);
+    message.lastError = undefined;
+    message.nextAttemptAt = undefined;
+    await message.save();
+    console.log(`Queued message ${message._id} sent to ${message.phone}`);
+  } catch (sendError) {
+    const { transient, rateLimited, error } = classifySendError(sendError, message.phone);
+    console.error(`Send attempt ${message.attempts}/${MAX_ATTEMPTS} for message ${message._id} failed:`, sendError.message || sendError);
+
+    if (rateLimited) {
+      pausedUntilBySession.set(sessionId, Date.now() + RATE_LIMIT_PAUSE_MS);
+    }
+
+    message.lastError = error;
+    if (transient && message.attempts < MAX_ATTEMPTS) {
+      message.status = 'queued';
+      message.nextAttemptAt = new Date(Date.now() + (rateLimited ? RATE_LIMIT_PAUSE_MS : backoffDelay(message.attempts)));
+    } else {
+      // Dead letter: an agent has to look at it and retry by hand
+      message.status = 'failed';
+      message.nextAttemptAt = undefined;
+    }
+    await message.save();
+  }
+
+  publish('message-updated', message);
+}
+
+// Claim and deliver the next due message, one at a time
+async function processNext() {
+  if (processing || mongoose.connection.readyState !== 1) {
+    return false;
+  }
+  const now = Date.now();
+  const sessions = sendableSessions(now);
+  if (sessions.length === 0) {
+    return false;
+  }
+  // Messages from before sessions existed have no sessionId and go out through the default number
+  if (sessions.includes(DEFAULT_SESSION)) {
+    sessions.push(null);
+  }
+
+  processing = true;
+  try {
+    const message = await Message.findOneAndUpdate(
+      {
+        direction: 'outbound',
+        status: 'queued',
+        nextAttemptAt: { $lte: new Date(now) },
+        sessionId: { $in: sessions },
+        phone: { $nin: throttledPhones(now) }
+      },
+      { status: 'sending', lockedAt: new Date(now), $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!message) {
+      return false;
+    }
+
+    publish('message-updated', message);
+    await deliver(message);
+    return true;
+  } catch (error) {
+    console.error('Outbound queue error:', error);
+    return false;
+  } finally {
+    processing = false;
+  }
+}
+
+function schedule(delay) {
+  clearTimeout(timer);
+  timer = setTimeout(async () => {
+    const sent = await processNext();
+    // Keep draining while there is work, otherwise fall back to polling
+    schedule(sent ? 0 : POLL_INTERVAL_MS);
+  }, delay);
+}
+
+// Settle messages that were mid-send when a worker stopped
+async function recoverStale() {
+  if (mongoose.connection.readyState !== 1) return;
+  try {
+    const stale = await Message.find({
+      direction: 'outbound',
+      status: 'sending',
+      lockedAt: { $lt: new Date(Date.now() - STALE_SENDING_MS) }
+    });
+    for (const message of stale) {
+      message.nextAttemptAt = undefined;
+      if (message.whatsappId) {
+        // WhatsApp took it; only our own bookkeeping was lost
+        message.status = 'sent';
+        message.sentAt = message.sentAt || message.lockedAt;
+        message.lastError = undefined;
+      } else {
+        message.status = 'failed';
+        message.lastError = 'Sending was interrupted and the message may or may not have been delivered. Check the chat on WhatsApp before retrying.';
+      }
+      await message.save();
+      publish('message-updated', message);
+    }
+    if (stale.length) {
+      console.log(`Settled ${stale.length} message(s) left in 'sending'`);
+    }
+  } catch (error) {
+    console.error('Could not recover stale outbound messages:', error);
+  }
+}
+
+function start() {
+  if (started) return;
+  started = true;
+  mongoose.connection.on('connected', recoverStale);
+  recoverStale();
+  setInterval(recoverStale, STALE_SENDING_MS);
+  schedule(POLL_INTERVAL_MS);
+}
+
+// Send right away when this process runs the queue; a separate worker
+// process picks the message up on its next poll instead
+function wake() {
+  if (started) schedule(0);
+}
+
+// Start draining a session's backlog as soon as it connects
+function watch(transport) {
+  transport.on('ready', () => schedule(0));
+}
+
+// Persist a new outbound message in the queue
+async function enqueue(messageData) {
+  const message = await Message.create({
+    ...messageData,
+    direction: 'outbound',
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: new Date()
+  });
+  wake();
+  return message;
+}
+
+// Put a failed message back in the queue for a fresh set of attempts
+async function requeue(message) {
+  message.status = 'queued';
+  message.attempts = 0;
+  message.nextAttemptAt = new Date();
+  message.lastError = undefined;
+  message.whatsappId = undefined;
+  message.deliveredAt = undefined;
+  message.readAt = undefined;
+  await message.save();
+  wake();
+  return message;
+}
+
+module.exports = { start, watch, enqueue, requeue, recoverStale, classifySendError, backoffDelay, MAX_ATTEMPTS };
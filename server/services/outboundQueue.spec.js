@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import { createRequire } from "module";
+
+// Loaded through Node's require so the spec and the queue share one Message model
+const require = createRequire(import.meta.url);
+const mongoose = require("mongoose");
+const Message = require("../models/Message");
+const { recoverStale, classifySendError, backoffDelay } = require("./outboundQueue");
+
+describe("classifySendError", () => {
+  it("fails numbers that are not on WhatsApp for good", () => {
+    const result = classifySendError(new Error("Phone number not registered"), "447700900123");
+    expect(result.transient).toBe(false);
+    expect(result.error).toContain("447700900123");
+  });
+
+  it("retries when the connection dropped or timed out", () => {
+    expect(classifySendError(new Error("Protocol error (Runtime.callFunctionOn): Target closed"), "1").transient).toBe(true);
+    expect(classifySendError(new Error("Session closed"), "1").transient).toBe(true);
+    expect(classifySendError(new Error("Navigation timeout of 30000 ms exceeded"), "1").transient).toBe(true);
+  });
+
+  it("flags throttling so the session pauses", () => {
+    const result = classifySendError(new Error("Too many requests"), "1");
+    expect(result.transient).toBe(true);
+    expect(result.rateLimited).toBe(true);
+  });
+
+  it("fails unknown errors without retrying", () => {
+    const result = classifySendError("something odd", "1");
+    expect(result.transient).toBe(false);
+    expect(result.rateLimited).toBeUndefined();
+    expect(result.error).toContain("something odd");
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles with every attempt", () => {
+    expect(backoffDelay(1)).toBe(5000);
+    expect(backoffDelay(2)).toBe(10000);
+    expect(backoffDelay(4)).toBe(40000);
+  });
+
+  it("stops growing at ten minutes", () => {
+    expect(backoffDelay(8)).toBe(10 * 60 * 1000);
+    expect(backoffDelay(30)).toBe(10 * 60 * 1000);
+  });
+});
+
+describe("recoverStale", () => {
+  // Pretend the database is up; the model calls themselves are stubbed
+  beforeAll(() => {
+    mongoose.connection.readyState = 1;
+  });
+  afterAll(() => {
+    mongoose.connection.readyState = 0;
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  const staleMessage = (fields) => {
+    const message = new Message({
+      phone: "447700900123",
+      direction: "outbound",
+      message: "Your order has shipped",
+      status: "sending",
+      attempts: 1,
+      lockedAt: new Date(Date.now() - 5 * 60 * 1000),
+      ...fields,
+    });
+    vi.spyOn(message, "save").mockResolvedValue(message);
+    return message;
+  };
+
+  const recover = async (messages) => {
+    vi.spyOn(Message, "find").mockResolvedValue(messages);
+    await recoverStale();
+  };
+
+  it("marks messages WhatsApp already took as sent", async () => {
+    const message = staleMessage({ whatsappId: "true_447700900123@c.us_ABC" });
+    await recover([message]);
+
+    expect(message.status).toBe("sent");
+    expect(message.sentAt).toEqual(message.lockedAt);
+    expect(message.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails messages that may not have gone out instead of sending them again", async () => {
+    const message = staleMessage({});
+    await recover([message]);
+
+    expect(message.status).toBe("failed");
+    expect(message.lastError).toMatch(/may or may not have been delivered/);
+    expect(message.nextAttemptAt).toBeUndefined();
+    expect(message.attempts).toBe(1);
+  });
+
+  it("only looks at outbound messages stuck in sending", async () => {
+    await recover([]);
+    const [filter] = Message.find.mock.calls[0];
+    expect(filter.direction).toBe("outbound");
+    expect(filter.status).toBe("sending");
+    expect(filter.lockedAt.$lt.getTime()).toBeLessThanOrEqual(Date.now() - 2 * 60 * 1000);
+  });
+});
@@ -0,0 +1,71 @@
+const mongoose = require('mongoose');
+const { badRequest, isId } = require('./http');
+
+// Cursor pagination for list endpoints. A page is sorted on one field with _id
+// as tie-breaker; the cursor is the sort value and _id of the last item, so
+// pages stay stable while new documents arrive (unlike skip/limit).
+
+// ?limit= within 1..max
+function parseLimit(value, { fallback = 50, max = 200 } = {}) {
+  if (value === undefined || value === '') return fallback;
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw badRequest('limit must be a positive number');
+  }
+  return Math.min(limit, max);
+}
+
+function encodeCursor(doc, field) {
+  const value = doc[field];
+  const payload = { v: value instanceof Date ? value.toISOString() : value ?? null, id: String(doc._id) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// The filter for the documents after `cursor` in { field: direction } order.
+// Missing values sort lowest in MongoDB, hence the null cases. Values are
+// already cast, so the filter also works in aggregation pipelines.
+function afterCursor(cursor, field, direction, { isDate = false } = {}) {
+  let payload;
+  try {
+    payload = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+  } catch (error) {
+    throw badRequest('Invalid cursor');
+  }
+  if (!payload || typeof payload.id !== 'string' || !isId(payload.id)) {
+    throw badRequest('Invalid cursor');
+  }
+
+  const id = new mongoose.Types.ObjectId(payload.id);
+  const value = payload.v === null ? null : isDate ? new Date(payload.v) : payload.v;
+  const beyond = direction === -1 ? '$lt' : '$gt';
+
+  if (value === null) {
+    return direction === -1
+      ? { [field]: null, _id: { $lt: id } }
+      : { $or: [{ [field]: null, _id: { $gt: id } }, { [field]: { $ne: null } }] };
+  }
+  const or = [{ [field]: { [beyond]: value } }, { [field]: value, _id: { [beyond]: id } }];
+  if (direction === -1) or.push({ [field]: null });
+  return { $or: or };
+}
+
+// Run a paged find: { items, nextCursor }. `filter` is combined with the cursor.
+async function findPage(Model, filter, { sortField, direction, cursor, limit, isDate, collation, projection }) {
+  const conditions = cursor ? { $and: [filter, afterCursor(cursor, sortField, direction, { isDate })] } : filter;
+  let query = Model.find(conditions, projection)
+    .sort({ [sortField]: direction, _id: direction })
+    .limit(limit + 1);
+  if (collation) query = query.collation(collation);
+
+  const items = await query;
+  const hasMore = items.length > limit;
+  if (hasMore) items.pop();
+  return { items, nextCursor: hasMore ? encodeCursor(items[items.length - 1], sortField) : null };
+}
+
+// Literal text inside a $regex
+function escapeRegex(text) {
+  return String(text).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+module.exports = { parseLimit, encodeCursor, afterCursor, findPage, escapeRegex };
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from "vitest";
+import mongoose from "mongoose";
+import { parseLimit, encodeCursor, afterCursor, findPage, escapeRegex } from "./pagination";
+
+const id = (n) => new mongoose.Types.ObjectId(String(n).padStart(24, "0"));
+
+describe("parseLimit", () => {
+  it("falls back when missing and caps at the maximum", () => {
+    expect(parseLimit(undefined)).toBe(50);
+    expect(parseLimit("", { fallback: 20 })).toBe(20);
+    expect(parseLimit("30")).toBe(30);
+    expect(parseLimit("1000", { max: 100 })).toBe(100);
+  });
+
+  it("answers 400 to anything but a positive number", () => {
+    expect(() => parseLimit("0")).toThrow("limit must be a positive number");
+    expect(() => parseLimit("lots")).toThrow(expect.objectContaining({ status: 400 }));
+  });
+});
+
+describe("afterCursor", () => {
+  it("continues after the last item, with _id breaking ties", () => {
+    const last = { _id: id(7), lastContacted: new Date("2026-03-01T10:00:00Z") };
+    const cursor = encodeCursor(last, "lastContacted");
+
+    expect(afterCursor(cursor, "lastContacted", 1, { isDate: true })).toEqual({
+      $or: [
+        { lastContacted: { $gt: last.lastContacted } },
+        { lastContacted: last.lastContacted, _id: { $gt: id(7) } },
+      ],
+    });
+  });
+
+  it("puts documents without the field last when sorting down", () => {
+    const cursor = encodeCursor({ _id: id(7), name: "Sam" }, "name");
+    expect(afterCursor(cursor, "name", -1).$or).toEqual([
+      { name: { $lt: "Sam" } },
+      { name: "Sam", _id: { $lt: id(7) } },
+      { name: null },
+    ]);
+  });
+
+  it("continues among documents without the field", () => {
+    const cursor = encodeCursor({ _id: id(7) }, "name");
+    expect(afterCursor(cursor, "name", -1)).toEqual({ name: null, _id: { $lt: id(7) } });
+    expect(afterCursor(cursor, "name", 1)).toEqual({
+      $or: [{ name: null, _id: { $gt: id(7) } }, { name: { $ne: null } }],
+    });
+  });
+
+  it("answers 400 to cursors it did not make", () => {
+    expect(() => afterCursor("not a cursor", "name", 1)).toThrow("Invalid cursor");
+    const forged = Buffer.from(JSON.stringify({ v: "Sam", id: { $gt: "" } })).toString("base64url");
+    expect(() => afterCursor(forged, "name", 1)).toThrow(expect.objectContaining({ status: 400 }));
+  });
+});
+
+describe("findPage", () => {
+  // A model whose find() resolves to `docs`, recording the query
+  const fakeModel = (docs) => {
+    const query = {
+      sort: vi.fn(() => query),
+      limit: vi.fn(() => query),
+      collation: vi.fn(() => query),
+      then: (resolve, reject) => Promise.resolve(docs.slice()).then(resolve, reject),
+    };
+    return { find: vi.fn(() => query), query };
+  };
+
+  it("returns a cursor for the next page when there is more", async () => {
+    const docs = [1, 2, 3].map((n) => ({ _id: id(n), name: `Contact ${n}` }));
+    const Model = fakeModel(docs);
+
+    const page = await findPage(Model, { queryStatus: "new" }, { sortField: "name", direction: 1, limit: 2 });
+    expect(page.items).toEqual(docs.slice(0, 2));
+    expect(Model.query.limit).toHaveBeenCalledWith(3);
+    expect(Model.query.sort).toHaveBeenCalledWith({ name: 1, _id: 1 });
+    expect(afterCursor(page.nextCursor, "name", 1)).toEqual(afterCursor(encodeCursor(docs[1], "name"), "name", 1));
+  });
+
+  it("ends without a cursor on the last page", async () => {
+    const Model = fakeModel([{ _id: id(1), name: "Ann" }]);
+    const cursor = encodeCursor({ _id: id(9), name: "Aaron" }, "name");
+
+    const page = await findPage(Model, { queryStatus: "new" }, { sortField: "name", direction: 1, cursor, limit: 2 });
+    expect(page.nextCursor).toBeNull();
+    expect(Model.find.mock.calls[0][0]).toEqual({ $and: [{ queryStatus: "new" }, afterCursor(cursor, "name", 1)] });
+  });
+});
+
+describe("escapeRegex", () => {
+  it("matches the text literally", () => {
+    expect(new RegExp(escapeRegex("+44 (0) 20*")).test("call +44 (0) 20* now")).toBe(true);
+  });
+});
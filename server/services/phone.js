@@ -0,0 +1,129 @@
+// Phone numbers are stored as E.164 digits without the leading "+", e.g.
+// 919876543210: the form WhatsApp uses in chat ids (919876543210@c.us), so
+// numbers typed by agents and numbers of incoming messages land on the same
+// Contact. Group chats are addressed by their group id and never normalized.
+//
+// Numbers starting with + are taken as is. A local number ("098765 43210",
+// "(415) 555-2671") is completed with the calling code of DEFAULT_PHONE_REGION
+// (ISO country code, e.g. IN or US), and a number dialled with that region's
+// international prefix (00 in most, 011 in North America) has it removed; without
+// a default region every number must include its country code, after + or 00/011.
+
+const { badRequest } = require('./http');
+
+const DEFAULT_REGION = (process.env.DEFAULT_PHONE_REGION || '').toUpperCase() || null;
+
+// Calling code, trunk prefix dialled before local numbers, national number lengths,
+// and international prefixes dialled before numbers abroad when not the usual 00
+const REGIONS = {
+  US: { code: '1', trunk: '1', lengths: [10], international: ['011'] },
+  CA: { code: '1', trunk: '1', lengths: [10], international: ['011'] },
+  GB: { code: '44', trunk: '0', lengths: [10] },
+  IE: { code: '353', trunk: '0', lengths: [9] },
+  IN: { code: '91', trunk: '0', lengths: [10] },
+  PK: { code: '92', trunk: '0', lengths: [10] },
+  BD: { code: '880', trunk: '0', lengths: [10] },
+  LK: { code: '94', trunk: '0', lengths: [9] },
+  NP: { code: '977', trunk: '0', lengths: [10] },
+  AE: { code: '971', trunk: '0', lengths: [9] },
+  SA: { code: '966', trunk: '0', lengths: [9] },
+  EG: { code: '20', trunk: '0', lengths: [10] },
+  NG: { code: '234', trunk: '0', lengths: [10], international: ['009'] },
+  KE: { code: '254', trunk: '0', lengths: [9], international: ['000'] },
+  ZA: { code: '27', trunk: '0', lengths: [9] },
+  DE: { code: '49', trunk: '0', lengths: [10, 11] },
+  FR: { code: '33', trunk: '0', lengths: [9] },
+  NL: { code: '31', trunk: '0', lengths: [9] },
+  ES: { code: '34', trunk: null, lengths: [9] },
+  IT: { code: '39', trunk: null, lengths: [9, 10] },
+  PT: { code: '351', trunk: null, lengths: [9] },
+  BR: { code: '55', trunk: '0', lengths: [10, 11] },
+  MX: { code: '52', trunk: null, lengths: [10] },
+  AR: { code: '54', trunk: '0', lengths: [10] },
+  CO: { code: '57', trunk: null, lengths: [10] },
+  AU: { code: '61', trunk: '0', lengths: [9], international: ['0011'] },
+  NZ: { code: '64', trunk: '0', lengths: [8, 9] },
+  SG: { code: '65', trunk: null, lengths: [8], international: ['000', '001', '002', '008'] },
+  MY: { code: '60', trunk: '0', lengths: [9, 10] },
+  ID: { code: '62', trunk: '0', lengths: [9, 10, 11, 12], international: ['001', '007', '008'] },
+  PH: { code: '63', trunk: '0', lengths: [10] },
+  TR: { code: '90', trunk: '0', lengths: [10] }
+};
+
+if (DEFAULT_REGION && !REGIONS[DEFAULT_REGION]) {
+  console.warn(`DEFAULT_PHONE_REGION "${DEFAULT_REGION}" is not supported, local numbers need a country code`);
+}
+
+// Dialling prefixes for calling abroad: most regions use 00. Without a region
+// either common one is taken.
+const DEFAULT_INTERNATIONAL = ['00'];
+const ANY_INTERNATIONAL = ['00', '011'];
+
+// E.164 allows 15 digits; the shortest numbers in use have 8 with their country code
+function checkLength(digits, original) {
+  if (digits.length < 8) {
+    throw badRequest(`Phone number ${original} is too short. Include the country code, e.g. +1 415 555 2671 or +91 98765 43210`);
+  }
+  if (digits.length > 15) {
+    throw badRequest(`Phone number ${original} is too long (at most 15 digits with the country code)`);
+  }
+  if (digits.startsWith('0')) {
+    throw badRequest(`Phone number ${original} does not start with a country code`);
+  }
+  return digits;
+}
+
+// Normalize a number as typed or received; throws a 400 error for numbers that
+// cannot be one. `region` overrides DEFAULT_PHONE_REGION. With `stored`, the
+// number is one we hold already (a contact's phone, a WhatsApp chat id): digits
+// only means E.164 already, and "6591234567" stays a Singapore number instead of
+// becoming a local one of the region.
+function normalizePhone(input, { region = DEFAULT_REGION, stored = false } = {}) {
+  const original = String(input == null ? '' : input).trim();
+  if (stored && /^[1-9]\d{7,14}$/.test(original)) {
+    return original;
+  }
+  // "+44 (0)20 7946 0958": the bracketed trunk prefix is not dialled from abroad
+  const cleaned = original.replace(/\(0\)/g, '');
+  const digits = cleaned.replace(/\D/g, '');
+  if (!digits) {
+    throw badRequest('Phone number is required');
+  }
+
+  if (cleaned.startsWith('+')) {
+    return checkLength(digits, original);
+  }
+
+  // A local number first: "0114 496 0000" is a Sheffield number in GB, not 011 + 4 496 0000.
+  // National numbers after a trunk prefix never start with 0, so "00…" is not one.
+  const rules = region && REGIONS[region];
+  if (rules) {
+    const national = rules.trunk && digits.startsWith(rules.trunk) ? digits.slice(rules.trunk.length) : null;
+    if (national && !national.startsWith('0') && rules.lengths.includes(national.length)) {
+      return rules.code + national;
+    }
+    if (rules.lengths.includes(digits.length) && !(rules.trunk && digits.startsWith(rules.trunk))) {
+      return rules.code + digits;
+    }
+  }
+
+  const prefixes = rules ? rules.international || DEFAULT_INTERNATIONAL : ANY_INTERNATIONAL;
+  const prefix = prefixes.find((p) => digits.startsWith(p));
+  if (prefix) {
+    return checkLength(digits.slice(prefix.length), original);
+  }
+
+  // Typed with the country code but without "+"
+  return checkLength(digits, original);
+}
+
+// normalizePhone without the error: null for anything that is not a number
+function tryNormalizePhone(input, options) {
+  try {
+    return normalizePhone(input, options);
+  } catch (error) {
+    return null;
+  }
+}
+
+module.exports = { normalizePhone, tryNormalizePhone, DEFAULT_REGION, REGIONS };
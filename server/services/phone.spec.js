@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { normalizePhone, tryNormalizePhone } from "./phone";
+
+describe("normalizePhone", () => {
+  it("keeps numbers with a + as they are", () => {
+    expect(normalizePhone("+44 (0)20 7946 0958", { region: "IN" })).toBe("442079460958");
+    expect(normalizePhone("+1 (415) 555-2671", { region: "GB" })).toBe("14155552671");
+  });
+
+  it("completes local numbers with the region's calling code", () => {
+    expect(normalizePhone("098765 43210", { region: "IN" })).toBe("919876543210");
+    expect(normalizePhone("98765 43210", { region: "IN" })).toBe("919876543210");
+    expect(normalizePhone("(415) 555-2671", { region: "US" })).toBe("14155552671");
+    expect(normalizePhone("1 415 555 2671", { region: "US" })).toBe("14155552671");
+  });
+
+  it("reads local numbers that start like an international prefix as local", () => {
+    expect(normalizePhone("0114 496 0000", { region: "GB" })).toBe("441144960000");
+    expect(normalizePhone("011 2345 6789", { region: "IN" })).toBe("911123456789");
+  });
+
+  it("removes the region's own international prefix", () => {
+    expect(normalizePhone("00 44 20 7946 0958", { region: "IN" })).toBe("442079460958");
+    expect(normalizePhone("011 44 20 7946 0958", { region: "US" })).toBe("442079460958");
+    expect(normalizePhone("0011 44 20 7946 0958", { region: "AU" })).toBe("442079460958");
+  });
+
+  it("does not remove another region's international prefix", () => {
+    expect(() => normalizePhone("011 44 20 7946 0958", { region: "GB" })).toThrow();
+    expect(() => normalizePhone("00 44 20 7946 0958", { region: "US" })).toThrow();
+  });
+
+  it("takes 00 and 011 without a region", () => {
+    expect(normalizePhone("0044 20 7946 0958", { region: null })).toBe("442079460958");
+    expect(normalizePhone("011 91 98765 43210", { region: null })).toBe("919876543210");
+    expect(normalizePhone("91 98765 43210", { region: null })).toBe("919876543210");
+  });
+
+  it("keeps stored E.164 numbers that are as long as a local one", () => {
+    expect(normalizePhone("6591234567", { region: "IN", stored: true })).toBe("6591234567");
+    expect(normalizePhone("6591234567", { region: "US", stored: true })).toBe("6591234567");
+    expect(normalizePhone("4412345678", { region: "GB", stored: true })).toBe("4412345678");
+    expect(tryNormalizePhone("919876543210", { region: "IN", stored: true })).toBe("919876543210");
+  });
+
+  it("still completes stored local numbers with the region", () => {
+    expect(normalizePhone("098765 43210", { region: "IN", stored: true })).toBe("919876543210");
+    expect(normalizePhone("+44 20 7946 0958", { region: "IN", stored: true })).toBe("442079460958");
+    expect(tryNormalizePhone("0123", { region: "IN", stored: true })).toBeNull();
+  });
+
+  it("rejects what cannot be a number", () => {
+    expect(() => normalizePhone("", { region: "IN" })).toThrow("Phone number is required");
+    expect(() => normalizePhone("12345", { region: null })).toThrow(/too short/);
+    expect(tryNormalizePhone("not a number")).toBeNull();
+  });
+});
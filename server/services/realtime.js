@@ -0,0 +1,21 @@
+const EventEmitter = require('events');
+
+// In-process event bus feeding the /api/stream Server-Sent Events endpoint. Only
+// this process's browsers get what it publishes (see connector/ for the worker).
+// Event names: new-message, message-updated, status-change, contact-updated, connection-state,
+// connection-event, backfill-progress, conversation-assigned, availability-changed,
+// ticket-updated
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+function publish(event, data) {
+  bus.emit('event', { event, data });
+}
+
+// Returns a function that removes the listener again
+function subscribe(listener) {
+  bus.on('event', listener);
+  return () => bus.off('event', listener);
+}
+
+module.exports = { publish, subscribe };
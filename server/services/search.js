@@ -0,0 +1,66 @@
+const { escapeRegex } = require('./pagination');
+
+// Helpers for search: filters, the words of a query and a snippet of the
+// matching text with the matched words marked, for the UI to highlight.
+
+const SNIPPET_RADIUS = 60;
+
+// Name, phone, email or company containing the text; "+91 98765" finds 919876543210
+function contactSearchFilter(text) {
+  const pattern = escapeRegex(text);
+  const conditions = ['name', 'phone', 'email', 'company'].map((field) => ({ [field]: { $regex: pattern, $options: 'i' } }));
+  const digits = text.replace(/\D/g, '');
+  if (digits && digits !== text) {
+    conditions.push({ phone: { $regex: digits } });
+  }
+  return { $or: conditions };
+}
+
+// Words of a $text query, without negated words (-refund) and quotes
+function queryTerms(query) {
+  return String(query || '')
+    .split(/\s+/)
+    .filter((word) => word && !word.startsWith('-'))
+    .map((word) => word.replace(/["']/g, ''))
+    .filter((word) => word.length > 0);
+}
+
+// Matches the terms and other forms of them: the text index stems words, so
+// "refunds" finds "refunded". Matching on the start of the word is close enough.
+function termsPattern(terms) {
+  if (terms.length === 0) return null;
+  const stems = terms.map((term) => escapeRegex(term.length > 4 ? term.slice(0, term.length - 2) : term));
+  return new RegExp(`(${stems.join('|')})[\\w']*`, 'gi');
+}
+
+// A window of `text` around the first match: { snippet, highlights } where
+// highlights are [start, end) offsets in the snippet
+function snippet(text, terms, { radius = SNIPPET_RADIUS } = {}) {
+  const source = String(text || '');
+  const pattern = termsPattern(terms);
+  const matches = pattern ? Array.from(source.matchAll(pattern)) : [];
+  if (matches.length === 0) {
+    const cut = source.length > radius * 2;
+    return { snippet: cut ? `${source.slice(0, radius * 2).trimEnd()}…` : source, highlights: [] };
+  }
+
+  let start = Math.max(0, matches[0].index - radius);
+  let end = Math.min(source.length, matches[0].index + matches[0][0].length + radius);
+  // Do not cut words in half
+  if (start > 0) {
+    const space = source.indexOf(' ', start);
+    if (space !== -1 && space < matches[0].index) start = space + 1;
+  }
+  if (end < source.length) {
+    const space = source.lastIndexOf(' ', end);
+    if (space > matches[0].index + matches[0][0].length) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const highlights = matches
+    .filter((match) => match.index >= start && match.index + match[0].length <= end)
+    .map((match) => [match.index - start + prefix.length, match.index - start + prefix.length + match[0].length]);
+  return { snippet: `${prefix}${source.slice(start, end)}${end < source.length ? '…' : ''}`, highlights };
+}
+
+module.exports = { contactSearchFilter, queryTerms, snippet };
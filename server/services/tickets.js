@@ -0,0 +1,143 @@
+const Contact = require('../models/Contact');
+const Ticket = require('../models/Ticket');
+const { publish } = require('./realtime');
+const { badRequest } = require('./http');
+
+// Tickets (customer issues) of a contact. Every status change goes through
+// here so the ticket's history and timestamps stay complete, and the contact's
+// queryStatus keeps mirroring its current ticket for the inbox.
+
+const ENDED = ['resolved', 'closed'];
+// Where a ticket may go from each status. A closed ticket is final: moving the
+// conversation back to new or in-progress opens a new ticket.
+const TRANSITIONS = {
+  new: ['in-progress', 'resolved', 'closed'],
+  'in-progress': ['new', 'resolved', 'closed'],
+  resolved: ['in-progress', 'closed'],
+  closed: ['new', 'in-progress']
+};
+
+// Move a ticket to `status`, recording the change. `by` is an actor, empty
+// for automatic changes.
+function applyStatus(ticket, status, { by, disposition, note, at = new Date() } = {}) {
+  ticket.history.push({ from: ticket.status, to: status, by, disposition, note, at });
+  ticket.status = status;
+  if (status === 'resolved') ticket.resolvedAt = at;
+  if (status === 'closed') ticket.closedAt = at;
+  if (!ENDED.includes(status)) {
+    // Reopened: it has to be resolved again
+    ticket.resolvedAt = undefined;
+    ticket.disposition = undefined;
+    ticket.resolutionNote = undefined;
+  }
+  if (disposition) {
+    ticket.disposition = disposition;
+    ticket.resolutionNote = note;
+  }
+}
+
+function newTicket(contact, { by, at = new Date() } = {}) {
+  return new Ticket({ contactId: contact._id, openedAt: at, history: [{ to: 'new', by, at }] });
+}
+
+// Show the ticket's status on the contact (not saved)
+function mirror(contact, ticket, by) {
+  contact.ticketId = ticket._id;
+  if (contact.queryStatus !== ticket.status) {
+    contact.queryStatus = ticket.status;
+    contact.statusChangedBy = by;
+    contact.statusChangedAt = new Date();
+  }
+}
+
+// The contact's current ticket. Contacts from before tickets existed get one
+// from their status.
+async function currentTicket(contact) {
+  if (contact.ticketId) {
+    const ticket = await Ticket.findById(contact.ticketId);
+    if (ticket) return ticket;
+  }
+  const ticket = await Ticket.create({
+    contactId: contact._id,
+    status: contact.queryStatus,
+    openedAt: contact.createdAt,
+    history: [{ to: contact.queryStatus, at: contact.createdAt }]
+  });
+  // Another request may have created one meanwhile; keep theirs
+  const claimed = await Contact.updateOne({ _id: contact._id, ticketId: contact.ticketId || null }, { ticketId: ticket._id });
+  if (claimed.modifiedCount === 0) {
+    await ticket.deleteOne();
+    const fresh = await Contact.findById(contact._id, 'ticketId');
+    contact.ticketId = fresh.ticketId;
+    return Ticket.findById(fresh.ticketId);
+  }
+  contact.ticketId = ticket._id;
+  return ticket;
+}
+
+// The customer wrote: the open ticket goes on, otherwise a new one is opened
+// (a resolved one is closed first). Saves the contact when it changed.
+async function ticketForInbound(contact, at = new Date()) {
+  let ticket = await currentTicket(contact);
+  if (ENDED.includes(ticket.status)) {
+    if (ticket.status === 'resolved') {
+      applyStatus(ticket, 'closed', { note: 'The customer wrote again', at });
+      await ticket.save();
+      publish('ticket-updated', ticket);
+    }
+    ticket = await newTicket(contact, { at }).save();
+    publish('ticket-updated', ticket);
+  }
+  mirror(contact, ticket);
+  if (contact.isModified()) await contact.save();
+  return ticket;
+}
+
+// We replied: the first reply after opening is the first response, and a new
+// ticket is now in progress. Replies to ended tickets change nothing.
+// Saves the contact when it changed.
+async function ticketForReply(contact, user, at = new Date()) {
+  const ticket = await currentTicket(contact);
+  if (!ENDED.includes(ticket.status)) {
+    if (!ticket.firstResponseAt) ticket.firstResponseAt = at;
+    if (ticket.status === 'new') applyStatus(ticket, 'in-progress', { by: user.toActor(), at });
+    if (ticket.isModified()) {
+      await ticket.save();
+      publish('ticket-updated', ticket);
+    }
+  }
+  mirror(contact, ticket, user.toActor());
+  if (contact.isModified()) await contact.save();
+  return ticket;
+}
+
+// Change the status of the contact's ticket by hand. Resolving needs a
+// disposition, and so does closing a ticket that was not resolved.
+async function changeTicketStatus(contact, status, { user, disposition, note } = {}) {
+  if (!Ticket.STATUSES.includes(status)) throw badRequest('Invalid status');
+  if (disposition !== undefined && !Ticket.DISPOSITIONS.includes(disposition)) {
+    throw badRequest(`disposition must be one of ${Ticket.DISPOSITIONS.join(', ')}`);
+  }
+
+  let ticket = await currentTicket(contact);
+  if (ticket.status !== status) {
+    if (!TRANSITIONS[ticket.status].includes(status)) {
+      throw badRequest(`A ${ticket.status} ticket cannot become ${status}`);
+    }
+    if (!disposition && (status === 'resolved' || (status === 'closed' && !ticket.disposition))) {
+      throw badRequest(`A reason is required to ${status === 'resolved' ? 'resolve' : 'close'}: one of ${Ticket.DISPOSITIONS.join(', ')}`);
+    }
+
+    const by = user.toActor();
+    if (ticket.status === 'closed') ticket = newTicket(contact, { by });
+    if (ticket.status !== status) applyStatus(ticket, status, { by, disposition, note });
+    await ticket.save();
+    publish('ticket-updated', ticket);
+  }
+
+  mirror(contact, ticket, user.toActor());
+  if (contact.isModified()) await contact.save();
+  return ticket;
+}
+
+module.exports = { currentTicket, ticketForInbound, ticketForReply, changeTicketStatus };
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createRequire } from "module";
+
+// Loaded through Node's require so the spec and the service share the models
+const require = createRequire(import.meta.url);
+const mongoose = require("mongoose");
+const Contact = require("../models/Contact");
+const Ticket = require("../models/Ticket");
+const { ticketForInbound, ticketForReply, changeTicketStatus } = require("./tickets");
+
+const agent = { toActor: () => ({ userId: new mongoose.Types.ObjectId(), name: "Priya" }) };
+
+// A contact whose current ticket has `status`; saves are stubbed out
+function contactWithTicket(status, fields = {}) {
+  const contact = new Contact({ name: "Sam", phone: "447700900123", queryStatus: status });
+  const ticket = new Ticket({ contactId: contact._id, status, history: [{ to: status }], ...fields });
+  contact.ticketId = ticket._id;
+  vi.spyOn(Ticket, "findById").mockResolvedValue(ticket);
+  return { contact, ticket };
+}
+
+describe("tickets", () => {
+  beforeEach(() => {
+    vi.spyOn(Ticket.prototype, "save").mockImplementation(function () {
+      return Promise.resolve(this);
+    });
+    vi.spyOn(Contact.prototype, "save").mockImplementation(function () {
+      return Promise.resolve(this);
+    });
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  describe("changeTicketStatus", () => {
+    it("needs a disposition to resolve", async () => {
+      const { contact } = contactWithTicket("in-progress");
+      await expect(changeTicketStatus(contact, "resolved", { user: agent })).rejects.toMatchObject({ status: 400 });
+
+      const ticket = await changeTicketStatus(contact, "resolved", { user: agent, disposition: "answered", note: "Sent the tracking link" });
+      expect(ticket.status).toBe("resolved");
+      expect(ticket.disposition).toBe("answered");
+      expect(ticket.resolutionNote).toBe("Sent the tracking link");
+      expect(ticket.resolvedAt).toBeInstanceOf(Date);
+      expect(contact.queryStatus).toBe("resolved");
+    });
+
+    it("needs a disposition to close a ticket that was not resolved", async () => {
+      const { contact } = contactWithTicket("new");
+      await expect(changeTicketStatus(contact, "closed", { user: agent })).rejects.toMatchObject({ status: 400 });
+      await expect(changeTicketStatus(contact, "closed", { user: agent, disposition: "spam" })).resolves.toMatchObject({ status: "closed" });
+    });
+
+    it("closes a resolved ticket with its disposition", async () => {
+      const { contact } = contactWithTicket("resolved", { disposition: "fixed" });
+      const ticket = await changeTicketStatus(contact, "closed", { user: agent });
+      expect(ticket.status).toBe("closed");
+      expect(ticket.disposition).toBe("fixed");
+      expect(ticket.closedAt).toBeInstanceOf(Date);
+    });
+
+    it("rejects unknown statuses and dispositions", async () => {
+      const { contact } = contactWithTicket("new");
+      await expect(changeTicketStatus(contact, "archived", { user: agent })).rejects.toThrow("Invalid status");
+      await expect(changeTicketStatus(contact, "resolved", { user: agent, disposition: "bored" })).rejects.toThrow(/disposition must be one of/);
+    });
+
+    it("rejects moves the workflow does not allow", async () => {
+      const { contact } = contactWithTicket("resolved", { disposition: "fixed" });
+      await expect(changeTicketStatus(contact, "new", { user: agent })).rejects.toThrow("A resolved ticket cannot become new");
+    });
+
+    it("clears the resolution when a resolved ticket is reopened", async () => {
+      const { contact } = contactWithTicket("resolved", { disposition: "fixed", resolutionNote: "Replaced", resolvedAt: new Date() });
+      const ticket = await changeTicketStatus(contact, "in-progress", { user: agent });
+      expect(ticket.status).toBe("in-progress");
+      expect(ticket.disposition).toBeUndefined();
+      expect(ticket.resolvedAt).toBeUndefined();
+      expect(ticket.history.map((change) => change.to)).toEqual(["resolved", "in-progress"]);
+    });
+
+    it("opens a new ticket when a closed one is reopened", async () => {
+      const { contact, ticket: closed } = contactWithTicket("closed", { disposition: "answered" });
+      const ticket = await changeTicketStatus(contact, "in-progress", { user: agent });
+      expect(ticket._id).not.toEqual(closed._id);
+      expect(ticket.history.map((change) => change.to)).toEqual(["new", "in-progress"]);
+      expect(closed.status).toBe("closed");
+      expect(contact.ticketId).toEqual(ticket._id);
+    });
+
+    it("changes nothing when the status stays the same", async () => {
+      const { contact } = contactWithTicket("in-progress");
+      await changeTicketStatus(contact, "in-progress", { user: agent });
+      expect(Ticket.prototype.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("ticketForInbound", () => {
+    it("keeps the open ticket going", async () => {
+      const { contact, ticket: open } = contactWithTicket("in-progress");
+      const ticket = await ticketForInbound(contact);
+      expect(ticket).toBe(open);
+      expect(Ticket.prototype.save).not.toHaveBeenCalled();
+    });
+
+    it("closes a resolved ticket and opens a new one", async () => {
+      const { contact, ticket: resolved } = contactWithTicket("resolved", { disposition: "answered" });
+      const ticket = await ticketForInbound(contact);
+      expect(resolved.status).toBe("closed");
+      expect(resolved.history.at(-1).note).toBe("The customer wrote again");
+      expect(ticket.status).toBe("new");
+      expect(contact.queryStatus).toBe("new");
+      expect(contact.ticketId).toEqual(ticket._id);
+    });
+  });
+
+  describe("ticketForReply", () => {
+    it("records the first response and moves a new ticket to in progress", async () => {
+      const { contact } = contactWithTicket("new");
+      const at = new Date("2026-01-05T10:00:00Z");
+      const ticket = await ticketForReply(contact, agent, at);
+      expect(ticket.status).toBe("in-progress");
+      expect(ticket.firstResponseAt).toEqual(at);
+      expect(contact.queryStatus).toBe("in-progress");
+
+      await ticketForReply(contact, agent, new Date("2026-01-05T11:00:00Z"));
+      expect(ticket.firstResponseAt).toEqual(at);
+    });
+
+    it("leaves ended tickets alone", async () => {
+      const { contact, ticket: resolved } = contactWithTicket("resolved", { disposition: "answered" });
+      await ticketForReply(contact, agent);
+      expect(resolved.status).toBe("resolved");
+      expect(resolved.firstResponseAt).toBeUndefined();
+    });
+  });
+});
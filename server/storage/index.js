@@ -0,0 +1,38 @@
+const path = require('path');
+
+// Media storage.
+//
+// Every storage backend implements:
+//   save(buffer, { extension })  resolves to { key, size }
+//   exists(key)                  resolves to true when the file is present
+//   read(key)                    resolves to a Buffer of the file contents
+//   createReadStream(key)        readable stream of the file contents
+//   remove(key)                  deletes the file (no-op when already gone)
+//
+// Only local disk storage exists today; the key is all that is persisted on
+// Message.media, so a cloud backend can be added here without a migration.
+//
+// With a separate WhatsApp worker (see connector/) the worker saves the media of
+// incoming messages and the API server reads it, and the other way round for
+// attachments we send. Both must then use the same MEDIA_STORAGE_DIR: the same
+// machine, or a volume mounted into both.
+
+let storage = null;
+
+function getStorage() {
+  if (!storage) {
+    const LocalStorage = require('./local');
+    storage = new LocalStorage(process.env.MEDIA_STORAGE_DIR || path.join(__dirname, '..', 'uploads'));
+  }
+  return storage;
+}
+
+// Called by the worker and by API servers that use it
+function checkSharedStorage() {
+  if (!process.env.MEDIA_STORAGE_DIR) {
+    console.warn('MEDIA_STORAGE_DIR is not set: media is kept in server/uploads of this process. ' +
+      'The WhatsApp worker and the API server must share one directory, or media will be missing.');
+  }
+}
+
+module.exports = { getStorage, checkSharedStorage };
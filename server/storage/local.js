@@ -0,0 +1,58 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Stores media files on the local disk, under MEDIA_STORAGE_DIR (default server/uploads)
+class LocalStorage {
+  constructor(rootDir) {
+    this.name = 'local';
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  // Resolve a storage key to a path, refusing anything outside the root directory
+  resolve(key) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  async save(buffer, { extension = '' } = {}) {
+    const now = new Date();
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    const key = `${now.getFullYear()}/${month}/${crypto.randomUUID()}${extension}`;
+    const filePath = this.resolve(key);
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, buffer);
+    return { key, size: buffer.length };
+  }
+
+  async exists(key) {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  read(key) {
+    return fs.promises.readFile(this.resolve(key));
+  }
+
+  createReadStream(key) {
+    return fs.createReadStream(this.resolve(key));
+  }
+
+  async remove(key) {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (e) {
+      if (e.code !== 'ENOENT') throw e;
+    }
+  }
+}
+
+module.exports = LocalStorage;
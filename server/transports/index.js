@@ -0,0 +1,109 @@
+// Messaging transports.
+//
+// Every transport is an EventEmitter implementing:
+//   connect()                  start a session (no-op when already running)
+//   disconnect()               log out and wait for a new pairing
+//   reconnect()                restart the session keeping its credentials
+//   close()                    log out and stop for good (the number is being removed)
+//   resetAuth()                delete the stored credentials and wait for a new pairing
+//   getStatus()                { connected, hasQR, authStore, retryCount, account, connectedAt }
+//                              authStore says where credentials are kept ('mongo', 'local'
+//                              or 'memory'), account is { phone, name } of the paired phone,
+//                              connectedAt the Date the session became ready
+//   getQR()                    raw QR string while waiting to be paired, else null
+//   isConnected()              true when messages can be sent
+//   getContactName(chatId)     display name known for a chat, or null
+//   getGroupInfo(chatId)       { name, participants: [{ id, isAdmin }] } for a group chat, else null
+//   sendMessage(chatId, text, media?, options?)
+//                              resolves to { id } with the WhatsApp message id;
+//                              media is { mimeType, data (base64), filename }, text its caption;
+//                              chatId is 123@c.us for a person or 456@g.us for a group;
+//                              options.quotedId replies to that WhatsApp message
+//   react(messageId, emoji)    react to a WhatsApp message, an empty emoji removes the reaction
+//   listChats({ limit })       most recently active chats: [{ id, name, isGroup, timestamp }]
+//   fetchMessages(chatId, { limit })
+//                              latest messages of a chat, oldest first, shaped like 'message'
+//                              below without downloadMedia, plus fromMe and ack
+// and emitting:
+//   'qr' (qr), 'ready', 'disconnected' (reason),
+//   'message' ({ id, from, author, authorName, body, timestamp, type, hasMedia, quotedId, downloadMedia })
+//                                              inbound message, timestamp in seconds;
+//                                              in groups `from` is the group and `author` the member;
+//                                              downloadMedia() resolves to the media object above;
+//                                              quotedId is the WhatsApp id of the message replied to
+//   'ack' ({ id, ack })                        ack level: -1 failed ... 3 read
+//   'reaction' ({ id, emoji, from, fromMe, timestamp })
+//                                              reaction to message `id`, empty emoji when removed
+//   'edit' ({ id, body, timestamp })           message `id` now reads `body`
+//   'revoke' ({ id, timestamp })               message `id` was deleted for everyone
+//   'connection-event' ({ type, reason, retryCount })
+//                                              lifecycle entry for the connection log: type is
+//                                              authenticated, auth_failure, error or retry
+//
+// Pick one with WHATSAPP_TRANSPORT=whatsapp-web (default) or simulator.
+//
+// Each connected WhatsApp number is a named session with its own transport
+// instance; `sessionId` is set on every transport. The 'default' session is
+// the number the app used before sessions existed.
+
+const DEFAULT_SESSION = 'default';
+
+// Session ids end up in LocalAuth folder names, so keep them filesystem-safe
+const SESSION_ID_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+const transports = new Map();
+
+function createTransport(name, sessionId = DEFAULT_SESSION) {
+  switch (name) {
+    case 'simulator':
+      return new (require('./simulator'))({ sessionId });
+    case 'whatsapp-web':
+    case undefined:
+    case '':
+      return new (require('./whatsappWeb'))({ sessionId });
+    default:
+      throw new Error(`Unknown WHATSAPP_TRANSPORT "${name}"`);
+  }
+}
+
+// Transport for a session, created on first use
+function openTransport(sessionId = DEFAULT_SESSION) {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    throw new Error(`Invalid session id "${sessionId}"`);
+  }
+  if (!transports.has(sessionId)) {
+    const transport = createTransport(process.env.WHATSAPP_TRANSPORT, sessionId);
+    transports.set(sessionId, transport);
+    console.log(`Using WhatsApp transport: ${transport.name} (session "${sessionId}")`);
+  }
+  return transports.get(sessionId);
+}
+
+// Transport of an open session, or undefined
+function getTransport(sessionId = DEFAULT_SESSION) {
+  return transports.get(sessionId);
+}
+
+function listTransports() {
+  return Array.from(transports.values());
+}
+
+// Stop a session and forget its transport
+async function closeTransport(sessionId) {
+  const transport = transports.get(sessionId);
+  if (!transport) return false;
+  transports.delete(sessionId);
+  await transport.close();
+  transport.removeAllListeners();
+  return true;
+}
+
+module.exports = {
+  DEFAULT_SESSION,
+  SESSION_ID_PATTERN,
+  createTransport,
+  openTransport,
+  getTransport,
+  listTransports,
+  closeTransport
+};
@@ -0,0 +1,113 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const mongoose = require('mongoose');
+
+// whatsapp-web.js RemoteAuth store that keeps WhatsApp Web sessions in MongoDB
+// (GridFS, the zipped browser profile can be several MB), so a redeploy or a
+// fresh container does not need a new QR scan.
+//
+// The payload is encrypted with AES-256-GCM using a key derived from
+// WHATSAPP_SESSION_KEY: anyone holding the session can read and send messages.
+
+const BUCKET_NAME = 'whatsappAuth';
+const ALGORITHM = 'aes-256-gcm';
+
+function deriveKey(secret) {
+  return crypto.scryptSync(secret, 'whatsconnect-whatsapp-session', 32);
+}
+
+async function getBucket() {
+  if (mongoose.connection.readyState !== 1) {
+    await new Promise((resolve) => mongoose.connection.once('connected', resolve));
+  }
+  return new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName: BUCKET_NAME });
+}
+
+async function readAll(stream) {
+  const chunks = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+class MongoAuthStore {
+  constructor({ secret = process.env.WHATSAPP_SESSION_KEY } = {}) {
+    if (!secret) {
+      throw new Error('WHATSAPP_SESSION_KEY is required to store WhatsApp sessions in MongoDB');
+    }
+    this.key = deriveKey(secret);
+    // Tells sessions saved under another key apart, they cannot be restored
+    this.keyId = crypto.createHash('sha256').update(this.key).digest('hex').slice(0, 16);
+  }
+
+  encrypt(buffer) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    const data = Buffer.concat([cipher.update(buffer), cipher.final()]);
+    return { data, iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64') };
+  }
+
+  decrypt(data, { iv, tag }) {
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  }
+
+  async files(session) {
+    const bucket = await getBucket();
+    return bucket.find({ filename: `${session}.zip` }).sort({ uploadDate: -1 }).toArray();
+  }
+
+  async sessionExists({ session }) {
+    const [file] = await this.files(session);
+    if (file && file.metadata && file.metadata.keyId !== this.keyId) {
+      console.warn(`Stored WhatsApp session "${session}" was encrypted with another WHATSAPP_SESSION_KEY, a new QR scan is needed`);
+      return false;
+    }
+    return !!file;
+  }
+
+  // Upload `${session}.zip` from the working directory, written there by RemoteAuth
+  async save({ session }) {
+    const bucket = await getBucket();
+    const filename = `${session}.zip`;
+    const { data, iv, tag } = this.encrypt(await fs.promises.readFile(filename));
+    const previous = await this.files(session);
+
+    await new Promise((resolve, reject) => {
+      bucket.openUploadStream(filename, { metadata: { iv, tag, algorithm: ALGORITHM, keyId: this.keyId } })
+        .on('error', reject)
+        .on('finish', resolve)
+        .end(data);
+    });
+
+    // Only drop the old copies once the new one is safely stored
+    await Promise.all(previous.map((file) => bucket.delete(file._id)));
+  }
+
+  // Write the latest stored session to `path` for RemoteAuth to unzip
+  async extract({ session, path }) {
+    const bucket = await getBucket();
+    const [file] = await this.files(session);
+    if (!file) {
+      throw new Error(`No stored WhatsApp session "${session}"`);
+    }
+    const data = await readAll(bucket.openDownloadStream(file._id));
+    await fs.promises.writeFile(path, this.decrypt(data, file.metadata));
+  }
+
+  async delete({ session }) {
+    const bucket = await getBucket();
+    const files = await this.files(session);
+    await Promise.all(files.map((file) => bucket.delete(file._id)));
+  }
+
+  // When the stored copy of a session was last written, or null
+  async lastSavedAt({ session }) {
+    const [file] = await this.files(session);
+    return file ? file.uploadDate : null;
+  }
+}
+
+module.exports = MongoAuthStore;
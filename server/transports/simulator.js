@@ -0,0 +1,303 @@
+const EventEmitter = require('events');
+
+// Delay between showing the fake QR code and "scanning" it automatically.
+// Set SIMULATOR_PAIR_DELAY_MS=-1 to wait for POST /api/simulator/scan instead.
+const PAIR_DELAY_MS = parseInt(process.env.SIMULATOR_PAIR_DELAY_MS || '1500', 10);
+
+// Number the simulated account pretends to be logged in as
+const SIMULATOR_PHONE = '15550000000';
+
+// WhatsApp Web ack levels, as emitted by whatsapp-web.js
+const ACK_LEVELS = {
+  failed: -1,
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  played: 4
+};
+
+// Offline transport for demos, development and tests: no phone or browser needed.
+// Outbound messages are kept in an in-memory outbox, inbound messages and acks
+// are injected through the /api/simulator endpoints.
+class SimulatorTransport extends EventEmitter {
+  constructor({ sessionId = 'default' } = {}) {
+    super();
+    this.name = 'simulator';
+    this.sessionId = sessionId;
+    this.closed = false;
+    this.qrCodeData = null;
+    this.isReady = false;
+    this.connectedAt = null;
+    this.pairTimer = null;
+    this.sequence = 0;
+    this.outbox = [];
+    this.contactNames = new Map();
+    this.groups = new Map();
+    // Chat id -> messages, oldest first, for the history import
+    this.history = new Map();
+  }
+
+  remember(chatId, message) {
+    if (!this.history.has(chatId)) {
+      this.history.set(chatId, []);
+    }
+    this.history.get(chatId).push(message);
+  }
+
+  nextId(fromMe, chatId) {
+    this.sequence++;
+    return `${fromMe}_${chatId}_SIM${Date.now().toString(16).toUpperCase()}${this.sequence}`;
+  }
+
+  connect() {
+    if (this.isReady || this.qrCodeData || this.closed) {
+      return;
+    }
+
+    this.qrCodeData = `SIMULATOR-${Date.now()}`;
+    console.log(`Simulator QR Code issued for session "${this.sessionId}" - available in Settings page`);
+    this.emit('qr', this.qrCodeData);
+
+    if (PAIR_DELAY_MS >= 0) {
+      this.pairTimer = setTimeout(() => this.scan(), PAIR_DELAY_MS);
+    }
+  }
+
+  // Pretend the QR code was scanned from a phone
+  scan() {
+    if (this.isReady) return false;
+    clearTimeout(this.pairTimer);
+    this.pairTimer = null;
+    this.qrCodeData = null;
+    this.isReady = true;
+    this.connectedAt = new Date();
+    this.emit('connection-event', { type: 'authenticated', reason: null, retryCount: 0 });
+    console.log(`WhatsApp simulator session "${this.sessionId}" is ready!`);
+    this.emit('ready');
+    return true;
+  }
+
+  teardown() {
+    clearTimeout(this.pairTimer);
+    this.pairTimer = null;
+    this.qrCodeData = null;
+    this.isReady = false;
+    this.connectedAt = null;
+  }
+
+  async disconnect() {
+    this.teardown();
+    this.emit('disconnected', 'LOGOUT');
+    setTimeout(() => this.connect(), 1500);
+  }
+
+  async reconnect() {
+    this.teardown();
+    setTimeout(() => this.connect(), 500);
+  }
+
+  // Nothing is stored, so this is the same as logging out
+  async resetAuth() {
+    await this.disconnect();
+  }
+
+  async close() {
+    this.closed = true;
+    this.teardown();
+    this.emit('disconnected', 'REMOVED');
+  }
+
+  getStatus() {
+    return {
+      connected: this.isReady,
+      hasQR: !!this.qrCodeData,
+      authStore: 'memory',
+      retryCount: 0,
+      account: this.isReady ? { phone: SIMULATOR_PHONE, name: `Simulator (${this.sessionId})` } : null,
+      connectedAt: this.connectedAt
+    };
+  }
+
+  getQR() {
+    return this.qrCodeData;
+  }
+
+  isConnected() {
+    return this.isReady;
+  }
+
+  async getContactName(chatId) {
+    return this.contactNames.get(chatId) || null;
+  }
+
+  async getGroupInfo(chatId) {
+    const group = this.groups.get(chatId);
+    if (!group) return null;
+    return { name: group.name, participants: Array.from(group.participants).map((id) => ({ id, isAdmin: false })) };
+  }
+
+  async sendMessage(chatId, text, media, options = {}) {
+    if (!this.isReady) {
+      throw new Error('Simulator session closed');
+    }
+    const id = this.nextId(true, chatId);
+    this.outbox.push({
+      id,
+      to: chatId,
+      body: text,
+      quotedId: options.quotedId || null,
+      // Keep only what a tester needs to see, not the file contents
+      media: media ? { mimeType: media.mimeType, filename: media.filename || null } : null,
+      timestamp: Math.floor(Date.now() / 1000)
+    });
+    this.remember(chatId, {
+      id, from: chatId, fromMe: true, author: null, authorName: null, body: text || '',
+      timestamp: Math.floor(Date.now() / 1000), type: media ? 'document' : 'chat', hasMedia: !!media, ack: 1
+    });
+    return { id };
+  }
+
+  // WhatsApp echoes our own reactions back, so does the simulator
+  async react(messageId, emoji) {
+    if (!this.isReady) {
+      throw new Error('Simulator session closed');
+    }
+    this.emit('reaction', { id: messageId, emoji: emoji || '', from: null, fromMe: true, timestamp: Math.floor(Date.now() / 1000) });
+  }
+
+  // Simulate a customer writing to us, or to a group we are in when groupId is given
+  injectInbound({ from, body, pushname, timestamp, media, groupId, groupName, quotedId }) {
+    if (!this.isReady) {
+      throw new Error('Simulator is not connected');
+    }
+    const senderId = from.includes('@') ? from : `${from.replace(/\D/g, '')}@c.us`;
+    if (pushname) {
+      this.contactNames.set(senderId, pushname);
+    }
+
+    let chatId = senderId;
+    if (groupId) {
+      chatId = groupId.includes('@') ? groupId : `${groupId.replace(/[^\d-]/g, '')}@g.us`;
+      if (!this.groups.has(chatId)) {
+        this.groups.set(chatId, { name: groupName || 'Simulated group', participants: new Set() });
+      }
+      const group = this.groups.get(chatId);
+      if (groupName) group.name = groupName;
+      group.participants.add(senderId);
+    }
+
+    const message = {
+      id: this.nextId(false, chatId),
+      from: chatId,
+      author: groupId ? senderId : null,
+      authorName: pushname || null,
+      body: body || '',
+      timestamp: timestamp || Math.floor(Date.now() / 1000),
+      type: media ? 'media' : 'chat',
+      hasMedia: !!media,
+      quotedId: quotedId || null,
+      downloadMedia: async () => media || null
+    };
+    this.remember(chatId, { ...message, fromMe: false, downloadMedia: undefined, ack: 3 });
+    this.emit('message', message);
+    return { id: message.id, from: message.from, author: message.author, body: message.body, timestamp: message.timestamp, hasMedia: message.hasMedia };
+  }
+
+  // Simulate a delivery/read receipt for a message we sent
+  injectAck(id, ack) {
+    const level = typeof ack === 'number' ? ack : ACK_LEVELS[ack];
+    if (level === undefined) {
+      throw new Error(`Unknown ack "${ack}". Use one of: ${Object.keys(ACK_LEVELS).join(', ')}`);
+    }
+    this.emit('ack', { id, ack: level });
+    return { id, ack: level };
+  }
+
+  // Simulate a customer reacting to a message, an empty emoji removes the reaction
+  injectReaction({ messageId, emoji, from }) {
+    if (!this.isReady) {
+      throw new Error('Simulator is not connected');
+    }
+    if (!messageId || !from) {
+      throw new Error('messageId and from are required');
+    }
+    const senderId = from.includes('@') ? from : `${from.replace(/\D/g, '')}@c.us`;
+    const reaction = { id: messageId, emoji: emoji || '', from: senderId, fromMe: false, timestamp: Math.floor(Date.now() / 1000) };
+    this.emit('reaction', reaction);
+    return reaction;
+  }
+
+  // Simulate a customer editing a message they sent
+  injectEdit({ messageId, body }) {
+    if (!messageId || typeof body !== 'string') {
+      throw new Error('messageId and body are required');
+    }
+    const edit = { id: messageId, body, timestamp: Math.floor(Date.now() / 1000) };
+    this.emit('edit', edit);
+    return edit;
+  }
+
+  // Simulate a message being deleted for everyone
+  injectRevoke({ messageId }) {
+    if (!messageId) {
+      throw new Error('messageId is required');
+    }
+    const revoke = { id: messageId, timestamp: Math.floor(Date.now() / 1000) };
+    this.emit('revoke', revoke);
+    return revoke;
+  }
+
+  // Pretend a chat already had messages before the phone was linked. Nothing is
+  // emitted, they only show up through the history import.
+  // messages: [{ body, fromMe, minutesAgo }]
+  injectHistory({ from, pushname, messages = [] }) {
+    if (!from || !Array.isArray(messages) || messages.length === 0) {
+      throw new Error('from and a list of messages are required');
+    }
+    const chatId = from.includes('@') ? from : `${from.replace(/\D/g, '')}@c.us`;
+    if (pushname) {
+      this.contactNames.set(chatId, pushname);
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const added = messages.map((message, index) => ({
+      id: this.nextId(!!message.fromMe, chatId),
+      from: chatId,
+      fromMe: !!message.fromMe,
+      author: null,
+      authorName: null,
+      body: message.body || '',
+      timestamp: now - Math.round((message.minutesAgo ?? messages.length - index) * 60),
+      type: 'chat',
+      hasMedia: false,
+      ack: 3
+    }));
+    added.forEach((message) => this.remember(chatId, message));
+    this.history.get(chatId).sort((a, b) => a.timestamp - b.timestamp);
+    return { chatId, added: added.length };
+  }
+
+  async listChats({ limit = 50 } = {}) {
+    return Array.from(this.history.entries())
+      .map(([id, messages]) => ({
+        id,
+        name: this.groups.has(id) ? this.groups.get(id).name : this.contactNames.get(id) || null,
+        isGroup: id.endsWith('@g.us'),
+        timestamp: messages[messages.length - 1].timestamp
+      }))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+
+  async fetchMessages(chatId, { limit = 100 } = {}) {
+    return (this.history.get(chatId) || []).slice(-limit);
+  }
+
+  getOutbox() {
+    return this.outbox.slice(-100);
+  }
+}
+
+SimulatorTransport.ACK_LEVELS = ACK_LEVELS;
+
+module.exports = SimulatorTransport;
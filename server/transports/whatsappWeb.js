@@ -0,0 +1,438 @@
+const EventEmitter = require('events');
+const fs = require('fs');
+const path = require('path');
+const { Client, LocalAuth, RemoteAuth, MessageMedia } = require('whatsapp-web.js');
+const MongoAuthStore = require('./mongoAuthStore');
+
+const MAX_RETRIES = 3;
+
+// Where WhatsApp Web credentials live: 'mongo' (encrypted in MongoDB, survives
+// redeploys) or 'local' (.wwebjs_auth on this machine's disk)
+const AUTH_MODE = process.env.WHATSAPP_AUTH || (process.env.WHATSAPP_SESSION_KEY ? 'mongo' : 'local');
+const LOCAL_AUTH_PATH = path.resolve('./.wwebjs_auth');
+// How often RemoteAuth re-uploads the session once connected (minimum 1 minute)
+const SESSION_BACKUP_MS = Math.max(parseInt(process.env.WHATSAPP_SESSION_BACKUP_MS || '300000', 10), 60000);
+
+let authStore = null;
+function getAuthStore() {
+  if (!authStore) {
+    authStore = new MongoAuthStore();
+  }
+  return authStore;
+}
+
+// Errors thrown by puppeteer when the browser context goes away
+function isProtocolError(error) {
+  return !!(error && error.message && (error.message.includes('Protocol error') || error.message.includes('Execution context was destroyed')));
+}
+
+// Windows keeps the LocalAuth session files locked for a short while
+function isFileLockError(error) {
+  return !!(error && error.message && error.message.includes('EBUSY'));
+}
+
+// Transport backed by a real WhatsApp Web session (whatsapp-web.js + Chromium)
+class WhatsAppWebTransport extends EventEmitter {
+  constructor({ sessionId = 'default' } = {}) {
+    super();
+    this.name = 'whatsapp-web';
+    this.sessionId = sessionId;
+    this.closed = false;
+    this.client = null;
+    this.qrCodeData = null;
+    this.isReady = false;
+    this.isInitializing = false;
+    this.retryCount = 0;
+    this.connectedAt = null;
+    this.account = null;
+  }
+
+  // Lifecycle entry for the connection log (authenticated, auth_failure, error, retry)
+  logEvent(type, reason = null) {
+    this.emit('connection-event', { type, reason, retryCount: this.retryCount });
+  }
+
+  // Initialize WhatsApp client
+  connect(resetRetryCount = true) {
+    // Prevent multiple simultaneous initializations
+    if (this.client || this.isInitializing || this.closed) {
+      return;
+    }
+
+    this.isInitializing = true;
+    if (resetRetryCount) {
+      this.retryCount = 0;
+    }
+
+    const client = new Client({
+      authStrategy: this.createAuthStrategy(),
+      puppeteer: {
+        headless: true,
+        args: [
+          '--no-sandbox',
+          '--disable-setuid-sandbox',
+          '--disable-dev-shm-usage',
+          '--disable-accelerated-2d-canvas',
+          '--no-first-run',
+          '--no-zygote',
+          '--disable-gpu'
+        ],
+        timeout: 60000
+      }
+    });
+    this.client = client;
+
+    client.on('qr', (qr) => {
+      console.log(`QR Code received for session "${this.sessionId}" - available in Settings page`);
+      this.qrCodeData = qr;
+      this.emit('qr', qr);
+    });
+
+    client.on('ready', () => {
+      console.log(`WhatsApp session "${this.sessionId}" is ready!`);
+      this.isReady = true;
+      this.qrCodeData = null;
+      this.isInitializing = false;
+      this.retryCount = 0;
+      this.connectedAt = new Date();
+      const info = client.info;
+      this.account = info ? { phone: (info.wid && info.wid.user) || null, name: info.pushname || null } : null;
+      this.emit('ready');
+    });
+
+    client.on('authenticated', () => {
+      console.log(`WhatsApp session "${this.sessionId}" authenticated`);
+      this.logEvent('authenticated');
+    });
+
+    client.on('remote_session_saved', () => {
+      console.log(`WhatsApp session "${this.sessionId}" saved to MongoDB`);
+    });
+
+    client.on('auth_failure', (msg) => {
+      console.error('WhatsApp authentication failure:', msg);
+      this.isReady = false;
+      this.logEvent('auth_failure', msg || null);
+    });
+
+    client.on('disconnected', (reason) => {
+      console.log('WhatsApp disconnected:', reason);
+      this.isReady = false;
+      this.isInitializing = false;
+      this.connectedAt = null;
+      this.emit('disconnected', reason);
+      // Delay cleanup to avoid Windows file locking issues
+      setTimeout(() => {
+        if (this.client === client) {
+          this.client = null;
+        }
+      }, 2000);
+    });
+
+    // Handle client errors gracefully
+    client.on('error', (error) => {
+      // Ignore EBUSY errors (Windows file locking issue)
+      if (isFileLockError(error)) {
+        console.warn('WhatsApp file locking warning (safe to ignore):', error.message);
+        return;
+      }
+      // Handle ProtocolError - browser context destroyed
+      if (isProtocolError(error)) {
+        console.warn('WhatsApp ProtocolError detected - will retry initialization');
+        this.logEvent('error', error.message);
+        this.isInitializing = false;
+        this.retryWithBackoff();
+        return;
+      }
+      console.error('WhatsApp client error:', error);
+      this.logEvent('error', (error && error.message) || String(error));
+    });
+
+    // Forward incoming messages in the transport-neutral shape
+    client.on('message', async (msg) => {
+      let quotedId = null;
+      if (msg.hasQuotedMsg) {
+        try {
+          const quoted = await msg.getQuotedMessage();
+          quotedId = (quoted && quoted.id && quoted.id._serialized) || null;
+        } catch (e) {
+          console.warn('Could not load quoted message:', e.message);
+        }
+      }
+      this.emit('message', {
+        id: msg.id && msg.id._serialized,
+        from: msg.from,
+        author: msg.author || null,
+        authorName: (msg._data && msg._data.notifyName) || null,
+        body: msg.body || '',
+        timestamp: msg.timestamp,
+        type: msg.type,
+        hasMedia: !!msg.hasMedia,
+        quotedId,
+        downloadMedia: async () => {
+          const media = await msg.downloadMedia();
+          return media ? { mimeType: media.mimetype, data: media.data, filename: media.filename || null } : null;
+        }
+      });
+    });
+
+    client.on('message_ack', (msg, ack) => {
+      this.emit('ack', { id: msg.id && msg.id._serialized, ack });
+    });
+
+    client.on('message_reaction', (reaction) => {
+      this.emit('reaction', {
+        id: reaction.msgId && reaction.msgId._serialized,
+        emoji: reaction.reaction || '',
+        from: reaction.senderId,
+        fromMe: !!(reaction.id && reaction.id.fromMe),
+        timestamp: reaction.timestamp
+      });
+    });
+
+    client.on('message_edit', (msg, newBody) => {
+      this.emit('edit', { id: msg.id && msg.id._serialized, body: newBody || '', timestamp: Math.floor(Date.now() / 1000) });
+    });
+
+    // The revoked message keeps the id of the original one
+    client.on('message_revoke_everyone', (msg) => {
+      this.emit('revoke', { id: msg.id && msg.id._serialized, timestamp: Math.floor(Date.now() / 1000) });
+    });
+
+    const handleInitError = (error) => {
+      this.isInitializing = false;
+      if (isFileLockError(error)) {
+        console.warn('WhatsApp initialization warning (file locking):', error.message);
+      } else if (isProtocolError(error)) {
+        console.warn('WhatsApp ProtocolError during initialization - retrying...');
+      } else {
+        console.error('WhatsApp initialization error:', (error && error.message) || error);
+      }
+      if (!isFileLockError(error)) {
+        this.logEvent('error', (error && error.message) || String(error));
+      }
+      // Retry for every kind of initialization failure
+      this.retryWithBackoff();
+    };
+
+    try {
+      client.initialize().catch(handleInitError);
+    } catch (error) {
+      // Handle synchronous errors
+      handleInitError(error);
+    }
+  }
+
+  // The default session keeps the unnamed auth folder/record so existing pairings survive
+  createAuthStrategy() {
+    const clientId = this.sessionId === 'default' ? undefined : this.sessionId;
+    if (AUTH_MODE === 'mongo') {
+      return new RemoteAuth({ store: getAuthStore(), clientId, backupSyncIntervalMs: SESSION_BACKUP_MS });
+    }
+    return new LocalAuth({ clientId, dataPath: LOCAL_AUTH_PATH });
+  }
+
+  // Retry function with exponential backoff
+  retryWithBackoff() {
+    if (this.retryCount >= MAX_RETRIES) {
+      console.error('WhatsApp initialization failed after maximum retries');
+      this.logEvent('error', `Initialization failed after ${MAX_RETRIES} retries`);
+      this.isInitializing = false;
+      this.client = null;
+      return;
+    }
+
+    this.retryCount++;
+    const delay = Math.min(1000 * Math.pow(2, this.retryCount - 1), 10000); // Exponential backoff, max 10s
+
+    console.log(`Retrying WhatsApp initialization (attempt ${this.retryCount}/${MAX_RETRIES}) in ${delay}ms...`);
+    this.logEvent('retry', `Attempt ${this.retryCount}/${MAX_RETRIES} in ${delay}ms`);
+
+    setTimeout(() => {
+      // Clean up existing client if it exists
+      if (this.client) {
+        try {
+          this.client.destroy().catch(() => {
+            // Ignore destroy errors
+          });
+        } catch (e) {
+          // Ignore destroy errors
+        }
+        this.client = null;
+      }
+
+      // Recreate and reinitialize (don't reset retry count)
+      this.isInitializing = false;
+      this.connect(false);
+    }, delay);
+  }
+
+  // Tear down the browser session, optionally logging the phone out first
+  async teardown(logout) {
+    if (this.client) {
+      if (logout) {
+        try {
+          await this.client.logout();
+        } catch (e) {
+          console.warn('Logout warning:', e.message);
+        }
+      }
+
+      try {
+        await this.client.destroy();
+      } catch (e) {
+        // Ignore EBUSY errors on Windows (file locking issue)
+        if (!isFileLockError(e) && !isProtocolError(e)) {
+          console.error('Error destroying WhatsApp client:', e.message);
+        }
+      }
+    }
+
+    this.client = null;
+    this.qrCodeData = null;
+    this.isReady = false;
+    this.isInitializing = false;
+    this.retryCount = 0;
+    this.connectedAt = null;
+    if (logout) {
+      this.account = null;
+    }
+  }
+
+  // Disconnect / Logout, then start a fresh session waiting for a new QR scan
+  async disconnect() {
+    await this.teardown(true);
+    this.emit('disconnected', 'LOGOUT');
+    setTimeout(() => this.connect(), 1500);
+  }
+
+  async reconnect() {
+    await this.teardown(false);
+    // Longer delay before reinitializing to allow browser processes to fully terminate
+    setTimeout(() => this.connect(), 2000);
+  }
+
+  // Throw away the saved credentials, even if the session cannot start any more,
+  // and wait for a new QR scan
+  async resetAuth() {
+    await this.teardown(true);
+
+    const clientId = this.sessionId === 'default' ? null : this.sessionId;
+    if (AUTH_MODE === 'mongo') {
+      await getAuthStore().delete({ session: clientId ? `RemoteAuth-${clientId}` : 'RemoteAuth' });
+    } else {
+      const dir = path.join(LOCAL_AUTH_PATH, clientId ? `session-${clientId}` : 'session');
+      await fs.promises.rm(dir, { recursive: true, force: true, maxRetries: 4 }).catch((e) => {
+        console.warn('Could not remove local WhatsApp session:', e.message);
+      });
+    }
+
+    console.log(`Stored credentials for WhatsApp session "${this.sessionId}" removed`);
+    this.emit('disconnected', 'AUTH_RESET');
+    setTimeout(() => this.connect(), 1500);
+  }
+
+  async close() {
+    this.closed = true;
+    await this.teardown(true);
+    this.emit('disconnected', 'REMOVED');
+  }
+
+  getStatus() {
+    return {
+      connected: this.isReady,
+      hasQR: !!this.qrCodeData,
+      authStore: AUTH_MODE,
+      retryCount: this.retryCount,
+      account: this.account,
+      connectedAt: this.connectedAt
+    };
+  }
+
+  getQR() {
+    return this.qrCodeData;
+  }
+
+  isConnected() {
+    return this.isReady && !!this.client;
+  }
+
+  // Best-effort display name for a chat id such as 15551234567@c.us
+  async getContactName(chatId) {
+    if (!this.client) return null;
+    const contactInfo = await this.client.getContactById(chatId);
+    if (contactInfo && contactInfo.pushname) return contactInfo.pushname;
+    if (contactInfo && contactInfo.name) return contactInfo.name;
+    return null;
+  }
+
+  async getGroupInfo(chatId) {
+    if (!this.client) return null;
+    const chat = await this.client.getChatById(chatId);
+    if (!chat || !chat.isGroup) return null;
+    return {
+      name: chat.name,
+      participants: (chat.participants || []).map((participant) => ({
+        id: participant.id._serialized,
+        isAdmin: !!(participant.isAdmin || participant.isSuperAdmin)
+      }))
+    };
+  }
+
+  // Most recently active chats, for the history import
+  async listChats({ limit = 50 } = {}) {
+    if (!this.client) return [];
+    const chats = await this.client.getChats();
+    return chats
+      .filter((chat) => chat.id && chat.id._serialized !== 'status@broadcast')
+      .sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))
+      .slice(0, limit)
+      .map((chat) => ({
+        id: chat.id._serialized,
+        name: chat.name || null,
+        isGroup: !!chat.isGroup,
+        timestamp: chat.timestamp || null
+      }));
+  }
+
+  // Latest messages of a chat, oldest first, in both directions
+  async fetchMessages(chatId, { limit = 100 } = {}) {
+    if (!this.client) return [];
+    const chat = await this.client.getChatById(chatId);
+    const messages = await chat.fetchMessages({ limit });
+    return messages.map((msg) => ({
+      id: msg.id && msg.id._serialized,
+      from: msg.fromMe ? msg.to : msg.from,
+      fromMe: !!msg.fromMe,
+      author: msg.author || null,
+      authorName: (msg._data && msg._data.notifyName) || null,
+      body: msg.body || '',
+      timestamp: msg.timestamp,
+      type: msg.type,
+      hasMedia: !!msg.hasMedia,
+      ack: msg.ack
+    }));
+  }
+
+  async sendMessage(chatId, text, media, options = {}) {
+    const sendOptions = options.quotedId ? { quotedMessageId: options.quotedId } : {};
+    let sentMessage;
+    if (media) {
+      const attachment = new MessageMedia(media.mimeType, media.data, media.filename || null);
+      sentMessage = await this.client.sendMessage(chatId, attachment, { ...sendOptions, caption: text || undefined });
+    } else {
+      sentMessage = await this.client.sendMessage(chatId, text, sendOptions);
+    }
+    return { id: sentMessage.id._serialized };
+  }
+
+  async react(messageId, emoji) {
+    const message = await this.client.getMessageById(messageId);
+    if (!message) {
+      throw new Error('Message not found on WhatsApp');
+    }
+    await message.react(emoji);
+  }
+}
+
+module.exports = WhatsAppWebTransport;
@@ -0,0 +1,82 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const path = require('path');
+require('dotenv').config({ path: path.join(__dirname, '.env') });
+
+// Standalone WhatsApp worker: owns the WhatsApp sessions and the outbound queue.
+// API servers started with WHATSAPP_CONNECTOR=worker reach it over HTTP at
+// WHATSAPP_WORKER_URL. Keep it on a private interface; set WHATSAPP_WORKER_TOKEN
+// on both sides when it has to listen beyond localhost. Both need the same
+// MongoDB and MEDIA_STORAGE_DIR; see connector/ for running several API servers.
+
+const connector = require('./connector/embedded');
+const { checkSharedStorage } = require('./storage');
+
+const PORT = process.env.WORKER_PORT || 3001;
+const HOST = process.env.WORKER_HOST || '127.0.0.1';
+const TOKEN = process.env.WHATSAPP_WORKER_TOKEN || '';
+
+const app = express();
+// Same room for base64 attachments as the API server
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '25mb' }));
+
+app.get('/health', (req, res) => {
+  res.json({ status: 'ok', service: 'WhatsConnect WhatsApp worker' });
+});
+
+app.use((req, res, next) => {
+  if (TOKEN && req.get('X-Worker-Token') !== TOKEN) {
+    return res.status(401).json({ error: 'Invalid worker token' });
+  }
+  next();
+});
+
+// Live events (new messages, receipts, connection changes) for the API servers to re-publish
+app.use('/events', require('./routes/stream'));
+
+// Wrap a connector call, answering with its result or its error status
+const handle = (fn) => async (req, res) => {
+  try {
+    const result = await fn(req);
+    if (result === null || result === false) {
+      return res.status(404).json({ error: `WhatsApp number "${req.params.sessionId}" not found` });
+    }
+    res.json(result === true ? { success: true } : result);
+  } catch (error) {
+    if (!error.status) console.error('WhatsApp worker error:', error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+};
+
+app.get('/sessions', handle(() => connector.listSessions()));
+app.post('/sessions', handle((req) => connector.addSession(req.body)));
+app.get('/sessions/:sessionId', handle((req) => connector.getSession(req.params.sessionId)));
+app.delete('/sessions/:sessionId', handle((req) => connector.removeSession(req.params.sessionId)));
+app.get('/sessions/:sessionId/qr', handle((req) => connector.getQR(req.params.sessionId)));
+app.post('/sessions/:sessionId/disconnect', handle((req) => connector.disconnect(req.params.sessionId)));
+app.post('/sessions/:sessionId/reconnect', handle((req) => connector.reconnect(req.params.sessionId)));
+app.post('/sessions/:sessionId/reset-auth', handle((req) => connector.resetAuth(req.params.sessionId)));
+app.post('/sessions/:sessionId/react', handle((req) =>
+  connector.react(req.params.sessionId, req.body.messageId, req.body.emoji || '')
+));
+app.post('/sessions/:sessionId/backfill', handle((req) => connector.backfill(req.params.sessionId)));
+app.post('/sessions/:sessionId/simulator/:action', handle((req) =>
+  connector.simulate(req.params.sessionId, req.params.action, req.body)
+));
+
+// MongoDB
+const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/whatsconnect';
+mongoose.connect(mongoURI)
+  .then(() => console.log('MongoDB connected'))
+  .catch(err => console.error('MongoDB error:', err));
+
+checkSharedStorage();
+connector.start();
+
+// Error safety
+process.on('unhandledRejection', err => console.error(err));
+process.on('uncaughtException', err => console.error(err));
+
+app.listen(PORT, HOST, () => {
+  console.log(`WhatsApp worker listening on ${HOST}:${PORT}`);
+});